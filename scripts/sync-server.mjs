@@ -0,0 +1,130 @@
+// Minimal sync server for trying Lingread sync on a local network: stores each
+// document record as `<dir>/<hash>.json`, answers the HTTP JSON backend and the
+// WebDAV subset Lingread uses (GET, PUT, MKCOL) with ETags for safe writes.
+//
+//   npm run sync-server                                   # port 8787, ./sync-data
+//   PORT=9000 SYNC_DIR=/srv/lingread SYNC_TOKEN=secret npm run sync-server
+//
+// With SYNC_TOKEN set, requests need it as a bearer token or as the password
+// of a WebDAV login.
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { createServer } from 'node:http'
+import { join, resolve } from 'node:path'
+
+const PORT = Number(process.env.PORT) || 8787
+const DIR = resolve(process.env.SYNC_DIR || 'sync-data')
+const TOKEN = process.env.SYNC_TOKEN || ''
+const MAX_BODY_BYTES = 5 * 1024 * 1024
+const RECORD_PATH_RE = /\/([0-9a-f]{64})\.json$/
+
+// Checking a record's ETag and replacing it happen under one lock per record
+const locks = new Map()
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, MKCOL, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+}
+
+function getEtag(body) {
+  return `"${createHash('sha256').update(body).digest('hex').slice(0, 32)}"`
+}
+
+function isAuthorized(header = '') {
+  if (!TOKEN) return true
+  if (header === `Bearer ${TOKEN}`) return true
+  if (!header.startsWith('Basic ')) return false
+  const login = Buffer.from(header.slice(6), 'base64').toString('utf8')
+  return login.slice(login.indexOf(':') + 1) === TOKEN
+}
+
+function withLock(key, task) {
+  const run = (locks.get(key) ?? Promise.resolve()).then(task)
+  const done = run.catch(() => {})
+  locks.set(key, done)
+  done.then(() => {
+    if (locks.get(key) === done) locks.delete(key)
+  })
+  return run
+}
+
+async function readStored(file) {
+  try {
+    return await readFile(file)
+  } catch (error) {
+    if (error.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function readBody(request) {
+  const chunks = []
+  let size = 0
+  for await (const chunk of request) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new Error('Record too large.')
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function handle(request, response) {
+  const send = (status, body = '', headers = {}) => {
+    response.writeHead(status, { ...CORS_HEADERS, ...headers })
+    response.end(body)
+  }
+
+  if (request.method === 'OPTIONS') return send(204)
+  if (!isAuthorized(request.headers.authorization)) {
+    // No WWW-Authenticate, so browsers report the failure instead of prompting for a login
+    return send(401)
+  }
+  if (request.method === 'MKCOL') return send(201)
+
+  const hash = RECORD_PATH_RE.exec(new URL(request.url, 'http://localhost').pathname)?.[1]
+  if (!hash) return send(404)
+  return withLock(hash, () => handleRecord(request, send, hash))
+}
+
+async function handleRecord(request, send, hash) {
+  const file = join(DIR, `${hash}.json`)
+  const stored = await readStored(file)
+
+  if (request.method === 'GET') {
+    if (!stored) return send(404)
+    return send(200, stored, { 'Content-Type': 'application/json', ETag: getEtag(stored) })
+  }
+
+  if (request.method === 'PUT') {
+    const ifMatch = request.headers['if-match']
+    const ifNoneMatch = request.headers['if-none-match']
+    if (ifNoneMatch === '*' && stored) return send(412)
+    if (ifMatch && (!stored || ifMatch !== getEtag(stored))) return send(412)
+
+    const body = await readBody(request)
+    try {
+      JSON.parse(body.toString('utf8'))
+    } catch {
+      return send(400, 'Expected a JSON record.')
+    }
+    // Written whole and then swapped in, so a reader never sees half a record
+    await writeFile(`${file}.tmp`, body)
+    await rename(`${file}.tmp`, file)
+    return send(stored ? 204 : 201, '', { ETag: getEtag(body) })
+  }
+
+  return send(405, '', { Allow: CORS_HEADERS['Access-Control-Allow-Methods'] })
+}
+
+await mkdir(DIR, { recursive: true })
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    console.error(error)
+    if (!response.headersSent) response.writeHead(500, CORS_HEADERS)
+    response.end()
+  })
+}).listen(PORT, () => {
+  console.log(`Lingread sync server on http://localhost:${PORT}/lingread, storing records in ${DIR}`)
+})
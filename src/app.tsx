@@ -1,38 +1,235 @@
 import './App.css'
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react'
 import { createRoot } from 'react-dom/client'
 import {
-  exportAnnotationsAsText,
+  ANNOTATION_EXPORT_FORMATS,
+  countStoredAnnotations,
+  createAnnotationId,
+  exportAnnotations,
+  getAnnotationExportFormat,
+  getAnnotationsInRange,
+  getHighlightsOverlapping,
   getStoredAnnotations,
+  HIGHLIGHT_COLORS,
+  isAnnotationExportFormat,
+  mergeAnnotations,
+  parseAnnotationImport,
+  remapAnnotations,
   saveAnnotations,
   sanitizeExportFilename,
   type Annotation,
+  type AnnotationExportFormat,
+  type AnnotationImportMode,
+  type HighlightColor,
 } from './lib/annotations'
-import { BionicChunk } from './lib/bionic'
 import {
-  extractTextFromDocument,
+  APPEARANCE_STYLE_ID,
+  applyAppearanceCss,
+  buildAppearanceCss,
+  loadAppearance,
+  saveAppearance,
+  type AppearanceSettings,
+} from './lib/appearance'
+import { AppearancePanel } from './lib/appearancePanel'
+import type { BionicChunkProps, ChunkHighlight } from './lib/bionic'
+import { StatsDashboard } from './lib/dashboard'
+import {
+  deleteDictionary,
+  importDictionary,
+  listDictionaries,
+  lookupWord,
+  type DictionaryInfo,
+  type LookupResult,
+} from './lib/dictionary'
+import { DictionaryPanel } from './lib/dictionaryPanel'
+import {
   SUPPORTED_DOCUMENT_ACCEPT,
   SUPPORTED_DOCUMENT_LABEL,
+  type DocumentSection,
+  type ExtractedDocument,
+  type ExtractionProgress,
+  type OcrPage,
+  type PdfCleanupSample,
 } from './lib/documentText'
-import { splitIntoWords } from './lib/text'
+import {
+  DEFAULT_EMPHASIS,
+  parseEmphasisSettings,
+  type EmphasisConfig,
+  type EmphasisScope,
+  type EmphasisSettings,
+} from './lib/emphasis'
+import { EmphasisPanel } from './lib/emphasisPanel'
+import { extractDocument, extractsInWorker, formatExtractionProgress, isAbortError } from './lib/extraction'
+import {
+  createFlashcard,
+  deleteFlashcard,
+  getFlashcardId,
+  getSentenceContext,
+  gradeFlashcard,
+  isFlashcardDue,
+  listFlashcards,
+  saveFlashcard,
+  type Flashcard,
+  type ReviewGrade,
+} from './lib/flashcards'
+import { loadHyphenator } from './lib/hyphenation'
+import {
+  AUTO_LANGUAGE,
+  detectDocumentLanguage,
+  DOCUMENT_LANGUAGES,
+  getLanguageLabel,
+  getTextDirection,
+  isLanguageSetting,
+  resolveDocumentLanguage,
+  usesWordSegmentation,
+  type LanguageSetting,
+} from './lib/language'
+import {
+  deleteLibraryDocument,
+  getLibraryEntry,
+  getStorageUsage,
+  listLibraryEntries,
+  loadLibraryContent,
+  saveLibraryDocument,
+  updateLibraryEntry,
+  type LibraryEntry,
+  type StorageUsage,
+} from './lib/library'
+import { LibraryPanel, type LibraryListItem } from './lib/libraryPanel'
+import {
+  DEFAULT_OCR_LANGUAGE,
+  getOcrConfidenceLevel,
+  loadOcrLanguage,
+  OCR_LANGUAGES,
+  saveOcrLanguage,
+} from './lib/ocr'
+import { OcrOfflineControl } from './lib/ocrOfflineControl'
+import {
+  DEFAULT_WPM,
+  getChunkDelayMs,
+  MAX_WPM,
+  MIN_WPM,
+  toggleAutoAdvance,
+  type AutoAdvanceState,
+} from './lib/pacing'
+import { PdfCleanupPanel } from './lib/pdfCleanupPanel'
+import {
+  DEFAULT_RSVP_WPM,
+  getRsvpDelayMs,
+  isPresentationMode,
+  PRESENTATION_MODES,
+  RSVP_GROUP_SIZES,
+  splitIntoRsvpGroups,
+  type PresentationMode,
+} from './lib/rsvp'
+import { ReviewScreen } from './lib/review'
+import {
+  buildSpeechText,
+  getSpeechVoiceKey,
+  getVoicesForLanguage,
+  parseSpeechSettings,
+  pickSpeechVoice,
+  speakWords,
+  type SpeechEngine,
+  type SpeechSettings,
+  type SpeechVoice,
+} from './lib/speech'
+import { SpeechPanel } from './lib/speechPanel'
+import {
+  getActiveReadingMs,
+  getDayKey,
+  loadReadingHistory,
+  recordChunkRead,
+  recordDocumentFinished,
+  summarizeReading,
+  type ReadingStats,
+} from './lib/stats'
+import { buildSearchIndex, findMatches } from './lib/search'
+import { SearchPanel } from './lib/searchPanel'
+import { clearSelection, getSelectedWordRange, type WordRange } from './lib/selection'
+import {
+  getBoundAction,
+  getKeyBinding,
+  getMediaBinding,
+  getShortcutLabel,
+  loadShortcuts,
+  MEDIA_ACTIONS,
+  saveShortcuts,
+  typesIntoField,
+  watchGamepadButtons,
+  type InputAction,
+  type InputBinding,
+  type ShortcutBindings,
+} from './lib/shortcuts'
+import { ShortcutsScreen } from './lib/shortcutsScreen'
+import { BackupScreen } from './lib/backupScreen'
+import {
+  countQueuedDocuments,
+  createSyncAdapter,
+  loadSyncSettings,
+  queueDocumentSync,
+  saveSyncSettings,
+  syncDocuments,
+  type SyncedDocument,
+  type SyncSettings,
+  type SyncStatus,
+} from './lib/sync'
+import { SyncPanel } from './lib/syncPanel'
+import { DEFAULT_WORDS_PER_CHUNK, listStoredDocuments, readDocumentState, writeDocumentState } from './lib/storage'
+import { ReaderSurface, SurfaceProgress, SurfaceSettings, SurfaceToolbar } from './lib/surface'
+import {
+  buildChunkStarts,
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNKING_STRATEGY,
+  findChunkIndexForWord,
+  findParagraphEnds,
+  getChunkWords,
+  isChunkingStrategy,
+  joinWords,
+  layoutWords,
+  remapWordOffset,
+  type ChunkingStrategy,
+  type WordLayout,
+} from './lib/text'
+import {
+  applyVocabularyChanges,
+  formatKnownShare,
+  getKnownShare,
+  getWordForm,
+  getWordStatus,
+  LEARNING_LEVELS,
+  loadVocabulary,
+  setWordStatus,
+  type LearningLevel,
+  type Vocabulary,
+  type WordStatus,
+} from './lib/vocabulary'
+
+const EMPHASIS_STORAGE_KEY = 'lingread:emphasis'
+const VOCABULARY_TRACKING_KEY = 'lingread:vocabulary-tracking'
+const PDF_CLEANUP_KEY = 'lingread:pdf-cleanup'
+const SPEECH_STORAGE_KEY = 'lingread:speech'
+const REVIEW_CLOCK_MS = 60 * 1000
+const LONG_PRESS_MS = 500
+const LONG_PRESS_SLOP_PX = 10
+/** Sync waits this long after the position or notes last changed. */
+const SYNC_DELAY_MS = 3 * 1000
+/** How often other devices' changes are pulled while sync is on. */
+const SYNC_INTERVAL_MS = 60 * 1000
 
-const DEFAULT_WORDS_PER_CHUNK = 40
-const STORAGE_KEY_PREFIX = 'lingread:'
+const PIP_SIZE_STORAGE_KEY = 'lingread:pip-size'
+const DEFAULT_PIP_SIZE = { width: 480, height: 320 }
 
-// Inline CSS for PiP document (matches fullscreen look)
+// Layout for the PiP document; the page's stylesheets are copied in first and the appearance stylesheet sets colours and type
 const PIP_DOCUMENT_STYLES = `
-  * { box-sizing: border-box; }
-  body { margin: 0; padding: 12px; min-height: 100vh; background: #f5f0e1; font-family: system-ui, sans-serif;
-    display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; }
-  #pip-root { width: 100%; max-width: 100%; }
-  .pipContent { text-align: center; font-size: clamp(18px, 4vw, 28px); line-height: 1.7; letter-spacing: 0.02em;
-    word-wrap: break-word; overflow-wrap: break-word; }
+  body { padding: 8px 12px; min-height: 100vh; background: var(--bg); overflow-y: auto; }
+  #pip-root { display: flex; flex-direction: column; gap: 8px; min-height: calc(100vh - 16px); }
+  .pipContent { margin: auto 0; text-align: center; font-family: var(--readerFont);
+    font-size: clamp(14px, 5vw, var(--readerFontSize)); line-height: var(--readerLineHeight);
+    letter-spacing: var(--readerLetterSpacing); word-wrap: break-word; overflow-wrap: break-word; }
   .pipContent:focus { outline: none; }
-  .pipContent:focus-visible { outline: none; }
-  .pipContent .bionicBold { color: #4a4a4a; font-weight: 700; }
-  .pipContent .bionicRest { color: #7a7a7a; font-weight: 400; }
-  .token { white-space: pre-wrap; }
-  .pipProgress { margin-top: 8px; font-size: 12px; color: #a0a0a0; }
+  .pipContent .rsvpFrame { width: 100%; }
+  .pipContent + .annotationBlock { margin-top: 0; }
 `
 
 function clamp(n: number, min: number, max: number) {
@@ -46,16 +243,105 @@ async function sha256Hex(data: string): Promise<string> {
     .join('')
 }
 
-function isTypingIntoInput() {
-  const el = document.activeElement as HTMLElement | null
+function getGlobalEmphasis(): EmphasisSettings {
+  try {
+    return parseEmphasisSettings(JSON.parse(localStorage.getItem(EMPHASIS_STORAGE_KEY) ?? 'null')) ?? DEFAULT_EMPHASIS
+  } catch {
+    return DEFAULT_EMPHASIS
+  }
+}
+
+function getSpeechSettings(): SpeechSettings {
+  try {
+    return parseSpeechSettings(JSON.parse(localStorage.getItem(SPEECH_STORAGE_KEY) ?? 'null'))
+  } catch {
+    return parseSpeechSettings(null)
+  }
+}
+
+/** `instanceof Element` for any window's elements; the PiP window has its own `Element`. */
+function isElement(target: EventTarget | null): target is Element {
+  return !!target && (target as Node).nodeType === Node.ELEMENT_NODE
+}
+
+function isTypingIntoInput(doc: Document = document) {
+  const el = doc.activeElement as HTMLElement | null
   if (!el) return false
   const tag = el.tagName
   return tag === 'INPUT' || tag === 'TEXTAREA' || el.isContentEditable
 }
 
-function App() {
+/** Size the PiP window last had, so it reopens the same. */
+function loadPipSize(): { width: number; height: number } {
+  try {
+    const size = JSON.parse(localStorage.getItem(PIP_SIZE_STORAGE_KEY) ?? 'null') as { width?: unknown; height?: unknown } | null
+    if (typeof size?.width === 'number' && typeof size.height === 'number') return { width: size.width, height: size.height }
+  } catch {
+    // Fall back to the default size
+  }
+  return DEFAULT_PIP_SIZE
+}
+
+/** Copies the page's stylesheets (but not the appearance one, which is applied separately) into the PiP document. */
+function copyPageStyles(target: Document) {
+  for (const sheet of Array.from(document.styleSheets)) {
+    if ((sheet.ownerNode as Element | null)?.id === APPEARANCE_STYLE_ID) continue
+    try {
+      const style = target.createElement('style')
+      style.textContent = Array.from(sheet.cssRules, (rule) => rule.cssText).join('\n')
+      target.head.appendChild(style)
+    } catch {
+      // Cross-origin sheets cannot be read; link them instead
+      if (!sheet.href) continue
+      const link = target.createElement('link')
+      link.rel = 'stylesheet'
+      link.href = sheet.href
+      target.head.appendChild(link)
+    }
+  }
+}
+
+/** What fills the main area: the reader (or library), flashcard review or reading statistics. */
+type Screen = 'reader' | 'review' | 'stats' | 'shortcuts' | 'backup'
+
+/** The chunk on screen, timed for reading statistics. */
+interface ChunkVisit {
+  hash: string
+  chunkIndex: number
+  words: number
+  shownAt: number
+  /** Time spent with the tab hidden or another screen open. */
+  hiddenMs: number
+  hiddenSince: number | null
+}
+
+interface WordLookup {
+  wordIndex: number
+  token: string
+  /** Viewport position of the tapped word's bottom centre. */
+  x: number
+  y: number
+  /** Null while the lookup is running. */
+  result: LookupResult | null
+  error?: string
+  /** Tapped in the PiP window, so the popup opens there. */
+  inPip: boolean
+}
+
+interface AppProps {
+  /** Read-along's text-to-speech engine; null where the browser has none, which disables read-along. */
+  speechEngine: SpeechEngine | null
+}
+
+function App({ speechEngine }: AppProps) {
   const [filename, setFilename] = useState<string | null>(null)
-  const [words, setWords] = useState<string[]>([])
+  const [documentText, setDocumentText] = useState('')
+  // Offsets are whitespace-word indices as extracted; `sections` maps them onto the current layout
+  const [documentSections, setDocumentSections] = useState<DocumentSection[]>([])
+  const [documentOcrPages, setDocumentOcrPages] = useState<OcrPage[]>([])
+  const [languageSetting, setLanguageSetting] = useState<LanguageSetting>(AUTO_LANGUAGE)
+  const [isTocOpen, setIsTocOpen] = useState(false)
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy>(DEFAULT_CHUNKING_STRATEGY)
   const [wordsPerChunkInput, setWordsPerChunkInput] = useState<string>(String(DEFAULT_WORDS_PER_CHUNK))
 
   const wordsPerChunk = (() => {
@@ -64,6 +350,25 @@ function App() {
     if (!Number.isFinite(n)) return DEFAULT_WORDS_PER_CHUNK
     return clamp(Math.trunc(n), 5, 200)
   })()
+  const [wpmInput, setWpmInput] = useState<string>(String(DEFAULT_WPM))
+  const wpm = (() => {
+    if (wpmInput === '') return DEFAULT_WPM
+    const n = Number(wpmInput)
+    if (!Number.isFinite(n)) return DEFAULT_WPM
+    return clamp(Math.trunc(n), MIN_WPM, MAX_WPM)
+  })()
+  const [autoAdvance, setAutoAdvance] = useState<AutoAdvanceState>('off')
+  const [presentationMode, setPresentationMode] = useState<PresentationMode>('chunk')
+  const [rsvpWpmInput, setRsvpWpmInput] = useState<string>(String(DEFAULT_RSVP_WPM))
+  const rsvpWpm = (() => {
+    if (rsvpWpmInput === '') return DEFAULT_RSVP_WPM
+    const n = Number(rsvpWpmInput)
+    if (!Number.isFinite(n)) return DEFAULT_RSVP_WPM
+    return clamp(Math.trunc(n), MIN_WPM, MAX_WPM)
+  })()
+  const [rsvpGroupSize, setRsvpGroupSize] = useState<number>(1)
+  const [rsvpIndex, setRsvpIndex] = useState<number>(0)
+  const [rsvpPlaying, setRsvpPlaying] = useState<boolean>(false)
   const [chunkIndex, setChunkIndex] = useState<number>(0)
   const [fullscreenMode, setFullscreenMode] = useState<boolean>(false)
   const [isPipOpen, setIsPipOpen] = useState<boolean>(false)
@@ -71,128 +376,569 @@ function App() {
   const [annotations, setAnnotations] = useState<Annotation[]>([])
   const [annotationDraft, setAnnotationDraft] = useState('')
   const [isEditingAnnotation, setIsEditingAnnotation] = useState(false)
+  // Annotation being edited, or null when the form adds a new note
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null)
+  // Words selected in the reader, waiting for a highlight colour or note
+  const [selectedRange, setSelectedRange] = useState<WordRange | null>(null)
+  // Range and colour the annotation form will save a new note with (null range = whole chunk)
+  const [pendingRange, setPendingRange] = useState<WordRange | null>(null)
+  const [draftColor, setDraftColor] = useState<HighlightColor | null>(null)
+  // The reader surface in each view, for reading selections
+  const chunkRef = useRef<HTMLDivElement | null>(null)
+  const fullscreenContentRef = useRef<HTMLDivElement | null>(null)
+  const pipContentRef = useRef<HTMLDivElement | null>(null)
+  const [exportFormat, setExportFormat] = useState<AnnotationExportFormat>('text')
+  // Annotations read from an import file, waiting for the merge/replace choice
+  const [pendingImport, setPendingImport] = useState<Annotation[] | null>(null)
+  const [libraryEntries, setLibraryEntries] = useState<LibraryListItem[]>([])
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null)
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1)
+  const searchInputRef = useRef<HTMLInputElement | null>(null)
+  const [emphasisSettings, setEmphasisSettings] = useState<EmphasisSettings>(getGlobalEmphasis)
+  const [emphasisScope, setEmphasisScope] = useState<EmphasisScope>('global')
+  const [isEmphasisOpen, setIsEmphasisOpen] = useState(false)
+  const [appearance, setAppearance] = useState<AppearanceSettings>(loadAppearance)
+  const [isAppearanceOpen, setIsAppearanceOpen] = useState(false)
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(loadShortcuts)
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => ({
+    state: syncSettings.backend === 'off' ? 'off' : 'idle',
+    lastSyncedAt: null,
+    message: null,
+    queued: countQueuedDocuments(),
+  }))
+  const [isSyncOpen, setIsSyncOpen] = useState(false)
+  // One sync at a time; the long-lived triggers below call the latest `runSync`
+  const isSyncingRef = useRef(false)
+  const syncRef = useRef<(all?: boolean) => void>(() => {})
+  const syncedDocumentRef = useRef<(synced: SyncedDocument) => void>(() => {})
+  // Document that may still move to a further position synced from another device; only its first sync moves it
+  const syncJumpRef = useRef<string | null>(null)
+  // Document the persist effect has written for since it was opened; its first write is the restored state
+  const persistedHashRef = useRef<string | null>(null)
+  const [ocrLanguage, setOcrLanguage] = useState(loadOcrLanguage)
+  const [pdfCleanup, setPdfCleanup] = useState(() => localStorage.getItem(PDF_CLEANUP_KEY) !== '0')
+  const [isPdfCleanupOpen, setIsPdfCleanupOpen] = useState(false)
+  // The PDF picked this session and whether it was cleaned up, so cleanup can be switched by reading it again
+  const [pdfSource, setPdfSource] = useState<{ file: File; cleanup: boolean } | null>(null)
+  const [pdfCleanupPreview, setPdfCleanupPreview] = useState<PdfCleanupSample[]>([])
+  const [hyphenator, setHyphenator] = useState<{ language: string; hyphenate: (word: string) => string } | null>(
+    null
+  )
+  const [dictionaries, setDictionaries] = useState<DictionaryInfo[]>([])
+  const [isDictionariesOpen, setIsDictionariesOpen] = useState(false)
+  const [dictionaryStatus, setDictionaryStatus] = useState<string | null>(null)
+  const [lookup, setLookup] = useState<WordLookup | null>(null)
+  const [vocabularyTracking, setVocabularyTracking] = useState(
+    () => localStorage.getItem(VOCABULARY_TRACKING_KEY) === '1'
+  )
+  const [vocabulary, setVocabulary] = useState<Vocabulary>(() => new Map())
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([])
+  const [screen, setScreen] = useState<Screen>('reader')
+  const [readingStats, setReadingStats] = useState<ReadingStats | null>(null)
+  const chunkVisitRef = useRef<ChunkVisit | null>(null)
+  // File being extracted; Cancel aborts it
+  const extractionRef = useRef<AbortController | null>(null)
+  // First word on screen, for a streamed document that completes after the reader has moved on
+  const readingWordRef = useRef(0)
+  // Ticks so cards become due without a reload
+  const [reviewNow, setReviewNow] = useState(() => Date.now())
+  const [speechVoices, setSpeechVoices] = useState<SpeechVoice[]>(() => speechEngine?.getVoices() ?? [])
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(getSpeechSettings)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  // Word the speech engine last reported reaching
+  const [spokenWordIndex, setSpokenWordIndex] = useState<number | null>(null)
+  const [isSpeechOpen, setIsSpeechOpen] = useState(false)
+  const lookupPopupRef = useRef<HTMLDivElement | null>(null)
+  // Pending long-press timer and where it started; `fired` swallows the click that ends the press
+  const longPressRef = useRef<{ timer: number; x: number; y: number; fired: boolean } | null>(null)
   const [loadError, setLoadError] = useState<string | null>(null)
+  // File being read, with how far extraction has got (null until the format reports progress)
+  const [extraction, setExtraction] = useState<{ filename: string; progress: ExtractionProgress | null } | null>(null)
   const pipWindowRef = useRef<Window | null>(null)
   const pipRootRef = useRef<ReturnType<typeof createRoot> | null>(null)
+  const inputHandlerRef = useRef<(binding: InputBinding, e?: KeyboardEvent) => void>(() => {})
+
+  const detectedLanguage = useMemo(() => detectDocumentLanguage(documentText), [documentText])
+  const documentLanguage = languageSetting === AUTO_LANGUAGE ? detectedLanguage : languageSetting
+  const textDir = getTextDirection(documentLanguage)
+  const wordLayout = useMemo(() => layoutWords(documentText, documentLanguage), [documentText, documentLanguage])
+  const words = wordLayout.words
+  const paragraphEnds = useMemo(
+    () => findParagraphEnds(documentText, documentLanguage),
+    [documentText, documentLanguage]
+  )
+  const sections = useMemo(() => {
+    if (!usesWordSegmentation(documentLanguage)) return documentSections
+    const plain = layoutWords(documentText)
+    return documentSections.map((section) => ({
+      ...section,
+      wordOffset: remapWordOffset(section.wordOffset, plain, wordLayout),
+    }))
+  }, [documentText, documentLanguage, documentSections, wordLayout])
+  const ocrPages = useMemo(() => {
+    if (documentOcrPages.length === 0 || !usesWordSegmentation(documentLanguage)) return documentOcrPages
+    const plain = layoutWords(documentText)
+    return documentOcrPages.map((page) => ({
+      ...page,
+      wordStart: remapWordOffset(page.wordStart, plain, wordLayout),
+      wordEnd: remapWordOffset(page.wordEnd, plain, wordLayout),
+    }))
+  }, [documentText, documentLanguage, documentOcrPages, wordLayout])
+
+  const emphasisConfig = useMemo<EmphasisConfig>(
+    () => ({
+      ...emphasisSettings,
+      language: documentLanguage,
+      hyphenate: hyphenator?.language === documentLanguage ? hyphenator.hyphenate : undefined,
+    }),
+    [emphasisSettings, documentLanguage, hyphenator]
+  )
+
+  const documentForms = useMemo(
+    () => (vocabularyTracking ? words.map(getWordForm) : []),
+    [vocabularyTracking, words]
+  )
+  const shownVocabulary = vocabularyTracking ? vocabulary : undefined
+
+  const chunkStarts = useMemo(
+    () => buildChunkStarts(words, paragraphEnds, wordsPerChunk, chunkingStrategy),
+    [words, paragraphEnds, wordsPerChunk, chunkingStrategy]
+  )
+  const chunkCount = chunkStarts.length
+
+  const currentWords = useMemo(
+    () => getChunkWords(words, chunkStarts, chunkIndex),
+    [chunkIndex, words, chunkStarts]
+  )
+
+  const currentChunkEndsParagraph = useMemo(() => {
+    if (chunkStarts.length === 0) return false
+    const end = (chunkStarts[chunkIndex + 1] ?? words.length) - 1
+    return paragraphEnds.includes(end)
+  }, [chunkIndex, chunkStarts, paragraphEnds, words.length])
+
+  // Last section that starts at or before the current chunk's first word
+  const currentSectionIndex = useMemo(() => {
+    const start = chunkStarts[chunkIndex] ?? 0
+    let found = -1
+    sections.forEach((section, i) => {
+      if (section.wordOffset <= start) found = i
+    })
+    return found
+  }, [chunkStarts, chunkIndex, sections])
+  const currentSection = currentSectionIndex >= 0 ? sections[currentSectionIndex] : undefined
+
+  const searchIndex = useMemo(() => buildSearchIndex(words), [words])
+  const deferredSearchQuery = useDeferredValue(searchQuery)
+  const searchMatches = useMemo(
+    () => (isSearchOpen ? findMatches(searchIndex, deferredSearchQuery) : []),
+    [isSearchOpen, searchIndex, deferredSearchQuery]
+  )
+  const activeMatch = isSearchOpen ? (searchMatches[activeMatchIndex] ?? null) : null
+
+  const rsvpGroups = useMemo(
+    () => splitIntoRsvpGroups(currentWords, rsvpGroupSize),
+    [currentWords, rsvpGroupSize]
+  )
+  const currentRsvpGroup = useMemo(
+    () => rsvpGroups[Math.min(rsvpIndex, rsvpGroups.length - 1)] ?? [],
+    [rsvpGroups, rsvpIndex]
+  )
+  const isRsvp = presentationMode === 'rsvp'
+
+  const currentChunkStart = chunkStarts[chunkIndex] ?? 0
+  const currentChunkEnd = chunkStarts[chunkIndex + 1] ?? words.length
+  const currentRsvpOffset =
+    currentChunkStart +
+    rsvpGroups.slice(0, Math.min(rsvpIndex, rsvpGroups.length - 1)).reduce((sum, group) => sum + group.length, 0)
+  const currentOcrPage = ocrPages.find((page) => currentChunkStart < page.wordEnd && currentChunkEnd > page.wordStart)
+
+  const currentChunkAnnotations = useMemo(
+    () => getAnnotationsInRange(annotations, currentChunkStart, currentChunkEnd),
+    [annotations, currentChunkStart, currentChunkEnd]
+  )
 
-  const chunkCount = useMemo(() => {
-    if (words.length === 0) return 0
-    return Math.max(1, Math.ceil(words.length / wordsPerChunk))
-  }, [words.length, wordsPerChunk])
+  const chunkHighlights = useMemo<ChunkHighlight[]>(
+    () =>
+      getHighlightsOverlapping(annotations, currentChunkStart, currentChunkEnd).map((a) => ({
+        start: a.wordStart,
+        end: a.wordEnd,
+        color: a.color,
+        note: a.text,
+      })),
+    [annotations, currentChunkStart, currentChunkEnd]
+  )
+
+  const chunkKnownShare = useMemo(
+    () => getKnownShare(vocabulary, documentForms, currentChunkStart, currentChunkEnd),
+    [vocabulary, documentForms, currentChunkStart, currentChunkEnd]
+  )
+  const documentKnownShare = useMemo(() => getKnownShare(vocabulary, documentForms), [vocabulary, documentForms])
 
-  const currentWords = useMemo(() => {
-    const start = chunkIndex * wordsPerChunk
-    return words.slice(start, start + wordsPerChunk)
-  }, [chunkIndex, words, wordsPerChunk])
+  const dueFlashcards = useMemo(
+    () => flashcards.filter((card) => isFlashcardDue(card, reviewNow)),
+    [flashcards, reviewNow]
+  )
 
-  const currentChunkAnnotation = useMemo(
-    () => annotations.find((a) => a.chunkIndex === chunkIndex),
-    [annotations, chunkIndex]
+  const documentVoices = useMemo(
+    () => getVoicesForLanguage(speechVoices, documentLanguage),
+    [speechVoices, documentLanguage]
+  )
+  const speechVoice = pickSpeechVoice(
+    speechVoices,
+    documentLanguage,
+    speechSettings.voices[getSpeechVoiceKey(documentLanguage)]
   )
+  const speechVoiceId = speechVoice?.id
+  const activeSpokenWord = isSpeaking ? spokenWordIndex : null
+
+  const appearanceCss = useMemo(() => buildAppearanceCss(appearance), [appearance])
 
   const hasText = words.length > 0
   const hasPrev = hasText && chunkIndex > 0
   const hasNext = hasText && chunkIndex < chunkCount - 1
+  const documentProgress = hasText ? Math.round((currentChunkEnd / words.length) * 100) : 0
+  // At the RSVP pace in RSVP mode, otherwise at the auto-advance pace
+  const minutesLeft = hasText ? Math.round((words.length - currentChunkStart) / (isRsvp ? rsvpWpm : wpm)) : null
+  const playbackStatus = isRsvp
+    ? `${rsvpWpm} wpm${rsvpPlaying ? '' : ' · paused'}`
+    : autoAdvance !== 'off'
+      ? `${wpm} wpm${autoAdvance === 'paused' ? ' · paused' : ''}`
+      : null
+  const advanceKeyLabel = getShortcutLabel(shortcuts, 'advance')
+  const exitKeyLabel = getShortcutLabel(shortcuts, 'exit')
 
   useEffect(() => {
     if (!hasText) return
     setChunkIndex((idx) => clamp(idx, 0, Math.max(0, chunkCount - 1)))
   }, [chunkCount, hasText])
 
-  // Close annotation form when switching chunks
+  // Close annotation form and restart RSVP at the chunk's first word when switching chunks
   useEffect(() => {
     setIsEditingAnnotation(false)
+    setSelectedRange(null)
+    setRsvpIndex(0)
+    setLookup(null)
   }, [chunkIndex])
 
   useEffect(() => {
+    let cancelled = false
+    void listDictionaries()
+      .then((list) => {
+        if (!cancelled) setDictionaries(list)
+      })
+      .catch(() => {
+        // IndexedDB unavailable; lookups stay off
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Vocabulary is per language and shared by every document in it
+  useEffect(() => {
+    if (!vocabularyTracking || !hasText) return
+    let cancelled = false
+    void loadVocabulary(documentLanguage)
+      .then((loaded) => {
+        if (!cancelled) setVocabulary(loaded)
+      })
+      .catch(() => {
+        if (!cancelled) setVocabulary(new Map())
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [vocabularyTracking, hasText, documentLanguage])
+
+  // Dismiss the lookup popup on Escape or a press outside it
+  useEffect(() => {
+    if (!lookup) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (!lookupPopupRef.current?.contains(e.target as Node)) setLookup(null)
+    }
     const onKeyDown = (e: KeyboardEvent) => {
-      // Escape exits fullscreen or closes PiP
-      if (e.code === 'Escape') {
-        const pip = pipWindowRef.current
-        if (pip && !pip.closed) {
-          e.preventDefault()
-          pip.close()
-          return
-        }
-        if (fullscreenMode) {
-          e.preventDefault()
-          setFullscreenMode(false)
-          return
-        }
+      if (e.code !== 'Escape') return
+      // Capture phase, so Escape closes the popup before it leaves fullscreen
+      e.preventDefault()
+      e.stopPropagation()
+      setLookup(null)
+    }
+    const pip = pipWindowRef.current
+    const views = lookup.inPip && pip ? [window, pip] : [window]
+    for (const view of views) {
+      view.document.addEventListener('pointerdown', onPointerDown)
+      view.addEventListener('keydown', onKeyDown, true)
+    }
+    return () => {
+      for (const view of views) {
+        view.document.removeEventListener('pointerdown', onPointerDown)
+        view.removeEventListener('keydown', onKeyDown, true)
       }
+    }
+  }, [lookup])
 
-      // Space advances chunk
-      if (e.code === 'Space' && hasText) {
-        if (e.repeat) return
-        if (chunkCount <= 1) return
-        if (!fullscreenMode && isTypingIntoInput()) return
+  useEffect(() => {
+    if (!speechEngine) return
+    return speechEngine.onVoicesChanged(() => setSpeechVoices(speechEngine.getVoices()))
+  }, [speechEngine])
 
-        e.preventDefault()
-        setChunkIndex((idx) => Math.min(idx + 1, chunkCount - 1))
+  // Read the chunk aloud, following the engine's word boundaries, then move to the next one
+  useEffect(() => {
+    if (!speechEngine || !isSpeaking || isRsvp || isEditingAnnotation || currentWords.length === 0) return
+    speakWords(
+      speechEngine,
+      buildSpeechText(words, currentChunkStart, currentChunkEnd, wordLayout.joined),
+      currentChunkStart,
+      { language: documentLanguage, voiceId: speechVoiceId, rate: speechSettings.rate },
+      {
+        onWord: setSpokenWordIndex,
+        onEnd: () => {
+          setSpokenWordIndex(null)
+          if (hasNext) setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+          else setIsSpeaking(false)
+        },
+        onError: (message) => {
+          setIsSpeaking(false)
+          setLoadError(message)
+        },
       }
+    )
+    return () => speechEngine.cancel()
+  }, [
+    speechEngine,
+    isSpeaking,
+    isRsvp,
+    isEditingAnnotation,
+    currentWords,
+    words,
+    currentChunkStart,
+    currentChunkEnd,
+    wordLayout,
+    documentLanguage,
+    speechVoiceId,
+    speechSettings.rate,
+    hasNext,
+    chunkCount,
+  ])
+
+  useEffect(() => {
+    let cancelled = false
+    void listFlashcards()
+      .then((cards) => {
+        if (!cancelled) setFlashcards(cards)
+      })
+      .catch(() => {
+        // Review is unavailable without IndexedDB; reading is unaffected
+      })
+    const timer = window.setInterval(() => setReviewNow(Date.now()), REVIEW_CLOCK_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [])
 
-      // Backspace goes back a chunk (same as back arrow)
-      if (e.code === 'Backspace' && hasPrev) {
-        if (e.repeat) return
-        if (!fullscreenMode && isTypingIntoInput()) return
+  useEffect(() => {
+    readingWordRef.current = currentChunkStart
+  }, [currentChunkStart])
+
+  // Time each chunk; moving on to the next one records it as read. Every way of
+  // turning the page (Space, tap, buttons, PiP, auto-advance) goes through chunkIndex
+  useEffect(() => {
+    const now = Date.now()
+    const visit = chunkVisitRef.current
+    const words = currentChunkEnd - currentChunkStart
+    if (visit && visit.hash === fileHash && visit.chunkIndex === chunkIndex) {
+      visit.words = words
+      return
+    }
+
+    if (visit && fileHash && filename && visit.hash === fileHash && chunkIndex === visit.chunkIndex + 1) {
+      const hiddenMs = visit.hiddenMs + (visit.hiddenSince === null ? 0 : now - visit.hiddenSince)
+      void recordChunkRead({
+        hash: fileHash,
+        filename,
+        day: getDayKey(now),
+        at: new Date(now).toISOString(),
+        chunkIndex: visit.chunkIndex,
+        words: visit.words,
+        activeMs: getActiveReadingMs(visit.words, now - visit.shownAt - hiddenMs),
+      }).catch(() => {
+        // Statistics are best-effort
+      })
+      if (chunkIndex === chunkCount - 1) void recordDocumentFinished(fileHash, filename, now).catch(() => {})
+    }
+
+    chunkVisitRef.current = fileHash
+      ? {
+          hash: fileHash,
+          chunkIndex,
+          words,
+          shownAt: now,
+          hiddenMs: 0,
+          hiddenSince: document.hidden || screen !== 'reader' ? now : null,
+        }
+      : null
+  }, [fileHash, filename, chunkIndex, chunkCount, currentChunkStart, currentChunkEnd, screen])
 
-        e.preventDefault()
-        setChunkIndex((idx) => Math.max(0, idx - 1))
+  // Time away from the reader does not count towards the chunk being read
+  useEffect(() => {
+    const update = () => {
+      const visit = chunkVisitRef.current
+      if (!visit) return
+      const away = document.hidden || screen !== 'reader'
+      const now = Date.now()
+      if (away && visit.hiddenSince === null) visit.hiddenSince = now
+      else if (!away && visit.hiddenSince !== null) {
+        visit.hiddenMs += now - visit.hiddenSince
+        visit.hiddenSince = null
       }
     }
+    update()
+    document.addEventListener('visibilitychange', update)
+    return () => document.removeEventListener('visibilitychange', update)
+  }, [screen])
+
+  // One appearance stylesheet for the page (reader and fullscreen) and the PiP window
+  useEffect(() => {
+    applyAppearanceCss(document, appearanceCss)
+    const pip = pipWindowRef.current
+    if (isPipOpen && pip && !pip.closed) applyAppearanceCss(pip.document, appearanceCss)
+  }, [appearanceCss, isPipOpen])
+
+  // Focus the popup so its status shortcuts work straight away; deferred, as PiP renders its own root after this
+  const lookupWordIndex = lookup?.wordIndex ?? null
+  useEffect(() => {
+    if (lookupWordIndex === null) return
+    const timer = window.setTimeout(() => lookupPopupRef.current?.focus({ preventScroll: true }), 0)
+    return () => window.clearTimeout(timer)
+  }, [lookupWordIndex])
+
+  // Track word selections in the reader and fullscreen (PiP listens in its own document); a collapsed selection
+  // keeps the last range so the highlight buttons (which steal the selection when clicked) can still act on it
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const el = fullscreenContentRef.current ?? chunkRef.current
+      if (!el) return
+      const range = getSelectedWordRange(el)
+      if (range) setSelectedRange(range)
+    }
+    document.addEventListener('selectionchange', onSelectionChange)
+    return () => document.removeEventListener('selectionchange', onSelectionChange)
+  }, [])
+
+  // Auto-advance: each chunk schedules the next one; any chunkIndex change restarts the timer
+  useEffect(() => {
+    if (isRsvp || autoAdvance !== 'playing' || !hasNext || isEditingAnnotation) return
+    const delay = getChunkDelayMs(currentWords, wpm, currentChunkEndsParagraph)
+    const timer = window.setTimeout(() => {
+      setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+    }, delay)
+    return () => window.clearTimeout(timer)
+  }, [isRsvp, autoAdvance, hasNext, isEditingAnnotation, currentWords, wpm, currentChunkEndsParagraph, chunkCount])
 
+  // RSVP: flash one group at a time, rolling over into the next chunk after the last group
+  useEffect(() => {
+    if (!isRsvp || !rsvpPlaying || isEditingAnnotation || currentRsvpGroup.length === 0) return
+    const isLastGroup = rsvpIndex >= rsvpGroups.length - 1
+    const delay = getRsvpDelayMs(currentRsvpGroup, rsvpWpm, isLastGroup && currentChunkEndsParagraph)
+    const timer = window.setTimeout(() => {
+      if (!isLastGroup) {
+        setRsvpIndex((i) => i + 1)
+      } else if (hasNext) {
+        setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+        setRsvpIndex(0)
+      } else {
+        setRsvpPlaying(false)
+      }
+    }, delay)
+    return () => window.clearTimeout(timer)
+  }, [
+    isRsvp,
+    rsvpPlaying,
+    isEditingAnnotation,
+    currentRsvpGroup,
+    rsvpIndex,
+    rsvpGroups.length,
+    rsvpWpm,
+    currentChunkEndsParagraph,
+    hasNext,
+    chunkCount,
+  ])
+
+  // Keys, clickers, media keys and gamepad buttons all go through the shortcut bindings; the PiP window
+  // forwards its own keys to the same handler
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const binding = getKeyBinding(e)
+      if (binding) inputHandlerRef.current(binding, e)
+    }
     window.addEventListener('keydown', onKeyDown, { passive: false })
-    return () => window.removeEventListener('keydown', onKeyDown)
-  }, [chunkCount, hasText, hasPrev, fullscreenMode])
+    const stopGamepad = watchGamepadButtons((binding) => inputHandlerRef.current(binding))
+    const mediaSession = 'mediaSession' in navigator ? navigator.mediaSession : null
+    for (const action of MEDIA_ACTIONS) {
+      try {
+        mediaSession?.setActionHandler(action, () => inputHandlerRef.current(getMediaBinding(action)))
+      } catch {
+        // Action not supported by this browser
+      }
+    }
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+      stopGamepad()
+      for (const action of MEDIA_ACTIONS) {
+        try {
+          mediaSession?.setActionHandler(action, null)
+        } catch {
+          // Action not supported by this browser
+        }
+      }
+    }
+  }, [])
+
+  // The long-lived listeners above always call the latest handler
+  useEffect(() => {
+    inputHandlerRef.current = handleInput
+  })
 
-  // PiP window sends chunk nav via postMessage
   useEffect(() => {
-    const onMessage = (e: MessageEvent) => {
-      if (e.origin !== window.location.origin) return
-      const d = e.data as { type?: string; direction?: number } | undefined
-      if (d?.type !== 'lingread:chunk' || typeof d.direction !== 'number') return
-      setChunkIndex((i) => clamp(i + d.direction!, 0, chunkCount - 1))
+    syncRef.current = (all) => void runSync(all)
+    syncedDocumentRef.current = showSyncedDocument
+  })
+
+  // Sync every stored document when sync is switched on, then pull now and then and send the queue once back online
+  useEffect(() => {
+    if (syncSettings.backend === 'off') return
+    const sync = () => syncRef.current()
+    const onOffline = () => setSyncStatus((status) => ({ ...status, state: 'offline' }))
+    syncRef.current(true)
+    const timer = window.setInterval(sync, SYNC_INTERVAL_MS)
+    window.addEventListener('online', sync)
+    window.addEventListener('offline', onOffline)
+    return () => {
+      window.clearInterval(timer)
+      window.removeEventListener('online', sync)
+      window.removeEventListener('offline', onOffline)
     }
-    window.addEventListener('message', onMessage)
-    return () => window.removeEventListener('message', onMessage)
-  }, [chunkCount])
+  }, [syncSettings])
 
-  // Sync current chunk (and progress) into PiP when open
+  // Sync the open document shortly after it is opened and whenever its position or notes settle
+  useEffect(() => {
+    if (syncSettings.backend === 'off' || !fileHash) return
+    const timer = window.setTimeout(() => syncRef.current(), SYNC_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [syncSettings, fileHash, chunkIndex, annotations])
+
+  // Re-render PiP on every render, so the chunk, notes and settings there stay live
   useEffect(() => {
     if (!isPipOpen) return
     const pip = pipWindowRef.current
-    const root = pipRootRef.current
-    if (!pip || pip.closed || !root) return
-    const handlePipKeyDown = (e: React.KeyboardEvent) => {
-      if (e.code === 'Space') {
-        e.preventDefault()
-        if (hasNext) setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
-      } else if (e.code === 'Backspace') {
-        e.preventDefault()
-        if (hasPrev) setChunkIndex((i) => Math.max(0, i - 1))
-      } else if (e.code === 'Escape') {
-        e.preventDefault()
-        pipWindowRef.current?.close()
-      }
-    }
-    root.render(
-      <>
-        <div
-          className="pipContent"
-          role="button"
-          tabIndex={0}
-          style={{ cursor: hasNext ? 'pointer' : 'default' }}
-          onClick={() => hasNext && setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))}
-          onKeyDown={handlePipKeyDown}
-        >
-          <BionicChunk words={currentWords} />
-        </div>
-        <div className="pipProgress">
-          {chunkIndex + 1} / {chunkCount}
-        </div>
-      </>
-    )
-  }, [isPipOpen, currentWords, chunkIndex, chunkCount, hasNext, hasPrev])
+    if (!pip || pip.closed) return
+    pipRootRef.current?.render(renderPipView())
+  })
 
   async function openPip() {
     const pip = pipWindowRef.current
@@ -203,167 +949,1240 @@ function App() {
     const api = window.documentPictureInPicture
     if (!api) return
     try {
-      const pipWindow = await api.requestWindow({ width: 420, height: 280 })
+      const pipWindow = await api.requestWindow(loadPipSize())
       pipWindowRef.current = pipWindow
       setIsPipOpen(true)
 
       pipWindow.document.title = 'Lingread – Speed reading'
+      copyPageStyles(pipWindow.document)
       const style = pipWindow.document.createElement('style')
       style.textContent = PIP_DOCUMENT_STYLES
       pipWindow.document.head.appendChild(style)
+      applyAppearanceCss(pipWindow.document, appearanceCss)
       const container = pipWindow.document.createElement('div')
       container.id = 'pip-root'
       pipWindow.document.body.appendChild(container)
 
       const root = createRoot(container)
       pipRootRef.current = root
-      root.render(
-        <>
-          <div
-            className="pipContent"
-            role="button"
-            tabIndex={0}
-            style={{ cursor: hasNext ? 'pointer' : 'default' }}
-            onClick={() => hasNext && setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))}
-            onKeyDown={(e) => {
-              if (e.code === 'Space') {
-                e.preventDefault()
-                if (hasNext) setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
-              } else if (e.code === 'Backspace') {
-                e.preventDefault()
-                if (hasPrev) setChunkIndex((i) => Math.max(0, i - 1))
-              } else if (e.code === 'Escape') {
-                e.preventDefault()
-                pipWindowRef.current?.close()
-              }
-            }}
-          >
-            <BionicChunk words={currentWords} />
-          </div>
-          <div className="pipProgress">
-            {chunkIndex + 1} / {chunkCount}
-          </div>
-        </>
-      )
+      root.render(renderPipView())
+
+      // Focus the content div so Space/Backspace work immediately without clicking first
+      setTimeout(() => (pipWindow.document.querySelector('.pipContent') as HTMLElement | null)?.focus(), 0)
+
+      pipWindow.document.addEventListener('keydown', (e: KeyboardEvent) => {
+        const binding = getKeyBinding(e)
+        if (binding) inputHandlerRef.current(binding, e)
+      })
+
+      pipWindow.document.addEventListener('selectionchange', () => {
+        const range = pipContentRef.current && getSelectedWordRange(pipContentRef.current)
+        if (range) setSelectedRange(range)
+      })
+
+      pipWindow.addEventListener('resize', () => {
+        localStorage.setItem(
+          PIP_SIZE_STORAGE_KEY,
+          JSON.stringify({ width: pipWindow.innerWidth, height: pipWindow.innerHeight })
+        )
+      })
+
+      pipWindow.addEventListener('pagehide', () => {
+        root.unmount()
+        pipWindowRef.current = null
+        pipRootRef.current = null
+        setIsPipOpen(false)
+        setLookup((current) => (current?.inPip ? null : current))
+      })
+    } catch {
+      // Not supported, no user gesture, or user denied
+    }
+  }
+
+  // Persist position, chunk size and chunking strategy to localStorage keyed by file content hash
+  useEffect(() => {
+    if (!fileHash || !hasText) return
+    // The first write for a document echoes the state it was just opened with, so it is not a move to sync
+    const isRestore = persistedHashRef.current !== fileHash
+    persistedHashRef.current = fileHash
+    const stored = readDocumentState(fileHash)
+    const moved = !isRestore && stored?.wordOffset !== currentChunkStart
+    const next = {
+      chunkIndex,
+      // Chunk-size independent position, which sync compares across devices
+      wordOffset: currentChunkStart,
+      // When the position last changed; sync breaks ties between devices with it
+      updatedAt: moved ? new Date().toISOString() : stored?.updatedAt,
+      wordsPerChunk,
+      chunkingStrategy,
+      wpm,
+      presentationMode,
+      rsvpWpm,
+      rsvpGroupSize,
+      language: languageSetting,
+      emphasis: emphasisScope === 'document' ? emphasisSettings : undefined,
+    }
+    if (JSON.stringify(next) === JSON.stringify(stored)) return
+    writeDocumentState(fileHash, next)
+    if (moved && syncSettings.backend !== 'off') queueDocumentSync(fileHash)
+  }, [
+    fileHash,
+    hasText,
+    syncSettings.backend,
+    chunkIndex,
+    currentChunkStart,
+    wordsPerChunk,
+    chunkingStrategy,
+    wpm,
+    presentationMode,
+    rsvpWpm,
+    rsvpGroupSize,
+    languageSetting,
+    emphasisScope,
+    emphasisSettings,
+  ])
+
+  // Syllable emphasis needs hyphenation patterns, fetched per language the first time they are used
+  useEffect(() => {
+    if (!emphasisSettings.syllables || !hasText) return
+    let cancelled = false
+    void loadHyphenator(documentLanguage).then((hyphenate) => {
+      if (!cancelled && hyphenate) setHyphenator({ language: documentLanguage, hyphenate })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [emphasisSettings.syllables, hasText, documentLanguage])
+
+  // Keep the library's progress figure in step with the reading position
+  useEffect(() => {
+    if (!fileHash || !hasText) return
+    void updateLibraryEntry(fileHash, { progress: documentProgress }).catch(() => {
+      // Library is best-effort; position is already saved in localStorage
+    })
+  }, [fileHash, hasText, documentProgress])
+
+  // Load the library whenever the empty state is showing
+  useEffect(() => {
+    if (hasText) return
+    let cancelled = false
+    void Promise.all([listLibraryEntries(), getStorageUsage()])
+      .then(([entries, usage]) => {
+        if (cancelled) return
+        setLibraryEntries(entries.map((entry) => ({ ...entry, noteCount: countStoredAnnotations(entry.hash) })))
+        setStorageUsage(usage)
+      })
+      .catch(() => {
+        // IndexedDB unavailable (e.g. private mode); the upload flow still works
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [hasText])
+
+  async function onPickFile(file: File, cleanup = pdfCleanup) {
+    setLoadError(null)
+    extractionRef.current?.abort()
+    const controller = new AbortController()
+    extractionRef.current = controller
+    setExtraction({ filename: file.name, progress: null })
+    let isStreaming = false
+
+    try {
+      const extracted = await extractDocument(file, {
+        signal: controller.signal,
+        ocrLanguage,
+        pdfCleanup: cleanup,
+        onProgress: (progress) => setExtraction({ filename: file.name, progress }),
+        onPartial: (partial) => {
+          showPartialDocument(file.name, partial, !isStreaming)
+          isStreaming = true
+        },
+      })
+      const { text } = extracted
+      if (text.trim() === '') {
+        throw new Error('This file does not contain readable text.')
+      }
+
+      const hash = await sha256Hex(text)
+      controller.signal.throwIfAborted()
+      // Keep the reader where they got to while the rest streamed in; otherwise resume from the saved position
+      const streamedWord = isStreaming && readingWordRef.current > 0 ? readingWordRef.current : undefined
+      const wordCount = openDocument(file.name, hash, extracted, streamedWord)
+      if (/\.pdf$/i.test(file.name)) setPdfSource({ file, cleanup })
+      const content = { hash, text, sections: extracted.sections, ocrPages: extracted.ocrPages }
+      void saveLibraryDocument(file.name, content, wordCount).catch(() => {
+        // Reading works without the library; the file just won't be offered for resume
+      })
+    } catch (error) {
+      if (isAbortError(error)) return
+      if (isStreaming) clearDocument()
+      const message = error instanceof Error ? error.message : 'Could not read this file.'
+      setLoadError(message)
+    } finally {
+      if (extractionRef.current === controller) {
+        extractionRef.current = null
+        setExtraction(null)
+      }
+    }
+  }
+
+  /** Shows the part of a document extracted so far; its saved state is restored once it is complete and hashed. */
+  function showPartialDocument(name: string, partial: ExtractedDocument, isFirst: boolean) {
+    if (isFirst) {
+      clearDocument()
+      setFilename(name)
+      setChunkIndex(0)
+    }
+    setDocumentText(partial.text)
+    setDocumentSections(partial.sections)
+    setDocumentOcrPages(partial.ocrPages ?? [])
+  }
+
+  function cancelExtraction() {
+    extractionRef.current?.abort()
+    extractionRef.current = null
+    setExtraction(null)
+  }
+
+  async function resumeFromLibrary(entry: LibraryEntry) {
+    setLoadError(null)
+
+    try {
+      const content = await loadLibraryContent(entry.hash)
+      if (!content) {
+        throw new Error('This document is no longer in the library.')
+      }
+      openDocument(entry.filename, content.hash, content)
+      void updateLibraryEntry(entry.hash, { lastOpenedAt: new Date().toISOString() }).catch(() => {})
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not open this document.'
+      setLoadError(message)
+    }
+  }
+
+  async function removeFromLibrary(entry: LibraryEntry) {
+    if (!window.confirm(`Remove “${entry.filename}” from the library? Notes and reading position are kept.`)) return
+    try {
+      await deleteLibraryDocument(entry.hash)
+      setLibraryEntries((entries) => entries.filter((e) => e.hash !== entry.hash))
+      setStorageUsage(await getStorageUsage())
+    } catch {
+      setLoadError('Could not remove this document from the library.')
+    }
+  }
+
+  function closeDocument() {
+    cancelExtraction()
+    clearDocument()
+  }
+
+  function clearDocument() {
+    pipWindowRef.current?.close()
+    setFullscreenMode(false)
+    setDocumentText('')
+    setDocumentSections([])
+    setDocumentOcrPages([])
+    setPdfSource(null)
+    setPdfCleanupPreview([])
+    setIsPdfCleanupOpen(false)
+    setLanguageSetting(AUTO_LANGUAGE)
+    setEmphasisSettings(getGlobalEmphasis())
+    setEmphasisScope('global')
+    setIsEmphasisOpen(false)
+    setFilename(null)
+    setFileHash(null)
+    setAnnotations([])
+    closeAnnotationForm()
+    setSelectedRange(null)
+    setAutoAdvance('off')
+    setRsvpPlaying(false)
+    setIsSpeaking(false)
+    setPendingImport(null)
+    setIsTocOpen(false)
+    closeSearch()
+    setLoadError(null)
+  }
+
+  /**
+   * Puts a document on screen and restores its saved per-file state; `targetWord` opens it at that word instead of
+   * the saved position. Returns its word count.
+   */
+  function openDocument(name: string, hash: string, extracted: ExtractedDocument, targetWord?: number): number {
+    cancelExtraction()
+    const { text, sections: nextSections, ocrPages: nextOcrPages = [] } = extracted
+    const saved = readDocumentState(hash) as {
+      chunkIndex?: number
+      wordOffset?: number
+      wordsPerChunk?: number
+      chunkingStrategy?: string
+      wpm?: number
+      presentationMode?: string
+      rsvpWpm?: number
+      rsvpGroupSize?: number
+      language?: string
+      emphasis?: unknown
+    } | null
+
+    const nextLanguageSetting = isLanguageSetting(saved?.language) ? saved.language : AUTO_LANGUAGE
+    const language = resolveDocumentLanguage(nextLanguageSetting, text)
+    const layout = layoutWords(text, language)
+    const nextParagraphEnds = findParagraphEnds(text, language)
+    // Files saved before segmentation existed were split on whitespace only
+    const legacyLayout = saved && saved.language === undefined && usesWordSegmentation(language) ? layoutWords(text) : null
+
+    setDocumentText(text)
+    setDocumentSections(nextSections)
+    setDocumentOcrPages(nextOcrPages)
+    setPdfSource(null)
+    setPdfCleanupPreview(extracted.pdfCleanupPreview ?? [])
+    setIsPdfCleanupOpen(false)
+    setLanguageSetting(nextLanguageSetting)
+    const documentEmphasis = parseEmphasisSettings(saved?.emphasis)
+    setEmphasisSettings(documentEmphasis ?? getGlobalEmphasis())
+    setEmphasisScope(documentEmphasis ? 'document' : 'global')
+    setIsTocOpen(false)
+    closeSearch()
+    setFilename(name)
+    setFileHash(hash)
+    persistedHashRef.current = null
+    setIsEditingAnnotation(false)
+    setEditingAnnotationId(null)
+    setAnnotationDraft('')
+    setAutoAdvance('off')
+    setRsvpPlaying(false)
+    setIsSpeaking(false)
+    setPendingImport(null)
+
+    const wpc = (() => {
+      const n = Number(saved?.wordsPerChunk)
+      if (!Number.isFinite(n)) return DEFAULT_WORDS_PER_CHUNK
+      return clamp(Math.trunc(n), 5, 200)
+    })()
+    // Legacy notes were stored by chunk index; the saved chunk size maps them back to words
+    let storedAnnotations = getStoredAnnotations(hash, wpc)
+    if (legacyLayout && storedAnnotations.length > 0) {
+      storedAnnotations = remapAnnotations(storedAnnotations, legacyLayout, layout)
+      saveAnnotations(hash, storedAnnotations)
+    }
+    setAnnotations(storedAnnotations)
+
+    if (saved) {
+      const strategy = isChunkingStrategy(saved.chunkingStrategy)
+        ? saved.chunkingStrategy
+        : DEFAULT_CHUNKING_STRATEGY
+      const nextChunkStarts = buildChunkStarts(layout.words, nextParagraphEnds, wpc, strategy)
+      let idx = clamp(Math.trunc(Number(saved.chunkIndex)) || 0, 0, nextChunkStarts.length - 1)
+      if (legacyLayout) {
+        const legacyStarts = buildChunkStarts(legacyLayout.words, findParagraphEnds(text), wpc, strategy)
+        const legacyWord = legacyStarts[Math.min(idx, legacyStarts.length - 1)] ?? 0
+        idx = findChunkIndexForWord(nextChunkStarts, remapWordOffset(legacyWord, legacyLayout, layout))
+      } else if (typeof saved.wordOffset === 'number') {
+        // Set by sync when another device read further, possibly with another chunk size
+        idx = findChunkIndexForWord(nextChunkStarts, saved.wordOffset)
+      }
+      setWordsPerChunkInput(String(wpc))
+      setChunkingStrategy(strategy)
+      if (Number.isFinite(Number(saved.wpm))) {
+        setWpmInput(String(clamp(Math.trunc(Number(saved.wpm)), MIN_WPM, MAX_WPM)))
+      }
+      if (isPresentationMode(saved.presentationMode)) setPresentationMode(saved.presentationMode)
+      if (Number.isFinite(Number(saved.rsvpWpm))) {
+        setRsvpWpmInput(String(clamp(Math.trunc(Number(saved.rsvpWpm)), MIN_WPM, MAX_WPM)))
+      }
+      if (RSVP_GROUP_SIZES.some((n) => n === saved.rsvpGroupSize)) setRsvpGroupSize(Number(saved.rsvpGroupSize))
+      setChunkIndex(idx)
+    } else {
+      setChunkIndex(0)
+    }
+    syncJumpRef.current = targetWord === undefined ? hash : null
+    if (targetWord !== undefined) {
+      const strategy =
+        saved && isChunkingStrategy(saved.chunkingStrategy) ? saved.chunkingStrategy : DEFAULT_CHUNKING_STRATEGY
+      setChunkIndex(findChunkIndexForWord(buildChunkStarts(layout.words, nextParagraphEnds, wpc, strategy), targetWord))
+    }
+    return layout.words.length
+  }
+
+  /** Opens the dictionary popup for a tapped word. Returns false when `target` is not a lookup-able word. */
+  function lookUpWordAt(target: EventTarget | null): boolean {
+    if ((dictionaries.length === 0 && !vocabularyTracking) || isRsvp || !isElement(target)) return false
+    const el = target.closest<HTMLElement>('[data-word-index]')
+    const wordIndex = Number(el?.dataset.wordIndex)
+    if (!el || !Number.isInteger(wordIndex) || words[wordIndex] === undefined) return false
+
+    const rect = el.getBoundingClientRect()
+    const token = words[wordIndex]
+    const x = rect.left + rect.width / 2
+    const inPip = el.ownerDocument !== document
+    if (dictionaries.length === 0) {
+      setLookup({ wordIndex, token, x, y: rect.bottom, result: { form: token, matches: [] }, inPip })
+      return true
+    }
+    setLookup({ wordIndex, token, x, y: rect.bottom, result: null, inPip })
+    void lookupWord(token, documentLanguage)
+      .then((result) => {
+        setLookup((current) =>
+          current?.wordIndex === wordIndex ? { ...current, result: result ?? { form: token, matches: [] } } : current
+        )
+      })
+      .catch(() => {
+        setLookup((current) =>
+          current?.wordIndex === wordIndex
+            ? { ...current, result: { form: token, matches: [] }, error: 'Dictionary lookup failed.' }
+            : current
+        )
+      })
+    return true
+  }
+
+  /** Click handling for every reader surface: a finished long-press or a word tap must not turn the page. */
+  function consumeWordTap(target: EventTarget | null): boolean {
+    if (longPressRef.current?.fired) {
+      longPressRef.current = null
+      return true
+    }
+    return lookUpWordAt(target)
+  }
+
+  function startLongPress(e: React.PointerEvent) {
+    cancelLongPress()
+    if ((dictionaries.length === 0 && !vocabularyTracking) || isRsvp) return
+    const target = e.target
+    const press = { timer: 0, x: e.clientX, y: e.clientY, fired: false }
+    press.timer = window.setTimeout(() => {
+      press.fired = lookUpWordAt(target)
+    }, LONG_PRESS_MS)
+    longPressRef.current = press
+  }
+
+  function moveLongPress(e: React.PointerEvent) {
+    const press = longPressRef.current
+    if (press && !press.fired && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_SLOP_PX) {
+      cancelLongPress()
+    }
+  }
+
+  function cancelLongPress() {
+    const press = longPressRef.current
+    if (press && !press.fired) {
+      window.clearTimeout(press.timer)
+      longPressRef.current = null
+    }
+  }
+
+  function updateWordStatus(forms: string[], status: WordStatus, level?: LearningLevel) {
+    void setWordStatus(documentLanguage, forms, status, level)
+      .then((changes) => setVocabulary((current) => applyVocabularyChanges(current, changes)))
+      .catch(() => {
+        setLoadError('Could not save the word status.')
+      })
+  }
+
+  /** Cards word `wordIndex` with its sentence, unless that word form already has a card. */
+  function saveWordForReview(wordIndex: number) {
+    const form = getWordForm(words[wordIndex] ?? '')
+    if (form === null || !fileHash || !filename) return
+    const id = getFlashcardId(documentLanguage, form)
+    if (flashcards.some((card) => card.id === id)) return
+
+    const card = createFlashcard(
+      documentLanguage,
+      form,
+      getSentenceContext(words, paragraphEnds, wordIndex, wordLayout.joined),
+      { hash: fileHash, filename, wordIndex, chunkIndex: findChunkIndexForWord(chunkStarts, wordIndex) }
+    )
+    void saveFlashcard(card)
+      .then(() => setFlashcards((cards) => [...cards.filter((c) => c.id !== id), card]))
+      .catch(() => {
+        setLoadError('Could not save the word for review.')
+      })
+  }
+
+  function gradeCard(card: Flashcard, grade: ReviewGrade) {
+    const now = Date.now()
+    const next = gradeFlashcard(card, grade, now)
+    setFlashcards((cards) => cards.map((c) => (c.id === card.id ? next : c)))
+    setReviewNow(now)
+    void saveFlashcard(next).catch(() => {
+      setLoadError('Could not save the review.')
+    })
+  }
+
+  async function removeFlashcard(card: Flashcard) {
+    if (!window.confirm(`Delete the card for “${card.context.word}”?`)) return
+    try {
+      await deleteFlashcard(card.id)
+      setFlashcards((cards) => cards.filter((c) => c.id !== card.id))
+    } catch {
+      setLoadError('Could not delete this card.')
+    }
+  }
+
+  /** Reopens the passage a card came from, loading its document from the library if needed. */
+  async function openFlashcardSource(card: Flashcard) {
+    setScreen('reader')
+    setLoadError(null)
+    const { hash, wordIndex } = card.source
+    if (hash === fileHash) {
+      setAutoAdvance('off')
+      setChunkIndex(findChunkIndexForWord(chunkStarts, wordIndex))
+      return
+    }
+    try {
+      const [entry, content] = await Promise.all([getLibraryEntry(hash), loadLibraryContent(hash)])
+      if (!content) {
+        throw new Error(`“${card.source.filename}” is no longer in the library.`)
+      }
+      openDocument(entry?.filename ?? card.source.filename, hash, content, wordIndex)
+      void updateLibraryEntry(hash, { lastOpenedAt: new Date().toISOString() }).catch(() => {})
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not open this document.'
+      setLoadError(message)
+    }
+  }
+
+  /** Switches the main area, stopping anything that would keep the reader moving behind it. */
+  function openScreen(next: Screen) {
+    if (next !== 'reader') {
+      setAutoAdvance('off')
+      setRsvpPlaying(false)
+      setIsSpeaking(false)
+      setLookup(null)
+    }
+    if (next === 'review') setReviewNow(Date.now())
+    if (next === 'stats') {
+      setReadingStats(null)
+      void loadReadingHistory()
+        .then((history) => setReadingStats(summarizeReading(history)))
+        .catch(() => {
+          setLoadError('Could not load reading statistics.')
+          setScreen('reader')
+        })
+    }
+    setScreen(next)
+  }
+
+  function updateAppearance(next: AppearanceSettings) {
+    setAppearance(next)
+    saveAppearance(next)
+  }
+
+  function updateShortcuts(next: ShortcutBindings) {
+    setShortcuts(next)
+    saveShortcuts(next)
+  }
+
+  function updatePdfCleanup(next: boolean) {
+    setPdfCleanup(next)
+    localStorage.setItem(PDF_CLEANUP_KEY, next ? '1' : '0')
+  }
+
+  function updateOcrLanguage(next: string) {
+    setOcrLanguage(next)
+    saveOcrLanguage(next)
+  }
+
+  function updateSyncSettings(next: SyncSettings) {
+    setSyncSettings(next)
+    saveSyncSettings(next)
+    setSyncStatus((status) => ({ ...status, state: next.backend === 'off' ? 'off' : 'idle', message: null }))
+  }
+
+  /**
+   * Sends queued changes and pulls the open document's record (every stored
+   * document when `all`). Without a connection the queue waits for the next run.
+   */
+  async function runSync(all = false) {
+    const adapter = createSyncAdapter(syncSettings)
+    if (!adapter || isSyncingRef.current) return
+    if (!navigator.onLine) {
+      setSyncStatus((status) => ({ ...status, state: 'offline', queued: countQueuedDocuments() }))
+      return
+    }
+    isSyncingRef.current = true
+    setSyncStatus((status) => ({ ...status, state: 'syncing', message: null }))
+    try {
+      await syncDocuments(adapter, all ? listStoredDocuments() : fileHash ? [fileHash] : [], applySyncedDocument)
+      setSyncStatus({
+        state: 'idle',
+        lastSyncedAt: new Date().toISOString(),
+        message: null,
+        queued: countQueuedDocuments(),
+      })
+    } catch (error) {
+      setSyncStatus((status) => ({
+        ...status,
+        state: navigator.onLine ? 'error' : 'offline',
+        message: error instanceof Error ? error.message : 'Sync failed.',
+        queued: countQueuedDocuments(),
+      }))
+    } finally {
+      isSyncingRef.current = false
+    }
+  }
+
+  // Called during a sync that may outlast this render, so it goes through the latest state
+  function applySyncedDocument(synced: SyncedDocument) {
+    syncedDocumentRef.current(synced)
+  }
+
+  // Later syncs keep the furthest position for the next opening but leave the reader where it is
+  function showSyncedDocument(synced: SyncedDocument) {
+    if (synced.hash !== fileHash) return
+    if (synced.annotations) setAnnotations(synced.annotations)
+    if (syncJumpRef.current !== synced.hash) return
+    syncJumpRef.current = null
+    if (synced.wordOffset !== null && synced.wordOffset > currentChunkStart) {
+      setChunkIndex(findChunkIndexForWord(chunkStarts, synced.wordOffset))
+    }
+  }
+
+  /** Carries out a bound action; false when it does not apply right now, so the key keeps its default. */
+  function runInputAction(action: InputAction): boolean {
+    switch (action) {
+      case 'advance':
+        if (isRsvp) setRsvpPlaying((p) => !p)
+        else if (autoAdvance !== 'off') setAutoAdvance(toggleAutoAdvance)
+        else if (chunkCount > 1) setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+        else return false
+        return true
+      case 'next':
+        if (!hasNext) return false
+        setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+        return true
+      case 'prev':
+        if (!hasPrev) return false
+        setChunkIndex((i) => Math.max(0, i - 1))
+        return true
+      case 'playPause':
+        if (isRsvp) setRsvpPlaying((p) => !p)
+        else {
+          setIsSpeaking(false)
+          setAutoAdvance((a) => (a === 'off' ? 'playing' : toggleAutoAdvance(a)))
+        }
+        return true
+      case 'exit': {
+        const pip = pipWindowRef.current
+        if (pip && !pip.closed) pip.close()
+        else if (fullscreenMode) setFullscreenMode(false)
+        else return false
+        return true
+      }
+      case 'markKnownAndAdvance': {
+        if (!vocabularyTracking || isRsvp) return false
+        const forms = documentForms
+          .slice(currentChunkStart, currentChunkEnd)
+          .filter((form): form is string => getWordStatus(vocabulary, form) === 'new')
+        if (forms.length > 0) updateWordStatus(forms, 'known')
+        setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+        return true
+      }
+      case 'search':
+        setIsSearchOpen(true)
+        searchInputRef.current?.focus()
+        searchInputRef.current?.select()
+        return true
+      case 'nextMatch':
+      case 'prevMatch':
+        if (!isSearchOpen || searchMatches.length === 0) return false
+        goToMatch(activeMatchIndex + (action === 'nextMatch' ? 1 : -1))
+        return true
+    }
+  }
+
+  /** Every key press, clicker, media key and gamepad button in every view ends up here. */
+  function handleInput(binding: InputBinding, e?: KeyboardEvent) {
+    if (screen !== 'reader' || !hasText) return
+    const action = getBoundAction(shortcuts, binding)
+    if (!action) return
+    if (e) {
+      if (e.repeat) return
+      const doc = e.view?.document ?? document
+      // Fields keep the keys that type (and Escape); fullscreen ignores focus left in the hidden controls, but not the
+      // note form or its own settings
+      if (
+        binding !== 'Escape' &&
+        typesIntoField(binding) &&
+        isTypingIntoInput(doc) &&
+        (doc !== document ||
+          !fullscreenMode ||
+          isEditingAnnotation ||
+          !!doc.activeElement?.closest('.fullscreenOverlay'))
+      ) {
+        return
+      }
+    }
+    if (runInputAction(action)) e?.preventDefault()
+  }
+
+  /** Tooltip text with the first key bound to `action`, if any. */
+  function withShortcut(text: string, action: InputAction) {
+    const label = getShortcutLabel(shortcuts, action)
+    return label ? `${text} (${label})` : text
+  }
+
+  /** ` · <kbd>Space</kbd> next` for the status-bar hint; nothing if no key is bound to `action`. */
+  function renderKeyHint(action: InputAction, text: string) {
+    const label = getShortcutLabel(shortcuts, action)
+    return label ? (
+      <>
+        {' '}
+        · <kbd>{label}</kbd> {text}
+      </>
+    ) : null
+  }
+
+  function toggleSpeaking() {
+    if (!isSpeaking) {
+      setAutoAdvance('off')
+      setSpokenWordIndex(null)
+    }
+    setIsSpeaking(!isSpeaking)
+  }
+
+  function updateSpeechSettings(next: SpeechSettings) {
+    setSpeechSettings(next)
+    localStorage.setItem(SPEECH_STORAGE_KEY, JSON.stringify(next))
+  }
+
+  function toggleVocabularyTracking() {
+    const next = !vocabularyTracking
+    setVocabularyTracking(next)
+    localStorage.setItem(VOCABULARY_TRACKING_KEY, next ? '1' : '0')
+  }
+
+  const lookupForm = lookup ? getWordForm(lookup.token) : null
+  const lookupEntry = lookupForm === null ? undefined : vocabulary.get(lookupForm)
+  const lookupStatus = getWordStatus(vocabulary, lookupForm)
+  const lookupLevel = lookupEntry?.level
+
+  const lookupSaved = lookupForm !== null && flashcards.some((card) => card.id === getFlashcardId(documentLanguage, lookupForm))
+
+  /** Words marked as learning go into review along with their sentence. */
+  function markLookupLearning(level: LearningLevel) {
+    if (!lookup || lookupForm === null) return
+    updateWordStatus([lookupForm], 'learning', level)
+    saveWordForReview(lookup.wordIndex)
+  }
 
-      // Focus the content div so Space/Backspace work immediately without clicking first
-      setTimeout(() => (pipWindow.document.querySelector('.pipContent') as HTMLElement | null)?.focus(), 0)
+  /** 1–4 set a learning level, K known, X ignored, N back to new. */
+  function onLookupKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    if (!vocabularyTracking || lookupForm === null || e.altKey || e.ctrlKey || e.metaKey) return
+    const level = LEARNING_LEVELS.find((l) => e.key === String(l))
+    const key = e.key.toLowerCase()
+    if (level !== undefined) markLookupLearning(level)
+    else if (key === 'k') updateWordStatus([lookupForm], 'known')
+    else if (key === 'x') updateWordStatus([lookupForm], 'ignored')
+    else if (key === 'n') updateWordStatus([lookupForm], 'new')
+    else return
+    e.preventDefault()
+    e.stopPropagation()
+  }
 
-      // Fallback: document-level keydown in case focus is elsewhere in the PiP window
-      const origin = window.location.origin
-      pipWindow.document.addEventListener('keydown', (e: KeyboardEvent) => {
-        if (e.code === 'Space') {
-          e.preventDefault()
-          window.opener?.postMessage({ type: 'lingread:chunk', direction: 1 }, origin)
-        } else if (e.code === 'Backspace') {
-          e.preventDefault()
-          window.opener?.postMessage({ type: 'lingread:chunk', direction: -1 }, origin)
-        } else if (e.code === 'Escape') {
-          e.preventDefault()
-          pipWindow.close()
-        }
-      })
+  async function onPickDictionaryFiles(files: File[]) {
+    setDictionaryStatus('Importing…')
+    try {
+      const info = await importDictionary(files)
+      setDictionaries(await listDictionaries())
+      setDictionaryStatus(`Added “${info.title}” (${info.entryCount.toLocaleString()} entries).`)
+    } catch (error) {
+      setDictionaryStatus(error instanceof Error ? error.message : 'Could not import this dictionary.')
+    }
+  }
 
-      pipWindow.addEventListener('pagehide', () => {
-        root.unmount()
-        pipWindowRef.current = null
-        pipRootRef.current = null
-        setIsPipOpen(false)
-      })
+  async function removeDictionary(info: DictionaryInfo) {
+    if (!window.confirm(`Remove the dictionary “${info.title}”?`)) return
+    try {
+      await deleteDictionary(info.id)
+      setDictionaries((list) => list.filter((d) => d.id !== info.id))
+      setDictionaryStatus(null)
     } catch {
-      // Not supported, no user gesture, or user denied
+      setDictionaryStatus('Could not remove this dictionary.')
     }
   }
 
-  // Persist position and chunk size to localStorage keyed by file content hash
-  useEffect(() => {
-    if (!fileHash || !hasText) return
-    const key = `${STORAGE_KEY_PREFIX}${fileHash}`
-    const value = JSON.stringify({ chunkIndex, wordsPerChunk })
-    localStorage.setItem(key, value)
-  }, [fileHash, hasText, chunkIndex, wordsPerChunk])
-
-  async function onPickFile(file: File) {
-    setLoadError(null)
+  function updateEmphasis(next: EmphasisSettings, scope: EmphasisScope = emphasisScope) {
+    setEmphasisSettings(next)
+    setEmphasisScope(scope)
+    // Document-scoped settings ride along with the per-file state instead
+    if (scope === 'global') localStorage.setItem(EMPHASIS_STORAGE_KEY, JSON.stringify(next))
+  }
 
-    try {
-      const text = await extractTextFromDocument(file)
-      if (text.trim() === '') {
-        throw new Error('This file does not contain readable text.')
-      }
+  /** Switches the document language, carrying notes and the reading position over to the new word split. */
+  function changeLanguage(setting: LanguageSetting) {
+    const nextLanguage = resolveDocumentLanguage(setting, documentText)
+    const nextLayout: WordLayout = layoutWords(documentText, nextLanguage)
+    const nextChunkStarts = buildChunkStarts(
+      nextLayout.words,
+      findParagraphEnds(documentText, nextLanguage),
+      wordsPerChunk,
+      chunkingStrategy
+    )
+    const word = remapWordOffset(currentChunkStart, wordLayout, nextLayout)
 
-      const hash = await sha256Hex(text)
-      const nextWords = splitIntoWords(text)
-      setWords(nextWords)
-      setFilename(file.name)
-      setFileHash(hash)
-      setAnnotations(getStoredAnnotations(hash))
-      setIsEditingAnnotation(false)
-      setAnnotationDraft('')
-
-      const raw = localStorage.getItem(`${STORAGE_KEY_PREFIX}${hash}`)
-      if (raw) {
-        try {
-          const o = JSON.parse(raw) as { chunkIndex?: number; wordsPerChunk?: number }
-          const wpc = (() => {
-            const n = Number(o.wordsPerChunk)
-            if (!Number.isFinite(n)) return DEFAULT_WORDS_PER_CHUNK
-            return clamp(Math.trunc(n), 5, 200)
-          })()
-          const chunkCount = Math.max(1, Math.ceil(nextWords.length / wpc))
-          const idx = clamp(Math.trunc(Number(o.chunkIndex)) || 0, 0, chunkCount - 1)
-          setWordsPerChunkInput(String(wpc))
-          setChunkIndex(idx)
-        } catch {
-          setChunkIndex(0)
-        }
-      } else {
-        setChunkIndex(0)
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Could not read this file.'
-      setLoadError(message)
+    if (fileHash && annotations.length > 0) {
+      const updatedAt = new Date().toISOString()
+      commitAnnotations(remapAnnotations(annotations, wordLayout, nextLayout).map((a) => ({ ...a, updatedAt })))
     }
+    setLanguageSetting(setting)
+    setChunkIndex(findChunkIndexForWord(nextChunkStarts, word))
+    setSelectedRange(null)
+    closeSearch()
   }
 
-  function addOrUpdateAnnotation(text: string) {
-    if (!fileHash || text.trim() === '') return
-    const next: Annotation[] = annotations
-      .filter((a) => a.chunkIndex !== chunkIndex)
-      .concat({ chunkIndex, text: text.trim(), createdAt: new Date().toISOString() })
-    setAnnotations(next)
-    saveAnnotations(fileHash, next)
-    setAnnotationDraft('')
-    setIsEditingAnnotation(false)
+  function goToMatch(index: number) {
+    if (searchMatches.length === 0) return
+    const wrapped = (index + searchMatches.length) % searchMatches.length
+    setActiveMatchIndex(wrapped)
+    setChunkIndex(findChunkIndexForWord(chunkStarts, searchMatches[wrapped].start))
+  }
+
+  function closeSearch() {
+    setIsSearchOpen(false)
+    setActiveMatchIndex(-1)
   }
 
-  function deleteCurrentAnnotation() {
+  function jumpToSection(section: DocumentSection) {
+    setChunkIndex(findChunkIndexForWord(chunkStarts, section.wordOffset))
+    setIsTocOpen(false)
+  }
+
+  /** Shows and stores the open document's annotations, queueing the change (and any deletions) for sync. */
+  function commitAnnotations(next: Annotation[]) {
     if (!fileHash) return
-    const next = annotations.filter((a) => a.chunkIndex !== chunkIndex)
     setAnnotations(next)
     saveAnnotations(fileHash, next)
+    const ids = new Set(next.map((a) => a.id))
+    // Queued even with sync off, so switching it on later cannot bring deleted notes back from the server
+    queueDocumentSync(fileHash, annotations.filter((a) => !ids.has(a.id)).map((a) => a.id))
+  }
+
+  function addOrUpdateAnnotation(text: string) {
+    const trimmed = text.trim()
+    if (!fileHash || (trimmed === '' && draftColor === null)) return
+    const range = pendingRange ?? { start: currentChunkStart, end: currentChunkEnd }
+    const next: Annotation[] = editingAnnotationId
+      ? annotations.map((a) =>
+          a.id === editingAnnotationId
+            ? { ...a, text: trimmed, color: draftColor, updatedAt: new Date().toISOString() }
+            : a
+        )
+      : annotations.concat({
+          id: createAnnotationId(),
+          wordStart: range.start,
+          wordEnd: range.end,
+          text: trimmed,
+          color: draftColor,
+          createdAt: new Date().toISOString(),
+        })
+    commitAnnotations(next)
+    closeAnnotationForm()
+  }
+
+  function addHighlight(range: WordRange, color: HighlightColor) {
+    if (!fileHash) return
+    const next = annotations.concat({
+      id: createAnnotationId(),
+      wordStart: range.start,
+      wordEnd: range.end,
+      text: '',
+      color,
+      createdAt: new Date().toISOString(),
+    })
+    commitAnnotations(next)
+    setSelectedRange(null)
+    clearSurfaceSelections()
+  }
+
+  /** Drops the DOM selection in the page and in PiP, whichever the words were selected in. */
+  function clearSurfaceSelections() {
+    clearSelection()
+    const pip = pipWindowRef.current
+    if (pip && !pip.closed) clearSelection(pip.document)
+  }
+
+  function openAnnotationForm(annotation: Annotation | null, range: WordRange | null) {
+    setAnnotationDraft(annotation?.text ?? '')
+    setDraftColor(annotation?.color ?? null)
+    setEditingAnnotationId(annotation?.id ?? null)
+    setPendingRange(range)
+    setSelectedRange(null)
+    setIsEditingAnnotation(true)
+  }
+
+  function closeAnnotationForm() {
     setAnnotationDraft('')
+    setDraftColor(null)
+    setPendingRange(null)
     setIsEditingAnnotation(false)
+    setEditingAnnotationId(null)
+  }
+
+  function deleteAnnotation(id: string) {
+    if (!fileHash) return
+    const next = annotations.filter((a) => a.id !== id)
+    commitAnnotations(next)
+    closeAnnotationForm()
+  }
+
+  function getExcerpt(start: number, end: number) {
+    const excerpt = joinWords(words, start, end, wordLayout.joined)
+    return excerpt.length > 80 ? `${excerpt.slice(0, 80)}…` : excerpt
   }
 
   function exportAnnotationsToFile() {
     if (!fileHash || !filename || annotations.length === 0) return
-    const getChunkWords = (i: number) =>
-      words.slice(i * wordsPerChunk, (i + 1) * wordsPerChunk)
-    const text = exportAnnotationsAsText(
+    const text = exportAnnotations(exportFormat, {
       filename,
+      fileHash,
       annotations,
-      getChunkWords
-    )
-    const blob = new Blob([text], { type: 'text/plain;charset=utf-8' })
+      words,
+      joined: wordLayout.joined,
+      getChunkIndex: (offset) => findChunkIndexForWord(chunkStarts, offset),
+    })
+    const { mimeType } = getAnnotationExportFormat(exportFormat)
+    const blob = new Blob([text], { type: `${mimeType};charset=utf-8` })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = sanitizeExportFilename(filename)
+    a.download = sanitizeExportFilename(filename, exportFormat)
     a.click()
     URL.revokeObjectURL(url)
   }
 
+  async function onPickAnnotationImport(file: File) {
+    if (!fileHash) return
+    setLoadError(null)
+    try {
+      const incoming = parseAnnotationImport(await file.text(), fileHash)
+      if (incoming.length === 0) throw new Error('This export does not contain any annotations.')
+      setPendingImport(incoming)
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not import these annotations.')
+    }
+  }
+
+  function applyAnnotationImport(mode: AnnotationImportMode) {
+    if (!fileHash || !pendingImport) return
+    const next = mergeAnnotations(annotations, pendingImport, mode)
+    commitAnnotations(next)
+    setPendingImport(null)
+    closeAnnotationForm()
+  }
+
+  function renderAnnotationForm(key: string) {
+    return (
+      <div key={key} className="annotationForm">
+        {pendingRange ? (
+          <blockquote className="annotationExcerpt">{getExcerpt(pendingRange.start, pendingRange.end)}</blockquote>
+        ) : null}
+        <textarea
+          className="annotationTextarea"
+          value={annotationDraft}
+          onChange={(e) => setAnnotationDraft(e.currentTarget.value)}
+          placeholder={pendingRange ? 'Add a note for the selected words...' : 'Add a note for this chunk...'}
+          rows={3}
+          autoFocus
+        />
+        <div className="annotationFormActions">
+          <div className="swatches" role="radiogroup" aria-label="Highlight colour">
+            <button
+              type="button"
+              className="swatch swatchNone"
+              role="radio"
+              aria-checked={draftColor === null}
+              aria-label="No highlight"
+              title="No highlight"
+              onClick={() => setDraftColor(null)}
+            />
+            {HIGHLIGHT_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className="swatch highlight"
+                data-highlight={color}
+                role="radio"
+                aria-checked={draftColor === color}
+                aria-label={`Highlight ${color}`}
+                title={`Highlight ${color}`}
+                onClick={() => setDraftColor(color)}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            className="btn btnPrimary"
+            onClick={() => addOrUpdateAnnotation(annotationDraft)}
+            disabled={annotationDraft.trim() === '' && draftColor === null}
+          >
+            Save
+          </button>
+          <button type="button" className="btn" onClick={closeAnnotationForm}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  /** Toolbar wiring shared by the fullscreen overlay and PiP. */
+  const surfaceNavigation = {
+    hasPrev,
+    hasNext,
+    onPrev: () => setChunkIndex((i) => Math.max(0, i - 1)),
+    onNext: () => setChunkIndex((i) => Math.min(i + 1, chunkCount - 1)),
+    prevTitle: withShortcut('Previous chunk', 'prev'),
+    nextTitle: withShortcut('Next chunk', 'next'),
+    onAddNote: isEditingAnnotation ? undefined : () => openAnnotationForm(null, null),
+    sectionTitle: currentSection?.title,
+    settings: (
+      <SurfaceSettings
+        emphasis={emphasisSettings.enabled}
+        onEmphasisChange={(enabled) => updateEmphasis({ ...emphasisSettings, enabled })}
+        wordsPerChunk={wordsPerChunkInput}
+        onWordsPerChunkChange={setWordsPerChunkInput}
+        wpm={isRsvp ? rsvpWpmInput : wpmInput}
+        onWpmChange={isRsvp ? setRsvpWpmInput : setWpmInput}
+        wpmLabel={isRsvp ? 'Flash words / min' : 'Words / min'}
+      />
+    ),
+  }
+
+  /** What every view's reader surface shows and how it responds to clicks and long presses. */
+  const surfaceChunk = {
+    lang: documentLanguage,
+    dir: textDir,
+    rsvp: isRsvp ? { words: currentRsvpGroup, wordOffset: currentRsvpOffset, joined: wordLayout.joined } : null,
+    chunk: {
+      words: currentWords,
+      wordOffset: currentChunkStart,
+      highlights: chunkHighlights,
+      searchHit: activeMatch,
+      joined: wordLayout.joined,
+      emphasis: emphasisConfig,
+      vocabulary: shownVocabulary,
+      spokenWordIndex: activeSpokenWord,
+    } satisfies BionicChunkProps,
+    onActivate: isRsvp
+      ? () => setRsvpPlaying((p) => !p)
+      : hasNext
+        ? () => setChunkIndex((i) => Math.min(i + 1, chunkCount - 1))
+        : undefined,
+    onWordTap: consumeWordTap,
+    longPress: { start: startLongPress, move: moveLongPress, cancel: cancelLongPress },
+  }
+
+  function renderSurfaceProgress() {
+    return (
+      <SurfaceProgress
+        chunkIndex={chunkIndex}
+        chunkCount={chunkCount}
+        percent={documentProgress}
+        minutesLeft={minutesLeft}
+        status={playbackStatus}
+      />
+    )
+  }
+
+  /** Everything the PiP window shows; re-rendered into its own React root. */
+  function renderPipView() {
+    return (
+      <>
+        <SurfaceToolbar
+          {...surfaceNavigation}
+          onClose={() => pipWindowRef.current?.close()}
+          closeTitle={withShortcut('Close PiP', 'exit')}
+        />
+        <ReaderSurface {...surfaceChunk} ref={pipContentRef} className="pipContent" role="button" tabIndex={0} />
+        {renderSelectionBar()}
+        {renderAnnotationBlock()}
+        {renderSurfaceProgress()}
+        {lookup?.inPip ? renderLookupPopup() : null}
+      </>
+    )
+  }
+
+  /** Dictionary popup for the looked-up word, rendered in the window the word was tapped in. */
+  function renderLookupPopup() {
+    if (!lookup) return null
+    return (
+      <div
+        ref={lookupPopupRef}
+        className="lookupPopup"
+        role="dialog"
+        aria-label={`Dictionary: ${lookup.token}`}
+        tabIndex={-1}
+        onKeyDown={onLookupKeyDown}
+        style={{
+          left: `clamp(8px, ${lookup.x}px - 11rem, calc(100vw - 22rem - 8px))`,
+          top: `${lookup.y + 6}px`,
+        }}
+      >
+        <div className="lookupHeader">
+          <strong>{lookup.result?.form ?? lookup.token}</strong>
+          {lookupForm !== null ? (
+            <button
+              type="button"
+              className="btn"
+              onClick={() => saveWordForReview(lookup.wordIndex)}
+              disabled={lookupSaved}
+              title="Add this word and its sentence to review"
+            >
+              {lookupSaved ? 'Saved' : 'Save for review'}
+            </button>
+          ) : null}
+          <button type="button" className="btn" aria-label="Close dictionary" onClick={() => setLookup(null)}>
+            ✕
+          </button>
+        </div>
+        {vocabularyTracking && lookupForm !== null ? (
+          <div className="vocabStatus" role="group" aria-label="Word status">
+            <button
+              type="button"
+              className={lookupStatus === 'new' ? 'btn btnActive' : 'btn'}
+              aria-pressed={lookupStatus === 'new'}
+              onClick={() => updateWordStatus([lookupForm], 'new')}
+              title="New (N)"
+            >
+              New
+            </button>
+            {LEARNING_LEVELS.map((level) => (
+              <button
+                key={level}
+                type="button"
+                className={lookupStatus === 'learning' && lookupLevel === level ? 'btn btnActive' : 'btn'}
+                aria-pressed={lookupStatus === 'learning' && lookupLevel === level}
+                onClick={() => markLookupLearning(level)}
+                title={`Learning, level ${level} (${level})`}
+              >
+                {level}
+              </button>
+            ))}
+            <button
+              type="button"
+              className={lookupStatus === 'known' ? 'btn btnActive' : 'btn'}
+              aria-pressed={lookupStatus === 'known'}
+              onClick={() => updateWordStatus([lookupForm], 'known')}
+              title="Known (K)"
+            >
+              Known
+            </button>
+            <button
+              type="button"
+              className={lookupStatus === 'ignored' ? 'btn btnActive' : 'btn'}
+              aria-pressed={lookupStatus === 'ignored'}
+              onClick={() => updateWordStatus([lookupForm], 'ignored')}
+              title="Ignore (X)"
+            >
+              Ignore
+            </button>
+          </div>
+        ) : null}
+        {dictionaries.length === 0 ? null : lookup.result === null ? (
+          <p className="muted">Looking up…</p>
+        ) : lookup.result.matches.length === 0 ? (
+          <p className="muted">{lookup.error ?? 'No entry in your dictionaries.'}</p>
+        ) : (
+          <dl className="lookupEntries">
+            {lookup.result.matches.map((match, i) => (
+              <div key={i} className="lookupEntry">
+                <dt>
+                  {match.headword}
+                  {match.reading ? <span className="lookupReading"> 【{match.reading}】</span> : null}
+                  <span className="lookupSource"> · {match.dictionary}</span>
+                </dt>
+                {match.definitions.map((definition, j) => (
+                  <dd key={j}>{definition}</dd>
+                ))}
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    )
+  }
+
+  /** Highlight and note buttons for the selected words; shown in every view the selection can be made in. */
+  function renderSelectionBar() {
+    if (!selectedRange || isEditingAnnotation || isRsvp) return null
+    return (
+      <div className="selectionBar" role="group" aria-label="Selected words">
+        <span className="selectionExcerpt">“{getExcerpt(selectedRange.start, selectedRange.end)}”</span>
+        <div className="swatches">
+          {HIGHLIGHT_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              className="swatch highlight"
+              data-highlight={color}
+              aria-label={`Highlight ${color}`}
+              title={`Highlight ${color}`}
+              onClick={() => addHighlight(selectedRange, color)}
+            />
+          ))}
+        </div>
+        <button type="button" className="btn" onClick={() => openAnnotationForm(null, selectedRange)}>
+          Add note
+        </button>
+        <button
+          type="button"
+          className="btn"
+          aria-label="Clear selection"
+          onClick={() => {
+            setSelectedRange(null)
+            clearSurfaceSelections()
+          }}
+        >
+          ✕
+        </button>
+      </div>
+    )
+  }
+
+  /** Notes and highlights on the current chunk, with their edit form; shown in every view. */
+  function renderAnnotationBlock() {
+    if (!isEditingAnnotation && currentChunkAnnotations.length === 0) return null
+    return (
+      <div className="annotationBlock" aria-label="Annotations for current chunk">
+        {currentChunkAnnotations.map((annotation) =>
+          isEditingAnnotation && editingAnnotationId === annotation.id ? (
+            renderAnnotationForm(annotation.id)
+          ) : (
+            <div key={annotation.id} className="annotationDisplay">
+              {annotation.wordStart > currentChunkStart || annotation.wordEnd < currentChunkEnd ? (
+                <blockquote
+                  className={annotation.color ? 'annotationExcerpt highlight' : 'annotationExcerpt'}
+                  data-highlight={annotation.color ?? undefined}
+                >
+                  {getExcerpt(annotation.wordStart, annotation.wordEnd)}
+                </blockquote>
+              ) : null}
+              {annotation.text ? <p className="annotationText">{annotation.text}</p> : null}
+              <div className="annotationFormActions">
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => openAnnotationForm(annotation, null)}
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={() => deleteAnnotation(annotation.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          )
+        )}
+        {isEditingAnnotation && editingAnnotationId === null ? renderAnnotationForm('new') : null}
+      </div>
+    )
+  }
+
   return (
     <div className="app">
       <header className="topbar">
@@ -386,13 +2205,163 @@ function App() {
             />
           </label>
 
+          <label className="control">
+            <span className="controlLabel">Chunking</span>
+            <select
+              className="selectInput"
+              value={chunkingStrategy}
+              onChange={(e) => {
+                const value = e.currentTarget.value
+                if (isChunkingStrategy(value)) setChunkingStrategy(value)
+              }}
+            >
+              {CHUNKING_STRATEGIES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="control">
+            <span className="controlLabel">Language</span>
+            <select
+              className="selectInput"
+              value={languageSetting}
+              onChange={(e) => {
+                const value = e.currentTarget.value
+                if (isLanguageSetting(value)) changeLanguage(value)
+              }}
+            >
+              <option value={AUTO_LANGUAGE}>Auto ({getLanguageLabel(detectedLanguage)})</option>
+              {DOCUMENT_LANGUAGES.map((l) => (
+                <option key={l.value} value={l.value}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="control">
+            <span className="controlLabel">View</span>
+            <select
+              className="selectInput"
+              value={presentationMode}
+              onChange={(e) => {
+                const value = e.currentTarget.value
+                if (!isPresentationMode(value)) return
+                setPresentationMode(value)
+                setRsvpPlaying(false)
+                setIsSpeaking(false)
+              }}
+            >
+              {PRESENTATION_MODES.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {isRsvp ? (
+            <>
+              <label className="control">
+                <span className="controlLabel">Flash words / min</span>
+                <input
+                  className="numberInput"
+                  type="number"
+                  inputMode="numeric"
+                  min={MIN_WPM}
+                  max={MAX_WPM}
+                  step={10}
+                  value={rsvpWpmInput}
+                  onChange={(e) => setRsvpWpmInput(e.currentTarget.value)}
+                />
+              </label>
+              <label className="control">
+                <span className="controlLabel">Words / flash</span>
+                <select
+                  className="selectInput"
+                  value={rsvpGroupSize}
+                  onChange={(e) => setRsvpGroupSize(Number(e.currentTarget.value))}
+                >
+                  {RSVP_GROUP_SIZES.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : (
+            <label className="control">
+              <span className="controlLabel">Words / min</span>
+              <input
+                className="numberInput"
+                type="number"
+                inputMode="numeric"
+                min={MIN_WPM}
+                max={MAX_WPM}
+                step={10}
+                value={wpmInput}
+                onChange={(e) => setWpmInput(e.currentTarget.value)}
+              />
+            </label>
+          )}
+
           <div className="buttons">
+            {isRsvp ? (
+              <button
+                type="button"
+                className={rsvpPlaying ? 'btn btnActive' : 'btn'}
+                onClick={() => setRsvpPlaying((p) => !p)}
+                disabled={!hasText}
+                aria-pressed={rsvpPlaying}
+                title={withShortcut(rsvpPlaying ? 'Pause RSVP' : 'Play RSVP', 'advance')}
+              >
+                {rsvpPlaying ? '⏸' : '▶'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={autoAdvance === 'off' ? 'btn' : 'btn btnActive'}
+                onClick={() => {
+                  setIsSpeaking(false)
+                  setAutoAdvance((a) => (a === 'off' ? 'playing' : 'off'))
+                }}
+                disabled={!hasText}
+                aria-pressed={autoAdvance !== 'off'}
+                title={
+                  autoAdvance === 'off'
+                    ? withShortcut('Start auto-advance at the words / min pace', 'playPause')
+                    : 'Stop auto-advance'
+                }
+              >
+                {autoAdvance === 'off' ? '▶' : '■'}
+              </button>
+            )}
+            <button
+              type="button"
+              className={isSpeaking ? 'btn btnActive' : 'btn'}
+              onClick={toggleSpeaking}
+              disabled={!hasText || isRsvp || !speechEngine}
+              aria-pressed={isSpeaking}
+              title={
+                speechEngine
+                  ? isSpeaking
+                    ? 'Stop reading aloud'
+                    : 'Read aloud from this chunk, highlighting each word'
+                  : 'Read aloud is not supported in this browser'
+              }
+            >
+              {isSpeaking ? '🔇' : '🔊'}
+            </button>
             <button
               type="button"
               className="btn"
               onClick={() => setChunkIndex((i) => Math.max(0, i - 1))}
               disabled={!hasPrev}
-              title="Previous chunk (Backspace)"
+              title={withShortcut('Previous chunk', 'prev')}
             >
               ‹
             </button>
@@ -401,7 +2370,7 @@ function App() {
               className="btn btnPrimary"
               onClick={() => setChunkIndex((i) => Math.min(chunkCount - 1, i + 1))}
               disabled={!hasNext}
-              title="Next chunk"
+              title={withShortcut('Next chunk', 'next')}
             >
               ›
             </button>
@@ -410,7 +2379,7 @@ function App() {
               className="btn"
               onClick={() => setFullscreenMode(true)}
               disabled={!hasText}
-              title="Enter fullscreen mode (Esc to exit)"
+              title={exitKeyLabel ? `Enter fullscreen mode (${exitKeyLabel} to exit)` : 'Enter fullscreen mode'}
             >
               ⛶
             </button>
@@ -419,21 +2388,141 @@ function App() {
               className="btn"
               onClick={() => void openPip()}
               disabled={!hasText || !('documentPictureInPicture' in window)}
-              title="Speed reading window (Picture-in-Picture). Space next, Backspace back, Esc to close."
+              title="Speed reading window (Picture-in-Picture); your shortcuts work there too"
             >
               PiP
             </button>
+            <button
+              type="button"
+              className={isAppearanceOpen ? 'btn btnActive' : 'btn'}
+              onClick={() => setIsAppearanceOpen((open) => !open)}
+              aria-expanded={isAppearanceOpen}
+              aria-controls="appearance-panel"
+              title="Theme and typography"
+            >
+              Aa
+            </button>
+            <button
+              type="button"
+              className={isSyncOpen ? 'btn btnActive' : 'btn'}
+              onClick={() => setIsSyncOpen((open) => !open)}
+              aria-expanded={isSyncOpen}
+              aria-controls="sync-panel"
+              title="Sync reading positions and notes between devices"
+            >
+              Sync
+              {syncStatus.state !== 'off' && syncStatus.queued > 0 ? (
+                <span className="badge">{syncStatus.queued}</span>
+              ) : null}
+            </button>
+            <button
+              type="button"
+              className={screen === 'shortcuts' ? 'btn btnActive' : 'btn'}
+              onClick={() => openScreen(screen === 'shortcuts' ? 'reader' : 'shortcuts')}
+              aria-pressed={screen === 'shortcuts'}
+              title="Keyboard, clicker, media key and gamepad shortcuts"
+            >
+              Keys
+            </button>
+            <button
+              type="button"
+              className={screen === 'stats' ? 'btn btnActive' : 'btn'}
+              onClick={() => openScreen(screen === 'stats' ? 'reader' : 'stats')}
+              aria-pressed={screen === 'stats'}
+              title="Reading statistics"
+            >
+              Stats
+            </button>
+            <button
+              type="button"
+              className={screen === 'backup' ? 'btn btnActive' : 'btn'}
+              onClick={() => openScreen(screen === 'backup' ? 'reader' : 'backup')}
+              aria-pressed={screen === 'backup'}
+              title="Back up or restore positions, notes, settings and everything else stored here"
+            >
+              Backup
+            </button>
+            <button
+              type="button"
+              className={screen === 'review' ? 'btn btnActive' : 'btn'}
+              onClick={() => openScreen(screen === 'review' ? 'reader' : 'review')}
+              aria-pressed={screen === 'review'}
+              title={`Review saved words (${dueFlashcards.length} due)`}
+            >
+              Review
+              {dueFlashcards.length > 0 ? <span className="badge">{dueFlashcards.length}</span> : null}
+            </button>
           </div>
         </div>
       </header>
 
       <main className="main">
-        {!hasText ? (
+        {isAppearanceOpen ? <AppearancePanel settings={appearance} onChange={updateAppearance} /> : null}
+        {isSyncOpen ? (
+          <SyncPanel
+            settings={syncSettings}
+            onChange={updateSyncSettings}
+            status={syncStatus}
+            onSyncNow={() => void runSync(true)}
+          />
+        ) : null}
+        {extraction ? (
+          <div className="importBar" role="status" aria-label="Reading file">
+            <span>
+              Reading “{extraction.filename}”
+              {extraction.progress ? ` · ${formatExtractionProgress(extraction.progress)}` : '…'}
+              {extractsInWorker(extraction.filename)
+                ? null
+                : ' · this browser cannot read files in the background, so the page may pause'}
+            </span>
+            <progress
+              className="extractionProgress"
+              max={extraction.progress?.total}
+              value={extraction.progress?.done}
+            />
+            <button
+              type="button"
+              className="btn"
+              onClick={() => (fileHash ? cancelExtraction() : closeDocument())}
+              title="Stop reading this file"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : null}
+        {screen === 'shortcuts' ? (
+          <ShortcutsScreen bindings={shortcuts} onChange={updateShortcuts} onClose={() => setScreen('reader')} />
+        ) : screen === 'backup' ? (
+          <BackupScreen
+            openFilename={hasText ? filename : null}
+            onCloseDocument={clearDocument}
+            onClose={() => setScreen('reader')}
+          />
+        ) : screen === 'stats' ? (
+          <StatsDashboard stats={readingStats} now={reviewNow} onClose={() => setScreen('reader')} />
+        ) : screen === 'review' ? (
+          <ReviewScreen
+            dueCards={dueFlashcards}
+            totalCount={flashcards.length}
+            hasDictionaries={dictionaries.length > 0}
+            onGrade={gradeCard}
+            onOpenSource={(card) => void openFlashcardSource(card)}
+            onDelete={(card) => void removeFlashcard(card)}
+            onClose={() => setScreen('reader')}
+          />
+        ) : !hasText ? (
           <div className="empty">
             <h1 className="emptyTitle">Upload a text document</h1>
             <p className="emptyBody">
               Choose {SUPPORTED_DOCUMENT_LABEL}.<br />
-              Set <strong>Words / chunk</strong> above, then tap or press <kbd>Space</kbd> to advance.
+              Set <strong>Words / chunk</strong> above, then tap
+              {advanceKeyLabel ? (
+                <>
+                  {' '}
+                  or press <kbd>{advanceKeyLabel}</kbd>
+                </>
+              ) : null}{' '}
+              to advance.
             </p>
             {loadError ? <p className="errorText">{loadError}</p> : null}
             <label className="uploadBtn">
@@ -449,114 +2538,311 @@ function App() {
                 }}
               />
             </label>
+            <label className="control importOption">
+              <span className="controlLabel">Scanned PDF pages are read as</span>
+              <select
+                className="selectInput"
+                value={ocrLanguage}
+                onChange={(e) => updateOcrLanguage(e.currentTarget.value)}
+                title="Language for recognizing text in PDF pages that have no text layer"
+              >
+                {OCR_LANGUAGES.map((l) => (
+                  <option key={l.value} value={l.value}>
+                    {/* Only English ships precached; the rest are fetched once, then kept */}
+                    {l.value === DEFAULT_OCR_LANGUAGE ? l.label : `${l.label} (one-time download)`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <OcrOfflineControl language={ocrLanguage} />
+            <label
+              className="checkControl importOption"
+              title="Remove headers and footers, rejoin hyphenated words, order columns"
+            >
+              <input type="checkbox" checked={pdfCleanup} onChange={(e) => updatePdfCleanup(e.currentTarget.checked)} />
+              Clean up PDF text
+            </label>
+            {libraryEntries.length > 0 ? (
+              <LibraryPanel
+                entries={libraryEntries}
+                storageUsage={storageUsage}
+                onOpen={(entry) => void resumeFromLibrary(entry)}
+                onRemove={(entry) => void removeFromLibrary(entry)}
+              />
+            ) : null}
           </div>
         ) : (
           <>
             <div className="status">
               <div className="statusLeft">
+                <button type="button" className="pillBtn" onClick={closeDocument} title="Back to the library">
+                  ‹ Library
+                </button>
                 <span className="pill">{filename ?? 'Untitled'}</span>
+                <select
+                  className="pillBtn"
+                  value={exportFormat}
+                  onChange={(e) => {
+                    const value = e.currentTarget.value
+                    if (isAnnotationExportFormat(value)) setExportFormat(value)
+                  }}
+                  aria-label="Annotation export format"
+                >
+                  {ANNOTATION_EXPORT_FORMATS.map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
                 <button
                   type="button"
                   className="pillBtn"
                   onClick={exportAnnotationsToFile}
                   disabled={annotations.length === 0}
-                  title="Export all annotations as a text file"
+                  title="Export all annotations in the chosen format"
                 >
                   Export annotations
                 </button>
+                <label className="pillBtn pillFile" title="Import annotations from a Lingread JSON export">
+                  Import
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => {
+                      const file = e.currentTarget.files?.[0]
+                      if (!file) return
+                      void onPickAnnotationImport(file)
+                      e.currentTarget.value = ''
+                    }}
+                  />
+                </label>
+                <button
+                  type="button"
+                  className="pillBtn"
+                  onClick={() => (isSearchOpen ? closeSearch() : setIsSearchOpen(true))}
+                  aria-expanded={isSearchOpen}
+                  aria-controls="search-panel"
+                  title={withShortcut('Search this document', 'search')}
+                >
+                  Search
+                </button>
+                <button
+                  type="button"
+                  className={vocabularyTracking ? 'pillBtn btnActive' : 'pillBtn'}
+                  onClick={toggleVocabularyTracking}
+                  aria-pressed={vocabularyTracking}
+                  title="Colour words by vocabulary status; tap a word to set it"
+                >
+                  Vocabulary
+                </button>
+                <button
+                  type="button"
+                  className="pillBtn"
+                  onClick={() => setIsDictionariesOpen((open) => !open)}
+                  aria-expanded={isDictionariesOpen}
+                  aria-controls="dictionaries-panel"
+                  title="Offline dictionaries for tap-to-look-up"
+                >
+                  Dictionaries
+                </button>
+                {/\.pdf$/i.test(filename ?? '') ? (
+                  <button
+                    type="button"
+                    className="pillBtn"
+                    onClick={() => setIsPdfCleanupOpen((open) => !open)}
+                    aria-expanded={isPdfCleanupOpen}
+                    aria-controls="pdf-cleanup-panel"
+                    title="Headers, footers, hyphenation and columns in PDF text"
+                  >
+                    PDF cleanup
+                  </button>
+                ) : null}
+                {speechEngine ? (
+                  <button
+                    type="button"
+                    className="pillBtn"
+                    onClick={() => setIsSpeechOpen((open) => !open)}
+                    aria-expanded={isSpeechOpen}
+                    aria-controls="speech-panel"
+                    title="Read-aloud voice and rate"
+                  >
+                    Voice
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  className="pillBtn"
+                  onClick={() => setIsEmphasisOpen((open) => !open)}
+                  aria-expanded={isEmphasisOpen}
+                  aria-controls="emphasis-panel"
+                  title="Bionic emphasis settings"
+                >
+                  Emphasis
+                </button>
+                {sections.length > 0 ? (
+                  <button
+                    type="button"
+                    className="pillBtn chapterPill"
+                    onClick={() => setIsTocOpen((open) => !open)}
+                    aria-expanded={isTocOpen}
+                    aria-controls="toc-panel"
+                    title="Table of contents"
+                  >
+                    ☰ {currentSection?.title ?? 'Contents'}
+                  </button>
+                ) : null}
                 <span className="muted">
                   {words.length.toLocaleString()} words • chunk {chunkIndex + 1} / {chunkCount}
+                  {vocabularyTracking
+                    ? ` • known ${formatKnownShare(chunkKnownShare)} here, ${formatKnownShare(documentKnownShare)} overall`
+                    : null}
                 </span>
+                {currentOcrPage ? (
+                  <span
+                    className="pill ocrConfidence"
+                    data-confidence={getOcrConfidenceLevel(currentOcrPage.confidence)}
+                    title={`Page ${currentOcrPage.page} is a scan; OCR confidence ${currentOcrPage.confidence}%`}
+                  >
+                    OCR p. {currentOcrPage.page} · {currentOcrPage.confidence}%
+                  </span>
+                ) : null}
                 {loadError ? <span className="errorText">{loadError}</span> : null}
               </div>
               <div className="statusRight">
                 <span className="hint">
-                  <kbd>Space</kbd> next · <kbd>Backspace</kbd> back · or tap
+                  {isRsvp ? (
+                    <>
+                      RSVP {rsvpPlaying ? `${rsvpWpm} wpm` : 'paused'}
+                      {renderKeyHint('advance', rsvpPlaying ? 'pause' : 'play')}
+                      {renderKeyHint('prev', 'back')}
+                    </>
+                  ) : autoAdvance === 'off' ? (
+                    <>
+                      Tap to go on
+                      {renderKeyHint('advance', 'next')}
+                      {renderKeyHint('prev', 'back')}
+                      {vocabularyTracking ? renderKeyHint('markKnownAndAdvance', 'mark new words known and go on') : null}
+                    </>
+                  ) : (
+                    <>
+                      Auto {autoAdvance === 'paused' ? 'paused' : `${wpm} wpm`}
+                      {renderKeyHint('advance', autoAdvance === 'paused' ? 'resume' : 'pause')}
+                    </>
+                  )}
                 </span>
               </div>
             </div>
 
+            {pendingImport ? (
+              <div className="importBar" role="alertdialog" aria-label="Import annotations">
+                <span>
+                  Import {pendingImport.length} annotation{pendingImport.length === 1 ? '' : 's'}
+                  {annotations.length > 0 ? ` (you have ${annotations.length})` : ''}:
+                </span>
+                <button type="button" className="btn btnPrimary" onClick={() => applyAnnotationImport('merge')}>
+                  Merge
+                </button>
+                <button type="button" className="btn" onClick={() => applyAnnotationImport('replace')}>
+                  Replace
+                </button>
+                <button type="button" className="btn" onClick={() => setPendingImport(null)}>
+                  Cancel
+                </button>
+              </div>
+            ) : null}
+
+            {isSearchOpen ? (
+              <SearchPanel
+                inputRef={searchInputRef}
+                query={searchQuery}
+                onQueryChange={(query) => {
+                  setSearchQuery(query)
+                  setActiveMatchIndex(-1)
+                }}
+                words={words}
+                chunkStarts={chunkStarts}
+                matches={searchMatches}
+                activeIndex={activeMatchIndex}
+                onGoTo={goToMatch}
+                onClose={closeSearch}
+              />
+            ) : null}
+
+            {isPdfCleanupOpen ? (
+              <PdfCleanupPanel
+                enabled={pdfCleanup}
+                onToggle={updatePdfCleanup}
+                applied={pdfSource?.cleanup ?? null}
+                onReopen={() => {
+                  if (pdfSource) void onPickFile(pdfSource.file)
+                }}
+                samples={pdfCleanupPreview}
+              />
+            ) : null}
+
+            {isDictionariesOpen ? (
+              <DictionaryPanel
+                dictionaries={dictionaries}
+                status={dictionaryStatus}
+                onAdd={(files) => void onPickDictionaryFiles(files)}
+                onRemove={(info) => void removeDictionary(info)}
+              />
+            ) : null}
+
+            {isSpeechOpen && speechEngine ? (
+              <SpeechPanel
+                language={documentLanguage}
+                voices={documentVoices}
+                voiceId={speechVoiceId}
+                settings={speechSettings}
+                onChange={updateSpeechSettings}
+              />
+            ) : null}
+
+            {isEmphasisOpen ? (
+              <EmphasisPanel settings={emphasisSettings} scope={emphasisScope} onChange={updateEmphasis} />
+            ) : null}
+
+            {isTocOpen && sections.length > 0 ? (
+              <nav id="toc-panel" className="tocPanel" aria-label="Table of contents">
+                <ol className="tocList">
+                  {sections.map((section, i) => (
+                    <li key={`${section.wordOffset}:${i}`}>
+                      <button
+                        type="button"
+                        className={i === currentSectionIndex ? 'tocItem tocItemCurrent' : 'tocItem'}
+                        style={{ paddingLeft: `${12 + section.level * 16}px` }}
+                        aria-current={i === currentSectionIndex ? 'location' : undefined}
+                        onClick={() => jumpToSection(section)}
+                      >
+                        <span className="tocTitle">{section.title}</span>
+                        <span className="tocChunk">{findChunkIndexForWord(chunkStarts, section.wordOffset) + 1}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </nav>
+            ) : null}
+
             <section className="reader" aria-label="Bionic reading area">
-              {!currentChunkAnnotation && !isEditingAnnotation && (
+              {!isEditingAnnotation && (
                 <button
                   type="button"
                   className="readerCorner"
-                  onClick={() => {
-                    setAnnotationDraft('')
-                    setIsEditingAnnotation(true)
-                  }}
+                  onClick={() => openAnnotationForm(null, null)}
                   title="Add note for this chunk"
                   aria-label="Add note for this chunk"
                 />
               )}
-              <div
-                className="chunk"
-                aria-live="polite"
+              <ReaderSurface
+                {...surfaceChunk}
+                ref={chunkRef}
+                className={isRsvp ? 'chunk chunkRsvp' : 'chunk'}
+                aria-live={isRsvp ? 'off' : 'polite'}
                 aria-atomic="true"
-                onClick={() => hasNext && setChunkIndex((i) => i + 1)}
-                style={{ cursor: hasNext ? 'pointer' : 'default' }}
-              >
-                <BionicChunk words={currentWords} />
-              </div>
-              {(isEditingAnnotation || currentChunkAnnotation) && (
-                <div className="annotationBlock" aria-label="Annotation for current chunk">
-                  {isEditingAnnotation ? (
-                    <div className="annotationForm">
-                      <textarea
-                        className="annotationTextarea"
-                        value={annotationDraft}
-                        onChange={(e) => setAnnotationDraft(e.currentTarget.value)}
-                        placeholder="Add a note for this chunk..."
-                        rows={3}
-                        autoFocus
-                      />
-                      <div className="annotationFormActions">
-                        <button
-                          type="button"
-                          className="btn btnPrimary"
-                          onClick={() => addOrUpdateAnnotation(annotationDraft)}
-                          disabled={annotationDraft.trim() === ''}
-                        >
-                          Save
-                        </button>
-                        <button
-                          type="button"
-                          className="btn"
-                          onClick={() => {
-                            setIsEditingAnnotation(false)
-                            setAnnotationDraft(currentChunkAnnotation?.text ?? '')
-                          }}
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    </div>
-                  ) : currentChunkAnnotation ? (
-                    <div className="annotationDisplay">
-                      <p className="annotationText">{currentChunkAnnotation.text}</p>
-                      <div className="annotationFormActions">
-                        <button
-                          type="button"
-                          className="btn"
-                          onClick={() => {
-                            setAnnotationDraft(currentChunkAnnotation.text)
-                            setIsEditingAnnotation(true)
-                          }}
-                        >
-                          Edit
-                        </button>
-                        <button
-                          type="button"
-                          className="btn"
-                          onClick={deleteCurrentAnnotation}
-                        >
-                          Delete
-                        </button>
-                      </div>
-                    </div>
-                  ) : null}
-                </div>
-              )}
+              />
+              {renderSelectionBar()}
+              {renderAnnotationBlock()}
             </section>
           </>
         )}
@@ -564,21 +2850,21 @@ function App() {
 
       {fullscreenMode && hasText && (
         <div className="fullscreenOverlay" onClick={() => setFullscreenMode(false)}>
-          <div
-            className="fullscreenContent"
-            onClick={(e) => {
-              e.stopPropagation()
-              if (hasNext) setChunkIndex((i) => i + 1)
-            }}
-            style={{ cursor: hasNext ? 'pointer' : 'default' }}
-          >
-            <BionicChunk words={currentWords} />
-          </div>
-          <div className="fullscreenProgress">
-            {chunkIndex + 1} / {chunkCount}
+          <SurfaceToolbar
+            {...surfaceNavigation}
+            onClose={() => setFullscreenMode(false)}
+            closeTitle={withShortcut('Exit fullscreen', 'exit')}
+          />
+          <ReaderSurface {...surfaceChunk} ref={fullscreenContentRef} className="fullscreenContent" />
+          <div className="fullscreenNotes" onClick={(e) => e.stopPropagation()}>
+            {renderSelectionBar()}
+            {renderAnnotationBlock()}
           </div>
+          {renderSurfaceProgress()}
         </div>
       )}
+
+      {lookup && !lookup.inPip ? renderLookupPopup() : null}
     </div>
   )
 }
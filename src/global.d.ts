@@ -12,3 +12,11 @@ interface DocumentPictureInPicture {
 interface Window {
   documentPictureInPicture?: DocumentPictureInPicture
 }
+
+// Hyphenation patterns (CommonJS, no bundled typings)
+declare module 'hyphen/*' {
+  const hyphenator: {
+    hyphenateSync(text: string, options?: { hyphenChar?: string; minWordLength?: number }): string
+  }
+  export default hyphenator
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { exportAnnotations, mergeAnnotations, type Annotation } from './annotations'
+
+function note(id: string, wordStart: number, text = '', color: Annotation['color'] = null): Annotation {
+  return { id, wordStart, wordEnd: wordStart + 1, text, color, createdAt: '2026-01-01T00:00:00.000Z' }
+}
+
+describe('mergeAnnotations', () => {
+  const existing = [note('a', 0, 'first'), note('b', 5, '', 'yellow')]
+
+  it('adds incoming annotations this list lacks', () => {
+    const merged = mergeAnnotations(existing, [note('c', 9, 'new')], 'merge')
+    expect(merged.map((a) => a.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('keeps the existing copy when ids match', () => {
+    const merged = mergeAnnotations(existing, [note('a', 0, 'edited elsewhere')], 'merge')
+    expect(merged).toEqual(existing)
+  })
+
+  it('skips an incoming annotation with identical content under another id', () => {
+    const merged = mergeAnnotations(existing, [note('z', 5, '', 'yellow')], 'merge')
+    expect(merged).toEqual(existing)
+  })
+
+  it('adds each duplicate in the incoming list once', () => {
+    const merged = mergeAnnotations([], [note('c', 1, 'x'), note('d', 1, 'x')], 'merge')
+    expect(merged.map((a) => a.id)).toEqual(['c'])
+  })
+
+  it('replaces everything in replace mode', () => {
+    const incoming = [note('c', 9, 'new')]
+    expect(mergeAnnotations(existing, incoming, 'replace')).toEqual(incoming)
+  })
+})
+
+describe('exportAnnotations', () => {
+  it('quotes passages of unspaced scripts without inserting spaces', () => {
+    const text = exportAnnotations('markdown', {
+      filename: 'book.txt',
+      fileHash: 'hash',
+      annotations: [{ ...note('a', 0), wordEnd: 3 }],
+      words: ['今日', 'は', '晴れ'],
+      joined: new Set([0, 1]),
+      getChunkIndex: () => 0,
+    })
+    expect(text).toContain('> 今日は晴れ')
+  })
+})
@@ -1,40 +1,190 @@
+import { joinWords, remapWordRange, type WordLayout } from './text'
+
 const STORAGE_KEY_PREFIX = 'lingread:annotations:'
 
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink'] as const
+
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number]
+
 export interface Annotation {
+  id: string
+  /** Index into the document's words of the first word the note is anchored to. */
+  wordStart: number
+  /** One past the last anchored word. */
+  wordEnd: number
+  /** Note text; may be empty for a plain highlight. */
+  text: string
+  /** Highlight colour painted on the anchored words, or null for a note without a highlight. */
+  color: HighlightColor | null
+  createdAt: string
+  /** Time of the last edit; absent until the annotation is changed. Sync keeps the later edit. */
+  updatedAt?: string
+}
+
+/** Pre-offset format: notes pointed at a chunk index for whatever words-per-chunk was active. */
+interface LegacyAnnotation {
   chunkIndex: number
   text: string
   createdAt: string
 }
 
-export function getStoredAnnotations(fileHash: string): Annotation[] {
+export function createAnnotationId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Loads annotations for a document. Legacy chunk-indexed entries are converted
+ * to word ranges using `legacyWordsPerChunk` (the chunk size saved alongside
+ * the reading position) and written back in the new format.
+ */
+export function getStoredAnnotations(fileHash: string, legacyWordsPerChunk: number): Annotation[] {
   try {
     const raw = localStorage.getItem(`${STORAGE_KEY_PREFIX}${fileHash}`)
     if (!raw) return []
     const parsed = JSON.parse(raw) as unknown
     if (!Array.isArray(parsed)) return []
-    return parsed.filter(
-      (item): item is Annotation =>
-        item &&
-        typeof item === 'object' &&
-        typeof (item as Annotation).chunkIndex === 'number' &&
-        typeof (item as Annotation).text === 'string' &&
-        typeof (item as Annotation).createdAt === 'string'
-    )
+
+    let migrated = false
+    const annotations: Annotation[] = []
+    for (const item of parsed) {
+      if (isAnnotation(item)) {
+        annotations.push({ ...item, color: isHighlightColor(item.color) ? item.color : null })
+      } else if (isLegacyAnnotation(item)) {
+        const wordStart = Math.max(0, Math.trunc(item.chunkIndex)) * legacyWordsPerChunk
+        annotations.push({
+          id: createAnnotationId(),
+          wordStart,
+          wordEnd: wordStart + legacyWordsPerChunk,
+          text: item.text,
+          color: null,
+          createdAt: item.createdAt,
+        })
+        migrated = true
+      }
+    }
+
+    if (migrated) saveAnnotations(fileHash, annotations)
+    return annotations
   } catch {
     return []
   }
 }
 
+/** Number of stored annotations for a document, without migrating or validating them. */
+export function countStoredAnnotations(fileHash: string): number {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(`${STORAGE_KEY_PREFIX}${fileHash}`) ?? '[]') as unknown
+    return Array.isArray(parsed) ? parsed.length : 0
+  } catch {
+    return 0
+  }
+}
+
 export function saveAnnotations(fileHash: string, annotations: Annotation[]): void {
   localStorage.setItem(`${STORAGE_KEY_PREFIX}${fileHash}`, JSON.stringify(annotations))
 }
 
+export function isHighlightColor(value: unknown): value is HighlightColor {
+  return HIGHLIGHT_COLORS.some((c) => c === value)
+}
+
+/** Annotations anchored inside the word range [start, end), in document order. */
+export function getAnnotationsInRange(annotations: Annotation[], start: number, end: number): Annotation[] {
+  return annotations
+    .filter((a) => a.wordStart >= start && a.wordStart < end)
+    .sort((a, b) => a.wordStart - b.wordStart)
+}
+
+/** Highlighted annotations that overlap the word range [start, end). */
+export function getHighlightsOverlapping(
+  annotations: Annotation[],
+  start: number,
+  end: number
+): (Annotation & { color: HighlightColor })[] {
+  return annotations.filter(
+    (a): a is Annotation & { color: HighlightColor } => a.color !== null && a.wordStart < end && a.wordEnd > start
+  )
+}
+
+/** Re-anchors annotations after the document's words were split differently (e.g. a language change). */
+export function remapAnnotations(annotations: Annotation[], from: WordLayout, to: WordLayout): Annotation[] {
+  return annotations.map((a) => {
+    const range = remapWordRange({ start: a.wordStart, end: a.wordEnd }, from, to)
+    return { ...a, wordStart: range.start, wordEnd: range.end }
+  })
+}
+
 const EXCERPT_MAX_LEN = 60
+const JSON_EXPORT_FORMAT = 'lingread-annotations'
+const JSON_EXPORT_VERSION = 1
+
+export type AnnotationExportFormat = 'text' | 'markdown' | 'json' | 'csv' | 'anki'
+
+export const ANNOTATION_EXPORT_FORMATS: {
+  value: AnnotationExportFormat
+  label: string
+  extension: string
+  mimeType: string
+}[] = [
+  { value: 'text', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'json', label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'anki', label: 'Anki (TSV)', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+]
+
+export type AnnotationImportMode = 'merge' | 'replace'
+
+export interface AnnotationExportContext {
+  filename: string
+  fileHash: string
+  annotations: Annotation[]
+  words: string[]
+  /** The layout's `joined` set, so passages from unspaced scripts are not split apart. */
+  joined?: Set<number>
+  getChunkIndex: (wordOffset: number) => number
+}
+
+/** Lossless JSON export; the only format `parseAnnotationImport` reads back. */
+interface AnnotationJsonExport {
+  format: typeof JSON_EXPORT_FORMAT
+  version: number
+  filename: string
+  fileHash: string
+  exportedAt: string
+  annotations: Annotation[]
+}
+
+export function isAnnotationExportFormat(value: unknown): value is AnnotationExportFormat {
+  return ANNOTATION_EXPORT_FORMATS.some((f) => f.value === value)
+}
+
+export function getAnnotationExportFormat(format: AnnotationExportFormat) {
+  return ANNOTATION_EXPORT_FORMATS.find((f) => f.value === format) ?? ANNOTATION_EXPORT_FORMATS[0]
+}
+
+export function exportAnnotations(format: AnnotationExportFormat, context: AnnotationExportContext): string {
+  const { filename, fileHash, annotations, words, joined, getChunkIndex } = context
+  switch (format) {
+    case 'markdown':
+      return exportAnnotationsAsMarkdown(filename, annotations, words, getChunkIndex, joined)
+    case 'json':
+      return exportAnnotationsAsJson(filename, fileHash, annotations)
+    case 'csv':
+      return exportAnnotationsAsCsv(annotations, words, getChunkIndex, joined)
+    case 'anki':
+      return exportAnnotationsAsAnki(filename, annotations, words, getChunkIndex, joined)
+    case 'text':
+      return exportAnnotationsAsText(filename, annotations, words, getChunkIndex, joined)
+  }
+}
 
 export function exportAnnotationsAsText(
   filename: string,
   annotations: Annotation[],
-  getChunkWords: (chunkIndex: number) => string[]
+  words: string[],
+  getChunkIndex: (wordOffset: number) => number,
+  joined?: Set<number>
 ): string {
   const exported = new Date().toLocaleString()
   const lines: string[] = [
@@ -43,24 +193,196 @@ export function exportAnnotationsAsText(
     '',
   ]
 
-  const sorted = [...annotations].sort((a, b) => a.chunkIndex - b.chunkIndex)
-  for (const ann of sorted) {
-    const chunkWords = getChunkWords(ann.chunkIndex)
-    const excerpt = chunkWords.join(' ').trim().slice(0, EXCERPT_MAX_LEN)
+  for (const ann of sortByPosition(annotations)) {
+    const excerpt = getPassage(words, ann, joined).slice(0, EXCERPT_MAX_LEN)
     const excerptSuffix = excerpt.length >= EXCERPT_MAX_LEN ? '...' : ''
-    lines.push(`--- Chunk ${ann.chunkIndex + 1} ---`)
+    lines.push(`--- Chunk ${getChunkIndex(ann.wordStart) + 1} ---`)
     if (excerpt) lines.push(`${excerpt}${excerptSuffix}`)
-    lines.push(`Note: ${ann.text}`)
+    if (ann.color) lines.push(`Highlight: ${ann.color}`)
+    if (ann.text) lines.push(`Note: ${ann.text}`)
     lines.push('')
   }
 
   return lines.join('\n').trimEnd()
 }
 
-export function sanitizeExportFilename(originalName: string): string {
+export function exportAnnotationsAsMarkdown(
+  filename: string,
+  annotations: Annotation[],
+  words: string[],
+  getChunkIndex: (wordOffset: number) => number,
+  joined?: Set<number>
+): string {
+  const lines: string[] = [
+    `# Lingread annotations — ${filename}`,
+    '',
+    `_Exported ${new Date().toLocaleString()}_`,
+    '',
+  ]
+
+  for (const ann of sortByPosition(annotations)) {
+    lines.push(`## Chunk ${getChunkIndex(ann.wordStart) + 1}`, '')
+    const passage = getPassage(words, ann, joined)
+    if (passage) lines.push(`> ${passage}`, '')
+    if (ann.color) lines.push(`**Highlight:** ${ann.color}`, '')
+    if (ann.text) lines.push(...ann.text.split('\n'), '')
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+export function exportAnnotationsAsJson(filename: string, fileHash: string, annotations: Annotation[]): string {
+  const payload: AnnotationJsonExport = {
+    format: JSON_EXPORT_FORMAT,
+    version: JSON_EXPORT_VERSION,
+    filename,
+    fileHash,
+    exportedAt: new Date().toISOString(),
+    annotations: sortByPosition(annotations),
+  }
+  return JSON.stringify(payload, null, 2)
+}
+
+export function exportAnnotationsAsCsv(
+  annotations: Annotation[],
+  words: string[],
+  getChunkIndex: (wordOffset: number) => number,
+  joined?: Set<number>
+): string {
+  const rows: (string | number)[][] = [['chunk', 'word_start', 'word_end', 'color', 'passage', 'note', 'created_at']]
+  for (const ann of sortByPosition(annotations)) {
+    rows.push([
+      getChunkIndex(ann.wordStart) + 1,
+      ann.wordStart,
+      ann.wordEnd,
+      ann.color ?? '',
+      getPassage(words, ann, joined),
+      ann.text,
+      ann.createdAt,
+    ])
+  }
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Anki "Notes in Plain Text" import: passage on the front, note on the back,
+ * the document and chunk as tags.
+ */
+export function exportAnnotationsAsAnki(
+  filename: string,
+  annotations: Annotation[],
+  words: string[],
+  getChunkIndex: (wordOffset: number) => number,
+  joined?: Set<number>
+): string {
+  const docTag = `lingread::${filename.replace(/\.[^.]+$/, '').replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'document'}`
+  const lines = ['#separator:tab', '#html:false', '#tags column:3']
+  for (const ann of sortByPosition(annotations)) {
+    const front = getPassage(words, ann, joined)
+    if (!front) continue
+    const tags = `${docTag} chunk_${getChunkIndex(ann.wordStart) + 1}`
+    lines.push([front, ann.text, tags].map(escapeTsvField).join('\t'))
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Reads a JSON export. Throws with a user-facing message when the file is not
+ * a Lingread annotation export or belongs to a different document.
+ */
+export function parseAnnotationImport(json: string, expectedFileHash: string): Annotation[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('This file is not valid JSON.')
+  }
+
+  const payload = parsed as Partial<AnnotationJsonExport> | null
+  if (!payload || payload.format !== JSON_EXPORT_FORMAT || !Array.isArray(payload.annotations)) {
+    throw new Error('This file is not a Lingread annotations export.')
+  }
+  if (typeof payload.version !== 'number' || payload.version > JSON_EXPORT_VERSION) {
+    throw new Error('This annotations export was made by a newer version of Lingread.')
+  }
+  if (payload.fileHash !== expectedFileHash) {
+    throw new Error('These annotations belong to a different document.')
+  }
+
+  return parseAnnotations(payload.annotations)
+}
+
+/** Keeps the well-formed annotations of an imported list; unknown colours become plain notes. */
+export function parseAnnotations(items: unknown[]): Annotation[] {
+  return items.filter(isAnnotation).map((a) => ({ ...a, color: isHighlightColor(a.color) ? a.color : null }))
+}
+
+/** Merge keeps existing annotations and adds imported ones not already present (by id or identical content). */
+export function mergeAnnotations(
+  existing: Annotation[],
+  incoming: Annotation[],
+  mode: AnnotationImportMode
+): Annotation[] {
+  if (mode === 'replace') return [...incoming]
+
+  const ids = new Set(existing.map((a) => a.id))
+  const contents = new Set(existing.map(annotationContentKey))
+  const merged = [...existing]
+  for (const ann of incoming) {
+    if (ids.has(ann.id) || contents.has(annotationContentKey(ann))) continue
+    ids.add(ann.id)
+    contents.add(annotationContentKey(ann))
+    merged.push(ann)
+  }
+  return merged
+}
+
+export function sanitizeExportFilename(originalName: string, format: AnnotationExportFormat = 'text'): string {
   const base = originalName.replace(/^.*[/\\]/, '').trim() || 'annotations'
   const safe = base.replace(/[^\w\s.-]/gi, '-').replace(/\s+/g, '-')
   const name = safe || 'annotations'
-  const withoutExt = name.replace(/\.(txt|pdf|epub)$/i, '')
-  return `annotations-${withoutExt}.txt`
+  const withoutExt = name.replace(/\.(txt|pdf|epub|html?|xhtml|md|markdown|docx|fb2|rtf)$/i, '')
+  return `annotations-${withoutExt}.${getAnnotationExportFormat(format).extension}`
+}
+
+function sortByPosition(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort((a, b) => a.wordStart - b.wordStart || a.createdAt.localeCompare(b.createdAt))
+}
+
+function getPassage(words: string[], ann: Annotation, joined?: Set<number>): string {
+  return joinWords(words, ann.wordStart, ann.wordEnd, joined).trim()
+}
+
+function annotationContentKey(ann: Annotation): string {
+  return JSON.stringify([ann.wordStart, ann.wordEnd, ann.text, ann.color])
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Anki's importer treats fields as CSV-quoted, so quotes still need escaping
+function escapeTsvField(value: string): string {
+  const text = value.replace(/[\t\r\n]+/g, ' ').trim()
+  return text.includes('"') ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function isAnnotation(item: unknown): item is Annotation {
+  if (!item || typeof item !== 'object') return false
+  const a = item as Annotation
+  return (
+    typeof a.id === 'string' &&
+    typeof a.wordStart === 'number' &&
+    typeof a.wordEnd === 'number' &&
+    typeof a.text === 'string' &&
+    typeof a.createdAt === 'string' &&
+    (a.updatedAt === undefined || typeof a.updatedAt === 'string')
+  )
+}
+
+function isLegacyAnnotation(item: unknown): item is LegacyAnnotation {
+  if (!item || typeof item !== 'object') return false
+  const a = item as LegacyAnnotation
+  return typeof a.chunkIndex === 'number' && typeof a.text === 'string' && typeof a.createdAt === 'string'
 }
@@ -0,0 +1,288 @@
+import atkinson400 from '@fontsource/atkinson-hyperlegible/files/atkinson-hyperlegible-latin-400-normal.woff2'
+import atkinson700 from '@fontsource/atkinson-hyperlegible/files/atkinson-hyperlegible-latin-700-normal.woff2'
+import openDyslexic400 from '@fontsource/opendyslexic/files/opendyslexic-latin-400-normal.woff2'
+import openDyslexic700 from '@fontsource/opendyslexic/files/opendyslexic-latin-700-normal.woff2'
+
+const STORAGE_KEY = 'lingread:appearance'
+
+/** Id of the `<style>` element that carries the appearance stylesheet. */
+export const APPEARANCE_STYLE_ID = 'lingread-appearance'
+
+/** Palette every surface reads through CSS custom properties of the same names. */
+export interface ThemeColors {
+  bg: string
+  panel: string
+  text: string
+  textDim: string
+  /** Headings, active controls and the emboldened part of bionic words. */
+  textStrong: string
+  border: string
+  yellow: string
+  orange: string
+  red: string
+  magenta: string
+  violet: string
+  blue: string
+  cyan: string
+  green: string
+}
+
+export interface Theme {
+  id: string
+  name: string
+  scheme: 'dark' | 'light'
+  colors: ThemeColors
+  /** User-defined themes can be edited and deleted; built-in ones cannot. */
+  custom?: boolean
+}
+
+export type FontChoice = 'system' | 'serif' | 'mono' | 'atkinson' | 'opendyslexic'
+
+export interface Typography {
+  font: FontChoice
+  /** Reader text size in px; fullscreen scales it up, PiP down to fit. */
+  fontSize: number
+  lineHeight: number
+  /** In em. */
+  letterSpacing: number
+  /** Widest line of reader text, in ch. */
+  columnWidth: number
+}
+
+export interface AppearanceSettings {
+  themeId: string
+  customThemes: Theme[]
+  typography: Typography
+}
+
+const SOLARIZED_ACCENTS = {
+  yellow: '#b58900',
+  orange: '#cb4b16',
+  red: '#dc322f',
+  magenta: '#d33682',
+  violet: '#6c71c4',
+  blue: '#268bd2',
+  cyan: '#2aa198',
+  green: '#859900',
+}
+
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'solarized-dark',
+    name: 'Solarized dark',
+    scheme: 'dark',
+    colors: {
+      bg: '#002b36',
+      panel: '#062e38',
+      text: '#93a1a1',
+      textDim: '#819294',
+      textStrong: '#eee8d5',
+      border: '#34555e',
+      ...SOLARIZED_ACCENTS,
+    },
+  },
+  {
+    id: 'solarized-light',
+    name: 'Solarized light',
+    scheme: 'light',
+    colors: {
+      bg: '#fdf6e3',
+      panel: '#eee8d5',
+      text: '#586e75',
+      textDim: '#7b8c8f',
+      textStrong: '#073642',
+      border: '#d3cbb7',
+      ...SOLARIZED_ACCENTS,
+    },
+  },
+  {
+    id: 'sepia',
+    name: 'Sepia',
+    scheme: 'light',
+    colors: {
+      bg: '#f5f0e1',
+      panel: '#ebe3cf',
+      text: '#6f6a60',
+      textDim: '#9a927f',
+      textStrong: '#3a3530',
+      border: '#d8ccb0',
+      ...SOLARIZED_ACCENTS,
+    },
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    scheme: 'dark',
+    colors: {
+      bg: '#000000',
+      panel: '#0d0d0d',
+      text: '#e6e6e6',
+      textDim: '#c8c8c8',
+      textStrong: '#ffffff',
+      border: '#ffffff',
+      yellow: '#ffd700',
+      orange: '#ff8c00',
+      red: '#ff5555',
+      magenta: '#ff4fd8',
+      violet: '#b69cff',
+      blue: '#4da6ff',
+      cyan: '#00e5e5',
+      green: '#7cfc00',
+    },
+  },
+]
+
+export const THEME_COLOR_LABELS: { key: keyof ThemeColors; label: string }[] = [
+  { key: 'bg', label: 'Background' },
+  { key: 'panel', label: 'Panels' },
+  { key: 'text', label: 'Text' },
+  { key: 'textStrong', label: 'Bold text' },
+  { key: 'textDim', label: 'Dim text' },
+  { key: 'border', label: 'Borders' },
+  { key: 'blue', label: 'Accent' },
+  { key: 'yellow', label: 'Highlight' },
+]
+
+export const FONT_CHOICES: { value: FontChoice; label: string; stack: string }[] = [
+  {
+    value: 'system',
+    label: 'System sans-serif',
+    stack: "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+  },
+  { value: 'serif', label: 'Serif', stack: "ui-serif, Charter, 'Iowan Old Style', Georgia, 'Times New Roman', serif" },
+  { value: 'mono', label: 'Monospace', stack: "ui-monospace, SFMono-Regular, Menlo, Consolas, 'Liberation Mono', monospace" },
+  { value: 'atkinson', label: 'Atkinson Hyperlegible', stack: "'Atkinson Hyperlegible', ui-sans-serif, system-ui, sans-serif" },
+  { value: 'opendyslexic', label: 'OpenDyslexic (dyslexia-friendly)', stack: "'OpenDyslexic', ui-sans-serif, system-ui, sans-serif" },
+]
+
+// Bundled so they work offline; the PiP window gets them through the appearance stylesheet
+const FONT_FACES: { family: string; weight: number; url: string }[] = [
+  { family: 'Atkinson Hyperlegible', weight: 400, url: atkinson400 },
+  { family: 'Atkinson Hyperlegible', weight: 700, url: atkinson700 },
+  { family: 'OpenDyslexic', weight: 400, url: openDyslexic400 },
+  { family: 'OpenDyslexic', weight: 700, url: openDyslexic700 },
+]
+
+export const TYPOGRAPHY_LIMITS = {
+  fontSize: { min: 14, max: 48, step: 1 },
+  lineHeight: { min: 1.2, max: 2.4, step: 0.05 },
+  letterSpacing: { min: -0.02, max: 0.2, step: 0.01 },
+  columnWidth: { min: 30, max: 120, step: 5 },
+} as const
+
+export const DEFAULT_APPEARANCE: AppearanceSettings = {
+  themeId: 'solarized-dark',
+  customThemes: [],
+  typography: { font: 'system', fontSize: 24, lineHeight: 1.65, letterSpacing: 0.01, columnWidth: 80 },
+}
+
+const HEX_COLOR_RE = /^#[0-9a-f]{6}$/i
+
+export function getAllThemes(settings: AppearanceSettings): Theme[] {
+  return [...BUILT_IN_THEMES, ...settings.customThemes]
+}
+
+export function resolveTheme(settings: AppearanceSettings): Theme {
+  return getAllThemes(settings).find((t) => t.id === settings.themeId) ?? BUILT_IN_THEMES[0]
+}
+
+/** A user theme starting from `base`'s colours. */
+export function createCustomTheme(base: Theme, name: string): Theme {
+  return { id: `custom-${crypto.randomUUID()}`, name, scheme: base.scheme, colors: { ...base.colors }, custom: true }
+}
+
+function parseTheme(value: unknown): Theme | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Partial<Theme>
+  if (typeof v.id !== 'string' || typeof v.name !== 'string' || !v.colors || typeof v.colors !== 'object') return null
+  const base = BUILT_IN_THEMES[0].colors
+  const colors = { ...base }
+  for (const key of Object.keys(base) as (keyof ThemeColors)[]) {
+    const color = (v.colors as Partial<Record<keyof ThemeColors, unknown>>)[key]
+    if (typeof color === 'string' && HEX_COLOR_RE.test(color)) colors[key] = color
+  }
+  return { id: v.id, name: v.name, scheme: v.scheme === 'light' ? 'light' : 'dark', colors, custom: true }
+}
+
+function clampSetting(value: unknown, key: keyof typeof TYPOGRAPHY_LIMITS): number {
+  const n = Number(value)
+  const { min, max } = TYPOGRAPHY_LIMITS[key]
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : DEFAULT_APPEARANCE.typography[key]
+}
+
+/** Validates stored settings, dropping malformed themes and clamping typography. */
+export function parseAppearanceSettings(value: unknown): AppearanceSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_APPEARANCE
+  const v = value as { themeId?: unknown; customThemes?: unknown; typography?: Partial<Record<keyof Typography, unknown>> }
+  const customThemes = Array.isArray(v.customThemes)
+    ? v.customThemes.map(parseTheme).filter((t): t is Theme => t !== null)
+    : []
+  const t = v.typography ?? {}
+  const settings: AppearanceSettings = {
+    themeId: typeof v.themeId === 'string' ? v.themeId : DEFAULT_APPEARANCE.themeId,
+    customThemes,
+    typography: {
+      font: FONT_CHOICES.some((f) => f.value === t.font) ? (t.font as FontChoice) : DEFAULT_APPEARANCE.typography.font,
+      fontSize: clampSetting(t.fontSize, 'fontSize'),
+      lineHeight: clampSetting(t.lineHeight, 'lineHeight'),
+      letterSpacing: clampSetting(t.letterSpacing, 'letterSpacing'),
+      columnWidth: clampSetting(t.columnWidth, 'columnWidth'),
+    },
+  }
+  return { ...settings, themeId: resolveTheme(settings).id }
+}
+
+export function loadAppearance(): AppearanceSettings {
+  try {
+    return parseAppearanceSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'))
+  } catch {
+    return DEFAULT_APPEARANCE
+  }
+}
+
+export function saveAppearance(settings: AppearanceSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+/**
+ * The one stylesheet that carries the theme and typography: custom properties
+ * on `:root` plus the bundled font faces. The same text goes into the main
+ * document and the PiP window, so font URLs are made absolute.
+ */
+export function buildAppearanceCss(settings: AppearanceSettings, baseUrl = document.baseURI): string {
+  const theme = resolveTheme(settings)
+  const { typography } = settings
+  const font = FONT_CHOICES.find((f) => f.value === typography.font) ?? FONT_CHOICES[0]
+  const colors = Object.entries(theme.colors).map(([key, value]) => `  --${key}: ${value};`)
+  const faces = FONT_FACES.map(
+    (face) =>
+      `@font-face { font-family: '${face.family}'; font-style: normal; font-weight: ${face.weight}; ` +
+      `font-display: swap; src: url('${new URL(face.url, baseUrl).href}') format('woff2'); }`
+  )
+
+  return [
+    ...faces,
+    ':root {',
+    ...colors,
+    `  --shadow: ${theme.scheme === 'dark' ? 'rgba(0, 0, 0, 0.35)' : 'rgba(0, 0, 0, 0.12)'};`,
+    `  --focus: color-mix(in oklab, var(--blue) 80%, ${theme.scheme === 'dark' ? 'white' : 'black'} 20%);`,
+    `  --readerFont: ${font.stack};`,
+    `  --readerFontSize: ${typography.fontSize}px;`,
+    `  --readerLineHeight: ${typography.lineHeight};`,
+    `  --readerLetterSpacing: ${typography.letterSpacing}em;`,
+    `  --readerColumnWidth: ${typography.columnWidth}ch;`,
+    `  color-scheme: ${theme.scheme};`,
+    '}',
+  ].join('\n')
+}
+
+/** Installs or replaces the appearance stylesheet in `doc`. */
+export function applyAppearanceCss(doc: Document, css: string) {
+  let style = doc.getElementById(APPEARANCE_STYLE_ID)
+  if (!style) {
+    style = doc.createElement('style')
+    style.id = APPEARANCE_STYLE_ID
+    doc.head.appendChild(style)
+  }
+  if (style.textContent !== css) style.textContent = css
+}
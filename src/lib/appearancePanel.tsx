@@ -0,0 +1,148 @@
+import {
+  BUILT_IN_THEMES,
+  createCustomTheme,
+  FONT_CHOICES,
+  getAllThemes,
+  resolveTheme,
+  THEME_COLOR_LABELS,
+  TYPOGRAPHY_LIMITS,
+  type AppearanceSettings,
+  type FontChoice,
+  type Theme,
+  type Typography,
+} from './appearance'
+
+interface AppearancePanelProps {
+  settings: AppearanceSettings
+  onChange: (settings: AppearanceSettings) => void
+}
+
+/** Theme picker and editor plus reader typography; changes apply to every view at once. */
+export function AppearancePanel({ settings, onChange }: AppearancePanelProps) {
+  const theme = resolveTheme(settings)
+  const { typography } = settings
+
+  const setTypography = (patch: Partial<Typography>) =>
+    onChange({ ...settings, typography: { ...typography, ...patch } })
+
+  const updateTheme = (next: Theme) =>
+    onChange({ ...settings, customThemes: settings.customThemes.map((t) => (t.id === next.id ? next : t)) })
+
+  const addTheme = () => {
+    const name = window.prompt('Name for the new theme', `${theme.name} (custom)`)?.trim()
+    if (!name) return
+    const created = createCustomTheme(theme, name)
+    onChange({ ...settings, themeId: created.id, customThemes: [...settings.customThemes, created] })
+  }
+
+  const removeTheme = () => {
+    if (!theme.custom || !window.confirm(`Delete the theme “${theme.name}”?`)) return
+    onChange({
+      ...settings,
+      themeId: BUILT_IN_THEMES[0].id,
+      customThemes: settings.customThemes.filter((t) => t.id !== theme.id),
+    })
+  }
+
+  return (
+    <div id="appearance-panel" className="emphasisPanel" role="group" aria-label="Appearance">
+      <label className="control">
+        <span className="controlLabel">Theme</span>
+        <select
+          className="selectInput"
+          value={theme.id}
+          onChange={(e) => onChange({ ...settings, themeId: e.currentTarget.value })}
+        >
+          {getAllThemes(settings).map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button type="button" className="btn" onClick={addTheme} title="Start a new theme from this one">
+        New theme
+      </button>
+      {theme.custom ? (
+        <>
+          <label className="control">
+            <span className="controlLabel">Base</span>
+            <select
+              className="selectInput"
+              value={theme.scheme}
+              onChange={(e) => updateTheme({ ...theme, scheme: e.currentTarget.value === 'light' ? 'light' : 'dark' })}
+            >
+              <option value="dark">Dark</option>
+              <option value="light">Light</option>
+            </select>
+          </label>
+          {THEME_COLOR_LABELS.map(({ key, label }) => (
+            <label key={key} className="control">
+              <span className="controlLabel">{label}</span>
+              <input
+                className="colorInput"
+                type="color"
+                value={theme.colors[key]}
+                onChange={(e) => updateTheme({ ...theme, colors: { ...theme.colors, [key]: e.currentTarget.value } })}
+              />
+            </label>
+          ))}
+          <button type="button" className="btn" onClick={removeTheme}>
+            Delete theme
+          </button>
+        </>
+      ) : null}
+
+      <label className="control">
+        <span className="controlLabel">Font</span>
+        <select
+          className="selectInput"
+          value={typography.font}
+          onChange={(e) => setTypography({ font: e.currentTarget.value as FontChoice })}
+        >
+          {FONT_CHOICES.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="control">
+        <span className="controlLabel">Size {typography.fontSize}px</span>
+        <input
+          type="range"
+          {...TYPOGRAPHY_LIMITS.fontSize}
+          value={typography.fontSize}
+          onChange={(e) => setTypography({ fontSize: Number(e.currentTarget.value) })}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">Line height {typography.lineHeight.toFixed(2)}</span>
+        <input
+          type="range"
+          {...TYPOGRAPHY_LIMITS.lineHeight}
+          value={typography.lineHeight}
+          onChange={(e) => setTypography({ lineHeight: Number(e.currentTarget.value) })}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">Letter spacing {typography.letterSpacing.toFixed(2)}em</span>
+        <input
+          type="range"
+          {...TYPOGRAPHY_LIMITS.letterSpacing}
+          value={typography.letterSpacing}
+          onChange={(e) => setTypography({ letterSpacing: Number(e.currentTarget.value) })}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">Column width {typography.columnWidth}ch</span>
+        <input
+          type="range"
+          {...TYPOGRAPHY_LIMITS.columnWidth}
+          value={typography.columnWidth}
+          onChange={(e) => setTypography({ columnWidth: Number(e.currentTarget.value) })}
+        />
+      </label>
+    </div>
+  )
+}
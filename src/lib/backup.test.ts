@@ -0,0 +1,128 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest'
+import { getStoredAnnotations, saveAnnotations, type Annotation } from './annotations'
+import { parseBackup, restoreBackup, type Backup, type BackupDocument, type RestorePlan } from './backup'
+import { getDocumentStateKey, readDocumentState } from './storage'
+
+const HASH = 'b'.repeat(64)
+
+function note(id: string, wordStart: number, text: string): Annotation {
+  return { id, wordStart, wordEnd: wordStart + 1, text, color: null, createdAt: '2026-01-01T00:00:00.000Z' }
+}
+
+function backupDocument(patch: Partial<BackupDocument> = {}): BackupDocument {
+  return {
+    hash: HASH,
+    filename: 'book.txt',
+    state: { chunkIndex: 3, wordOffset: 120, wordsPerChunk: 40 },
+    annotations: [note('from-backup', 10, 'backed up')],
+    library: null,
+    reads: [],
+    finished: null,
+    ...patch,
+  }
+}
+
+function backup(patch: Partial<Backup> = {}): Backup {
+  return {
+    format: 'lingread-backup',
+    version: 1,
+    createdAt: '2026-02-01T00:00:00.000Z',
+    settings: {},
+    documents: [],
+    vocabulary: [],
+    flashcards: [],
+    ...patch,
+  }
+}
+
+function plan(patch: Partial<RestorePlan> = {}): RestorePlan {
+  return { settings: 'merge', vocabulary: 'skip', flashcards: 'skip', documents: {}, ...patch }
+}
+
+describe('parseBackup', () => {
+  it('rejects files that are not Lingread backups', () => {
+    expect(() => parseBackup('{')).toThrow('not valid JSON')
+    expect(() => parseBackup(JSON.stringify({ format: 'something-else' }))).toThrow('not a Lingread backup')
+    expect(() => parseBackup(JSON.stringify({ ...backup(), version: 99 }))).toThrow('newer version')
+  })
+
+  it('drops malformed entries and lists them', () => {
+    const { backup: parsed, invalid } = parseBackup(
+      JSON.stringify({
+        ...backup(),
+        settings: { 'lingread:theme': 'sepia', 'lingread:sync': '{}', 'lingread:wpm': 300 },
+        documents: [
+          { hash: 'not-a-hash' },
+          { ...backupDocument(), annotations: [note('ok', 1, 'fine'), { id: 'broken' }] },
+        ],
+        vocabulary: [{ form: 'missing fields' }],
+      })
+    )
+    expect(parsed.settings).toEqual({ 'lingread:theme': 'sepia' })
+    expect(parsed.documents.map((doc) => doc.annotations.map((a) => a.id))).toEqual([['ok']])
+    expect(invalid).toEqual([
+      'Setting “lingread:sync”',
+      'Setting “lingread:wpm”',
+      'A document without a valid hash',
+      'book.txt: 1 note',
+      '1 vocabulary entry',
+    ])
+  })
+
+  it('reads back a backup it wrote', () => {
+    const original = backup({ settings: { 'lingread:theme': 'sepia' }, documents: [backupDocument()] })
+    expect(parseBackup(JSON.stringify(original))).toEqual({ backup: original, invalid: [] })
+  })
+})
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('merges settings without replacing ones already set', async () => {
+    localStorage.setItem('lingread:theme', 'dark')
+    const report = await restoreBackup(
+      backup({ settings: { 'lingread:theme': 'sepia', 'lingread:font': 'serif' } }),
+      plan({ settings: 'merge' })
+    )
+    expect(localStorage.getItem('lingread:theme')).toBe('dark')
+    expect(localStorage.getItem('lingread:font')).toBe('serif')
+    expect(report.skipped).toEqual(['Settings: 1 setting already set here'])
+  })
+
+  it('overwrites settings but keeps this device’s sync login', async () => {
+    localStorage.setItem('lingread:theme', 'dark')
+    localStorage.setItem('lingread:wpm', '250')
+    localStorage.setItem('lingread:sync', '{"backend":"http"}')
+    await restoreBackup(backup({ settings: { 'lingread:theme': 'sepia' } }), plan({ settings: 'overwrite' }))
+    expect(localStorage.getItem('lingread:theme')).toBe('sepia')
+    expect(localStorage.getItem('lingread:wpm')).toBeNull()
+    expect(localStorage.getItem('lingread:sync')).toBe('{"backend":"http"}')
+  })
+
+  it('merges a document: keeps the local position and adds the notes it lacks', async () => {
+    localStorage.setItem(getDocumentStateKey(HASH), JSON.stringify({ chunkIndex: 1, wordOffset: 40 }))
+    saveAnnotations(HASH, [note('local', 2, 'mine')])
+    const report = await restoreBackup(backup({ documents: [backupDocument()] }), plan({ documents: { [HASH]: 'merge' } }))
+    expect(readDocumentState(HASH)).toEqual({ chunkIndex: 1, wordOffset: 40 })
+    expect(getStoredAnnotations(HASH, 40).map((a) => a.id)).toEqual(['local', 'from-backup'])
+    expect(report.imported).toEqual(['book.txt: 1 note'])
+  })
+
+  it('overwrites a document’s position and notes', async () => {
+    localStorage.setItem(getDocumentStateKey(HASH), JSON.stringify({ chunkIndex: 1, wordOffset: 40 }))
+    saveAnnotations(HASH, [note('local', 2, 'mine')])
+    await restoreBackup(backup({ documents: [backupDocument()] }), plan({ documents: { [HASH]: 'overwrite' } }))
+    expect(readDocumentState(HASH)).toEqual({ chunkIndex: 3, wordOffset: 120, wordsPerChunk: 40 })
+    expect(getStoredAnnotations(HASH, 40).map((a) => a.id)).toEqual(['from-backup'])
+  })
+
+  it('leaves skipped documents alone', async () => {
+    const report = await restoreBackup(backup({ documents: [backupDocument()] }), plan())
+    expect(readDocumentState(HASH)).toBeNull()
+    expect(getStoredAnnotations(HASH, 40)).toEqual([])
+    expect(report.skipped).toEqual(['book.txt'])
+  })
+})
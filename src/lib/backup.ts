@@ -0,0 +1,475 @@
+import {
+  countStoredAnnotations,
+  getStoredAnnotations,
+  mergeAnnotations,
+  parseAnnotations,
+  saveAnnotations,
+  type Annotation,
+} from './annotations'
+import {
+  getLibraryEntry,
+  listLibraryEntries,
+  loadLibraryContent,
+  restoreLibraryDocument,
+  type LibraryContent,
+  type LibraryEntry,
+} from './library'
+import { getDocumentStateKey, getSavedWordsPerChunk, listStoredDocuments, readDocumentState } from './storage'
+import { getDayKey, loadReadingHistory, restoreReadingHistory, type ChunkRead, type FinishedDocument } from './stats'
+import { getFlashcardId, listFlashcards, restoreFlashcards, type Flashcard } from './flashcards'
+import { LEARNING_LEVELS, listAllVocabulary, restoreVocabulary, type VocabularyEntry } from './vocabulary'
+
+const BACKUP_FORMAT = 'lingread-backup'
+const BACKUP_VERSION = 1
+const SETTING_KEY_RE = /^lingread:[a-z][a-z-]*$/
+/** Sync login and its queue of unsent changes belong to this device, so backups neither carry nor replace them. */
+const DEVICE_KEY_RE = /^lingread:sync(-|$)/
+const HASH_RE = /^[0-9a-f]{64}$/
+
+/** How to bring one part of a backup in: keep what is here and add the rest, replace it, or leave it out. */
+export type RestoreMode = 'merge' | 'overwrite' | 'skip'
+
+export const RESTORE_MODES: { value: RestoreMode; label: string }[] = [
+  { value: 'merge', label: 'Merge' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'skip', label: 'Skip' },
+]
+
+export function isRestoreMode(value: unknown): value is RestoreMode {
+  return RESTORE_MODES.some((m) => m.value === value)
+}
+
+/** A chunk read without its store key, so restoring it gets a new one. */
+export type BackupRead = Omit<ChunkRead, 'id'>
+
+/** Everything stored for one document, keyed by the hash of its text. */
+export interface BackupDocument {
+  hash: string
+  /** Last known file name; null when only the position or notes are left. */
+  filename: string | null
+  /** The saved reader state (`lingread:<hash>`): position, chunk size, pace, language, emphasis. */
+  state: Record<string, unknown> | null
+  annotations: Annotation[]
+  /** The stored text, for documents in the library. */
+  library: { entry: LibraryEntry; content: LibraryContent } | null
+  reads: BackupRead[]
+  finished: FinishedDocument | null
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  /** Raw values of the global `lingread:*` settings. */
+  settings: Record<string, string>
+  documents: BackupDocument[]
+  vocabulary: VocabularyEntry[]
+  flashcards: Flashcard[]
+}
+
+export interface ParsedBackup {
+  backup: Backup
+  /** Entries that failed validation and will not be restored. */
+  invalid: string[]
+}
+
+export interface RestorePlan {
+  settings: RestoreMode
+  vocabulary: RestoreMode
+  flashcards: RestoreMode
+  /** By document hash; documents left out are skipped. */
+  documents: Record<string, RestoreMode>
+}
+
+export interface RestoreReport {
+  imported: string[]
+  skipped: string[]
+}
+
+/**
+ * Collects every piece of reading state this browser holds. Imported
+ * dictionaries are left out: they can be large and come back from their files.
+ */
+export async function createBackup(now = Date.now()): Promise<Backup> {
+  const [entries, history, vocabulary, flashcards] = await Promise.all([
+    listLibraryEntries(),
+    loadReadingHistory(),
+    listAllVocabulary(),
+    listFlashcards(),
+  ])
+
+  const settings: Record<string, string> = {}
+  for (const key of listSettingKeys()) settings[key] = localStorage.getItem(key) ?? ''
+  const hashes = new Set(listStoredDocuments())
+  for (const entry of entries) hashes.add(entry.hash)
+  for (const read of history.reads) hashes.add(read.hash)
+  for (const finished of history.finished) hashes.add(finished.hash)
+
+  const documents: BackupDocument[] = []
+  for (const hash of hashes) {
+    const state = readDocumentState(hash)
+    const entry = entries.find((e) => e.hash === hash)
+    const content = entry ? await loadLibraryContent(hash) : undefined
+    const reads = history.reads.filter((read) => read.hash === hash).map(toBackupRead)
+    const lastRead = reads.reduce<BackupRead | null>((last, read) => (last && last.at > read.at ? last : read), null)
+    const finished = history.finished.find((f) => f.hash === hash) ?? null
+    documents.push({
+      hash,
+      filename: entry?.filename ?? lastRead?.filename ?? finished?.filename ?? null,
+      state,
+      annotations: getStoredAnnotations(hash, getSavedWordsPerChunk(state)),
+      library: entry && content ? { entry, content } : null,
+      reads,
+      finished,
+    })
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date(now).toISOString(),
+    settings,
+    documents: documents.sort((a, b) => (a.filename ?? '').localeCompare(b.filename ?? '')),
+    vocabulary,
+    flashcards,
+  }
+}
+
+export function getBackupFilename(backup: Backup): string {
+  return `lingread-backup-${getDayKey(Date.parse(backup.createdAt))}.json`
+}
+
+/**
+ * Reads a backup file. Throws with a user-facing message when it is not a
+ * Lingread backup; malformed entries inside one are dropped and listed instead.
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('This file is not valid JSON.')
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) throw new Error('This file is not a Lingread backup.')
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Lingread.')
+  }
+
+  const invalid: string[] = []
+  const settings: Record<string, string> = {}
+  const rawSettings = isRecord(parsed.settings) ? parsed.settings : {}
+  for (const [key, value] of Object.entries(rawSettings)) {
+    if (SETTING_KEY_RE.test(key) && !DEVICE_KEY_RE.test(key) && typeof value === 'string') settings[key] = value
+    else invalid.push(`Setting “${key}”`)
+  }
+
+  const documents: BackupDocument[] = []
+  for (const item of asArray(parsed.documents)) {
+    const doc = parseBackupDocument(item, invalid)
+    if (doc) documents.push(doc)
+    else invalid.push('A document without a valid hash')
+  }
+
+  const vocabulary = asArray(parsed.vocabulary).filter(isVocabularyEntry)
+  const vocabularyDropped = asArray(parsed.vocabulary).length - vocabulary.length
+  if (vocabularyDropped > 0) invalid.push(formatCount(vocabularyDropped, 'vocabulary entry', 'vocabulary entries'))
+  const flashcards = asArray(parsed.flashcards).filter(isFlashcard)
+  const flashcardsDropped = asArray(parsed.flashcards).length - flashcards.length
+  if (flashcardsDropped > 0) invalid.push(formatCount(flashcardsDropped, 'flashcard'))
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: parsed.version,
+      createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+      settings,
+      documents,
+      vocabulary,
+      flashcards,
+    },
+    invalid,
+  }
+}
+
+/** Documents in `backup` that this browser already has something stored for. */
+export async function findLocalDocuments(backup: Backup): Promise<Set<string>> {
+  const history = await loadReadingHistory()
+  const local = new Set<string>()
+  for (const { hash } of backup.documents) {
+    const stored =
+      localStorage.getItem(getDocumentStateKey(hash)) !== null ||
+      countStoredAnnotations(hash) > 0 ||
+      (await getLibraryEntry(hash)) !== undefined ||
+      history.reads.some((read) => read.hash === hash) ||
+      history.finished.some((f) => f.hash === hash)
+    if (stored) local.add(hash)
+  }
+  return local
+}
+
+export function getBackupDocumentName(doc: BackupDocument): string {
+  return doc.filename ?? `Document ${doc.hash.slice(0, 8)}`
+}
+
+/** What a backed-up document holds, e.g. `reading position · 3 notes · text`. */
+export function describeBackupDocument(doc: BackupDocument): string {
+  const parts: string[] = []
+  if (doc.state) parts.push('reading position')
+  if (doc.annotations.length > 0) parts.push(formatCount(doc.annotations.length, 'note'))
+  if (doc.library) parts.push('text')
+  if (doc.reads.length > 0) parts.push(formatCount(doc.reads.length, 'chunk read', 'chunks read'))
+  if (doc.finished) parts.push('finished')
+  return parts.join(' · ') || 'nothing'
+}
+
+/**
+ * Writes the parts of `backup` that `plan` selects. Merge keeps what this
+ * browser has and adds what it lacks; overwrite replaces it with the backup.
+ */
+export async function restoreBackup(backup: Backup, plan: RestorePlan): Promise<RestoreReport> {
+  const report: RestoreReport = { imported: [], skipped: [] }
+
+  const settingKeys = Object.keys(backup.settings)
+  if (settingKeys.length === 0) {
+    // Nothing to restore
+  } else if (plan.settings === 'skip') {
+    report.skipped.push(`Settings (${formatCount(settingKeys.length, 'setting')})`)
+  } else {
+    if (plan.settings === 'overwrite') {
+      for (const key of listSettingKeys()) if (!(key in backup.settings)) localStorage.removeItem(key)
+    }
+    let restored = 0
+    for (const [key, value] of Object.entries(backup.settings)) {
+      if (plan.settings === 'merge' && localStorage.getItem(key) !== null) continue
+      localStorage.setItem(key, value)
+      restored += 1
+    }
+    report.imported.push(`Settings: ${formatCount(restored, 'setting')} restored`)
+    if (restored < settingKeys.length) {
+      report.skipped.push(`Settings: ${formatCount(settingKeys.length - restored, 'setting')} already set here`)
+    }
+  }
+
+  for (const doc of backup.documents) {
+    const mode = plan.documents[doc.hash] ?? 'skip'
+    const name = getBackupDocumentName(doc)
+    if (mode === 'skip') {
+      report.skipped.push(name)
+      continue
+    }
+    report.imported.push(`${name}: ${(await restoreDocument(doc, mode === 'overwrite')).join(', ') || 'nothing new'}`)
+  }
+
+  if (backup.vocabulary.length > 0) {
+    if (plan.vocabulary === 'skip') report.skipped.push(`Vocabulary (${formatCount(backup.vocabulary.length, 'word')})`)
+    else {
+      const written = await restoreVocabulary(backup.vocabulary, plan.vocabulary === 'overwrite')
+      report.imported.push(`Vocabulary: ${formatCount(written, 'word')}`)
+      if (written < backup.vocabulary.length) {
+        const kept = formatCount(backup.vocabulary.length - written, 'word')
+        report.skipped.push(`Vocabulary: ${kept} already tracked here`)
+      }
+    }
+  }
+
+  if (backup.flashcards.length > 0) {
+    if (plan.flashcards === 'skip') report.skipped.push(`Flashcards (${formatCount(backup.flashcards.length, 'card')})`)
+    else {
+      const written = await restoreFlashcards(backup.flashcards, plan.flashcards === 'overwrite')
+      report.imported.push(`Flashcards: ${formatCount(written, 'card')}`)
+      if (written < backup.flashcards.length) {
+        const kept = formatCount(backup.flashcards.length - written, 'card')
+        report.skipped.push(`Flashcards: ${kept} already in the deck`)
+      }
+    }
+  }
+
+  return report
+}
+
+async function restoreDocument(doc: BackupDocument, overwrite: boolean): Promise<string[]> {
+  const restored: string[] = []
+  const stateKey = getDocumentStateKey(doc.hash)
+  if (doc.state && (overwrite || localStorage.getItem(stateKey) === null)) {
+    localStorage.setItem(stateKey, JSON.stringify(doc.state))
+    restored.push('reading position')
+  }
+
+  const existing = getStoredAnnotations(doc.hash, getSavedWordsPerChunk(readDocumentState(doc.hash)))
+  const annotations = mergeAnnotations(existing, doc.annotations, overwrite ? 'replace' : 'merge')
+  if (overwrite || annotations.length > existing.length) {
+    saveAnnotations(doc.hash, annotations)
+    const added = overwrite ? annotations.length : annotations.length - existing.length
+    if (added > 0) restored.push(formatCount(added, 'note'))
+  }
+
+  if (doc.library && (await restoreLibraryDocument(doc.library.entry, doc.library.content, overwrite))) {
+    restored.push('text')
+  }
+  if (doc.reads.length > 0 || doc.finished) {
+    const added = await restoreReadingHistory(doc.hash, doc.reads, doc.finished, overwrite)
+    if (added > 0) restored.push(formatCount(added, 'chunk read', 'chunks read'))
+  }
+  return restored
+}
+
+function listSettingKeys(): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i += 1) {
+    const key = localStorage.key(i)
+    if (key && SETTING_KEY_RE.test(key) && !DEVICE_KEY_RE.test(key)) keys.push(key)
+  }
+  return keys
+}
+
+function parseBackupDocument(item: unknown, invalid: string[]): BackupDocument | null {
+  if (!isRecord(item) || typeof item.hash !== 'string' || !HASH_RE.test(item.hash)) return null
+  const hash = item.hash
+  const filename = typeof item.filename === 'string' ? item.filename : null
+  const name = filename ?? `Document ${hash.slice(0, 8)}`
+
+  const rawAnnotations = asArray(item.annotations)
+  const annotations = parseAnnotations(rawAnnotations)
+  if (annotations.length < rawAnnotations.length) {
+    invalid.push(`${name}: ${formatCount(rawAnnotations.length - annotations.length, 'note')}`)
+  }
+
+  let library: BackupDocument['library'] = null
+  if (isRecord(item.library)) {
+    const { entry, content } = item.library
+    if (isLibraryEntry(entry, hash) && isLibraryContent(content, hash)) library = { entry, content }
+    else invalid.push(`${name}: stored text`)
+  }
+
+  const rawReads = asArray(item.reads)
+  const reads = rawReads.filter((read): read is ChunkRead => isChunkRead(read, hash)).map(toBackupRead)
+  if (reads.length < rawReads.length) {
+    invalid.push(`${name}: ${formatCount(rawReads.length - reads.length, 'chunk read', 'chunks read')}`)
+  }
+  const finished = isFinishedDocument(item.finished, hash) ? item.finished : null
+
+  return {
+    hash,
+    filename,
+    state: isRecord(item.state) ? item.state : null,
+    annotations,
+    library,
+    reads,
+    finished,
+  }
+}
+
+function toBackupRead(read: ChunkRead): BackupRead {
+  return {
+    hash: read.hash,
+    filename: read.filename,
+    day: read.day,
+    at: read.at,
+    chunkIndex: read.chunkIndex,
+    words: read.words,
+    activeMs: read.activeMs,
+  }
+}
+
+function isLibraryEntry(value: unknown, hash: string): value is LibraryEntry {
+  return (
+    isRecord(value) &&
+    value.hash === hash &&
+    typeof value.filename === 'string' &&
+    typeof value.wordCount === 'number' &&
+    typeof value.size === 'number' &&
+    typeof value.progress === 'number' &&
+    typeof value.addedAt === 'string' &&
+    typeof value.lastOpenedAt === 'string'
+  )
+}
+
+function isLibraryContent(value: unknown, hash: string): value is LibraryContent {
+  return (
+    isRecord(value) &&
+    value.hash === hash &&
+    typeof value.text === 'string' &&
+    Array.isArray(value.sections) &&
+    value.sections.every(
+      (s) =>
+        isRecord(s) && typeof s.title === 'string' && typeof s.wordOffset === 'number' && typeof s.level === 'number'
+    ) &&
+    (value.ocrPages === undefined ||
+      (Array.isArray(value.ocrPages) &&
+        value.ocrPages.every(
+          (p) =>
+            isRecord(p) &&
+            typeof p.page === 'number' &&
+            typeof p.wordStart === 'number' &&
+            typeof p.wordEnd === 'number' &&
+            typeof p.confidence === 'number'
+        )))
+  )
+}
+
+function isChunkRead(value: unknown, hash: string): value is ChunkRead {
+  return (
+    isRecord(value) &&
+    value.hash === hash &&
+    typeof value.filename === 'string' &&
+    typeof value.day === 'string' &&
+    typeof value.at === 'string' &&
+    typeof value.chunkIndex === 'number' &&
+    typeof value.words === 'number' &&
+    typeof value.activeMs === 'number'
+  )
+}
+
+function isFinishedDocument(value: unknown, hash: string): value is FinishedDocument {
+  return (
+    isRecord(value) && value.hash === hash && typeof value.filename === 'string' && typeof value.finishedAt === 'string'
+  )
+}
+
+function isVocabularyEntry(value: unknown): value is VocabularyEntry {
+  return (
+    isRecord(value) &&
+    typeof value.language === 'string' &&
+    typeof value.form === 'string' &&
+    (value.status === 'learning' || value.status === 'known' || value.status === 'ignored') &&
+    (value.level === undefined || LEARNING_LEVELS.some((level) => level === value.level)) &&
+    typeof value.updatedAt === 'string'
+  )
+}
+
+function isFlashcard(value: unknown): value is Flashcard {
+  if (!isRecord(value) || !isRecord(value.context) || !isRecord(value.source)) return false
+  const { context, source } = value
+  return (
+    typeof value.language === 'string' &&
+    typeof value.form === 'string' &&
+    value.id === getFlashcardId(value.language, value.form) &&
+    typeof context.before === 'string' &&
+    typeof context.word === 'string' &&
+    typeof context.after === 'string' &&
+    typeof source.hash === 'string' &&
+    typeof source.filename === 'string' &&
+    typeof source.wordIndex === 'number' &&
+    typeof source.chunkIndex === 'number' &&
+    typeof value.createdAt === 'string' &&
+    typeof value.due === 'string' &&
+    typeof value.interval === 'number' &&
+    typeof value.ease === 'number' &&
+    typeof value.repetitions === 'number' &&
+    typeof value.lapses === 'number' &&
+    (value.reviewedAt === undefined || typeof value.reviewedAt === 'string')
+  )
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+function formatCount(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`
+}
@@ -0,0 +1,319 @@
+import { useEffect, useState } from 'react'
+import {
+  createBackup,
+  describeBackupDocument,
+  findLocalDocuments,
+  getBackupDocumentName,
+  getBackupFilename,
+  isRestoreMode,
+  parseBackup,
+  RESTORE_MODES,
+  restoreBackup,
+  type Backup,
+  type RestoreMode,
+  type RestorePlan,
+  type RestoreReport,
+} from './backup'
+import { formatBytes } from './library'
+
+interface BackupScreenProps {
+  /** Name of the document open in the reader, if any. */
+  openFilename: string | null
+  /** Closes that document, so its in-memory state cannot write over what is restored. */
+  onCloseDocument: () => void
+  onClose: () => void
+}
+
+interface PendingRestore {
+  filename: string
+  backup: Backup
+  invalid: string[]
+  /** Documents this browser already has something stored for. */
+  local: Set<string>
+  plan: RestorePlan
+}
+
+/**
+ * Downloads everything Lingread stores as one file, and restores such a file
+ * with a merge, overwrite or skip choice per document. Escape closes it.
+ */
+export function BackupScreen({ openFilename, onCloseDocument, onClose }: BackupScreenProps) {
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [pending, setPending] = useState<PendingRestore | null>(null)
+  const [report, setReport] = useState<RestoreReport | null>(null)
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape') return
+      e.preventDefault()
+      e.stopPropagation()
+      onClose()
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [onClose])
+
+  async function downloadBackup() {
+    setIsBusy(true)
+    setError(null)
+    setStatus(null)
+    try {
+      const backup = await createBackup()
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json;charset=utf-8' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = getBackupFilename(backup)
+      a.click()
+      URL.revokeObjectURL(url)
+      const count = backup.documents.length
+      setStatus(`Saved ${count} document${count === 1 ? '' : 's'} (${formatBytes(blob.size)}).`)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not create the backup.')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  async function onPickBackup(file: File) {
+    setError(null)
+    setReport(null)
+    setPending(null)
+    try {
+      const { backup, invalid } = parseBackup(await file.text())
+      const local = await findLocalDocuments(backup)
+      const documents: Record<string, RestoreMode> = {}
+      for (const doc of backup.documents) documents[doc.hash] = 'merge'
+      setPending({
+        filename: file.name,
+        backup,
+        invalid,
+        local,
+        plan: { settings: 'merge', vocabulary: 'merge', flashcards: 'merge', documents },
+      })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read this backup.')
+    }
+  }
+
+  async function applyRestore() {
+    if (!pending) return
+    setIsBusy(true)
+    setError(null)
+    try {
+      onCloseDocument()
+      const result = await restoreBackup(pending.backup, pending.plan)
+      setReport({ ...result, skipped: [...result.skipped, ...pending.invalid.map((item) => `${item} (invalid)`)] })
+      setPending(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not restore this backup.')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  function setMode(patch: Partial<Omit<RestorePlan, 'documents'>> | { hash: string; mode: RestoreMode }) {
+    setPending((current) => {
+      if (!current) return current
+      const plan =
+        'hash' in patch
+          ? { ...current.plan, documents: { ...current.plan.documents, [patch.hash]: patch.mode } }
+          : { ...current.plan, ...patch }
+      return { ...current, plan }
+    })
+  }
+
+  function setAllDocuments(mode: RestoreMode) {
+    setPending((current) => {
+      if (!current) return current
+      const documents: Record<string, RestoreMode> = {}
+      for (const hash of Object.keys(current.plan.documents)) documents[hash] = mode
+      return { ...current, plan: { ...current.plan, documents } }
+    })
+  }
+
+  return (
+    <section className="backup" aria-label="Backup">
+      <div className="reviewHeader">
+        <h1 className="reviewTitle">Backup</h1>
+        <button type="button" className="btn" onClick={onClose} title="Close (Esc)">
+          Close
+        </button>
+      </div>
+      <p className="muted">
+        One file with reading positions, notes and highlights, settings, stored texts, reading history, vocabulary and
+        flashcards. Imported dictionaries are not included; add them again from their files.
+      </p>
+
+      <div className="backupActions">
+        <button type="button" className="btn btnPrimary" onClick={() => void downloadBackup()} disabled={isBusy}>
+          Download backup
+        </button>
+        <label className="btn pillFile">
+          Restore from file…
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.currentTarget.files?.[0]
+              e.currentTarget.value = ''
+              if (file) void onPickBackup(file)
+            }}
+          />
+        </label>
+        {status ? <span className="muted">{status}</span> : null}
+      </div>
+      {error ? <p className="errorText">{error}</p> : null}
+
+      {pending ? (
+        <>
+          <h2 className="backupHeading">Restore {pending.filename}</h2>
+          <p className="muted">
+            Merge keeps what this browser has and adds what it lacks. Overwrite replaces it with the backup.
+            {openFilename ? ` Restoring closes ${openFilename}; open it again from the library afterwards.` : ''}
+            {pending.invalid.length > 0
+              ? ` ${pending.invalid.length} invalid entr${pending.invalid.length === 1 ? 'y' : 'ies'} will be skipped.`
+              : ''}
+          </p>
+          <table className="backupTable">
+            <tbody>
+              {Object.keys(pending.backup.settings).length > 0 ? (
+                <RestoreRow
+                  label="Settings"
+                  description="Appearance, speech, shortcuts and other preferences"
+                  mode={pending.plan.settings}
+                  onChange={(mode) => setMode({ settings: mode })}
+                />
+              ) : null}
+              {pending.backup.vocabulary.length > 0 ? (
+                <RestoreRow
+                  label="Vocabulary"
+                  description={`${pending.backup.vocabulary.length} tracked words`}
+                  mode={pending.plan.vocabulary}
+                  onChange={(mode) => setMode({ vocabulary: mode })}
+                />
+              ) : null}
+              {pending.backup.flashcards.length > 0 ? (
+                <RestoreRow
+                  label="Flashcards"
+                  description={`${pending.backup.flashcards.length} in the deck`}
+                  mode={pending.plan.flashcards}
+                  onChange={(mode) => setMode({ flashcards: mode })}
+                />
+              ) : null}
+              {pending.backup.documents.map((doc) => (
+                <RestoreRow
+                  key={doc.hash}
+                  label={getBackupDocumentName(doc)}
+                  description={`${describeBackupDocument(doc)} · ${
+                    pending.local.has(doc.hash) ? 'also in this browser' : 'new here'
+                  }`}
+                  mode={pending.plan.documents[doc.hash] ?? 'skip'}
+                  onChange={(mode) => setMode({ hash: doc.hash, mode })}
+                />
+              ))}
+            </tbody>
+          </table>
+          <div className="backupActions">
+            {pending.backup.documents.length > 1 ? (
+              <label className="control">
+                <span className="controlLabel">All documents</span>
+                <select
+                  className="selectInput"
+                  value=""
+                  onChange={(e) => {
+                    const value = e.currentTarget.value
+                    if (isRestoreMode(value)) setAllDocuments(value)
+                  }}
+                >
+                  <option value="" disabled>
+                    Set each…
+                  </option>
+                  {RESTORE_MODES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <button type="button" className="btn btnPrimary" onClick={() => void applyRestore()} disabled={isBusy}>
+              Restore
+            </button>
+            <button type="button" className="btn" onClick={() => setPending(null)} disabled={isBusy}>
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {report ? (
+        <>
+          <h2 className="backupHeading">Restored</h2>
+          {report.imported.length > 0 ? (
+            <ul className="backupReport">
+              {report.imported.map((line, i) => (
+                <li key={i}>{line}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="muted">Nothing was imported.</p>
+          )}
+          {report.skipped.length > 0 ? (
+            <>
+              <h3 className="controlLabel">Skipped</h3>
+              <ul className="backupReport muted">
+                {report.skipped.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+          <p>
+            <button type="button" className="btn btnPrimary" onClick={() => window.location.reload()}>
+              Reload Lingread
+            </button>{' '}
+            <span className="muted">Restored settings take effect after a reload.</span>
+          </p>
+        </>
+      ) : null}
+    </section>
+  )
+}
+
+interface RestoreRowProps {
+  label: string
+  description: string
+  mode: RestoreMode
+  onChange: (mode: RestoreMode) => void
+}
+
+function RestoreRow({ label, description, mode, onChange }: RestoreRowProps) {
+  return (
+    <tr>
+      <th scope="row">
+        {label}
+        <span className="muted">{description}</span>
+      </th>
+      <td>
+        <select
+          className="selectInput"
+          value={mode}
+          onChange={(e) => {
+            const value = e.currentTarget.value
+            if (isRestoreMode(value)) onChange(value)
+          }}
+          aria-label={`Restore ${label}`}
+        >
+          {RESTORE_MODES.map(({ value, label: modeLabel }) => (
+            <option key={value} value={value}>
+              {modeLabel}
+            </option>
+          ))}
+        </select>
+      </td>
+    </tr>
+  )
+}
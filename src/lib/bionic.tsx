@@ -1,46 +1,134 @@
 import type { ReactNode } from 'react'
+import type { HighlightColor } from './annotations'
+import { DEFAULT_EMPHASIS, getEmphasisLength, type EmphasisConfig } from './emphasis'
+import { buildRsvpFrame } from './rsvp'
+import type { WordRange } from './selection'
+import { parseToken } from './tokens'
+import { getWordForm, getWordStatus, type Vocabulary } from './vocabulary'
 
-const CORE_WORD_RE = /^([^\p{L}\p{N}]*)((?:[\p{L}\p{N}]+(?:[’'][\p{L}\p{N}]+)*)?)([^\p{L}\p{N}]*)$/u
+function renderBionicToken(
+  token: string,
+  wordIndex: number,
+  emphasis: EmphasisConfig,
+  vocabulary: Vocabulary | undefined
+): ReactNode {
+  const parts = parseToken(token)
+  if (!parts?.core) return token
 
-function boldPrefixLength(core: string) {
-  // Renato Casutt-style bionic emphasis: bias attention to the word start.
-  // 40% prefix, clamped for comfort.
-  const desired = Math.ceil(core.length * 0.4)
-  const cap = Math.min(6, core.length)
-  return Math.max(1, Math.min(cap, desired))
-}
-
-function renderBionicToken(token: string): ReactNode {
-  const m = token.match(CORE_WORD_RE)
-  if (!m) return token
+  const { leading, core, trailing } = parts
 
-  const [, leading, core, trailing] = m
-  if (!core) return token
-
-  const n = boldPrefixLength(core)
+  const n = getEmphasisLength(core, wordIndex, emphasis)
   const head = core.slice(0, n)
   const tail = core.slice(n)
+  const form = vocabulary ? getWordForm(token) : null
+  const status = vocabulary ? getWordStatus(vocabulary, form) : null
+  const level = status === 'learning' && form ? vocabulary?.get(form)?.level : undefined
 
   return (
-    <span className="token">
+    <span className="token" data-vocab={status ?? undefined} data-level={level}>
       {leading}
-      <span className="bionicBold">{head}</span>
+      {head ? <span className="bionicBold">{head}</span> : null}
       <span className="bionicRest">{tail}</span>
       {trailing}
     </span>
   )
 }
 
-export function BionicChunk({ words }: { words: string[] }) {
+export interface ChunkHighlight {
+  start: number
+  end: number
+  color: HighlightColor
+  note?: string
+}
+
+const DEFAULT_EMPHASIS_CONFIG: EmphasisConfig = { ...DEFAULT_EMPHASIS, language: 'und' }
+
+// Later highlights win where ranges overlap
+function findHighlight(highlights: ChunkHighlight[], index: number): ChunkHighlight | undefined {
+  for (let i = highlights.length - 1; i >= 0; i -= 1) {
+    const h = highlights[i]
+    if (index >= h.start && index < h.end) return h
+  }
+  return undefined
+}
+
+export interface BionicChunkProps {
+  words: string[]
+  /** Document index of `words[0]`; each word is tagged with its absolute index for selection. */
+  wordOffset?: number
+  /** Document indices of words written without a space before the next one. */
+  joined?: Set<number>
+  highlights?: ChunkHighlight[]
+  /** Active search match, outlined on top of any highlight. */
+  searchHit?: WordRange | null
+  /** Emphasis rules; the same config is passed in the reader, fullscreen and PiP. */
+  emphasis?: EmphasisConfig
+  /** When given, words are coloured by their vocabulary status. */
+  vocabulary?: Vocabulary
+  /** Document index of the word being read aloud. */
+  spokenWordIndex?: number | null
+}
+
+export function BionicChunk({
+  words,
+  wordOffset = 0,
+  highlights = [],
+  searchHit,
+  joined,
+  emphasis = DEFAULT_EMPHASIS_CONFIG,
+  vocabulary,
+  spokenWordIndex,
+}: BionicChunkProps) {
   return (
     <>
-      {words.map((w, i) => (
-        <span key={i}>
-          {renderBionicToken(w)}
-          {i < words.length - 1 ? ' ' : null}
-        </span>
-      ))}
+      {words.map((w, i) => {
+        const index = wordOffset + i
+        const highlight = findHighlight(highlights, index)
+        const continues = highlight !== undefined && index + 1 < highlight.end && i < words.length - 1
+        const isHit = !!searchHit && index >= searchHit.start && index < searchHit.end
+        const className = [highlight ? 'highlight' : '', isHit ? 'searchHit' : '', index === spokenWordIndex ? 'spoken' : '']
+          .filter(Boolean)
+          .join(' ')
+        return (
+          <span key={i}>
+            <span
+              data-word-index={index}
+              className={className || undefined}
+              data-highlight={highlight?.color}
+              title={highlight?.note || undefined}
+            >
+              {renderBionicToken(w, index, emphasis, vocabulary)}
+            </span>
+            {i < words.length - 1 && !joined?.has(index) ? (
+              continues ? (
+                <span className="highlight" data-highlight={highlight.color}>
+                  {' '}
+                </span>
+              ) : (
+                ' '
+              )
+            ) : null}
+          </span>
+        )
+      })}
     </>
   )
 }
 
+export interface RsvpWordProps {
+  words: string[]
+  /** Document index of `words[0]`. */
+  wordOffset: number
+  joined?: Set<number>
+}
+
+export function RsvpWord({ words, wordOffset, joined }: RsvpWordProps) {
+  const { before, pivot, after } = buildRsvpFrame(words, wordOffset, joined)
+  return (
+    <span className="rsvpFrame">
+      <span className="rsvpBefore">{before}</span>
+      <span className="rsvpPivot">{pivot}</span>
+      <span className="rsvpAfter">{after}</span>
+    </span>
+  )
+}
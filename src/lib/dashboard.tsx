@@ -0,0 +1,153 @@
+import { useEffect } from 'react'
+import { formatDuration, getDayKey, type ReadingStats } from './stats'
+
+const DAYS_SHOWN = 14
+const TREND_DAYS = 30
+const TREND_WIDTH = 320
+const TREND_HEIGHT = 80
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface StatsDashboardProps {
+  stats: ReadingStats | null
+  /** Date the daily chart ends on. */
+  now: number
+  onClose: () => void
+}
+
+/** Totals, daily words, the WPM trend and per-document figures. Escape closes it. */
+export function StatsDashboard({ stats, now, onClose }: StatsDashboardProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape') return
+      e.preventDefault()
+      e.stopPropagation()
+      onClose()
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [onClose])
+
+  if (!stats) {
+    return (
+      <section className="stats" aria-label="Reading statistics">
+        <p className="muted">Loading…</p>
+      </section>
+    )
+  }
+
+  const byDay = new Map(stats.days.map((d) => [d.day, d]))
+  const recentDays = Array.from({ length: DAYS_SHOWN }, (_, i) => {
+    const key = getDayKey(now - (DAYS_SHOWN - 1 - i) * DAY_MS)
+    return { key, words: byDay.get(key)?.words ?? 0 }
+  })
+  const maxWords = Math.max(1, ...recentDays.map((d) => d.words))
+  const trend = stats.days.filter((d) => d.wpm !== null).slice(-TREND_DAYS)
+  const maxWpm = Math.max(1, ...trend.map((d) => d.wpm ?? 0))
+  const trendPoints = trend
+    .map((d, i) => {
+      const x = trend.length === 1 ? TREND_WIDTH / 2 : (i / (trend.length - 1)) * TREND_WIDTH
+      const y = TREND_HEIGHT - ((d.wpm ?? 0) / maxWpm) * (TREND_HEIGHT - 8) - 4
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <section className="stats" aria-label="Reading statistics">
+      <div className="reviewHeader">
+        <h1 className="reviewTitle">Reading statistics</h1>
+        <button type="button" className="btn" onClick={onClose} title="Close (Esc)">
+          Close
+        </button>
+      </div>
+
+      <dl className="statsTotals">
+        <div>
+          <dt>Words read</dt>
+          <dd>{stats.total.words.toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt>Reading time</dt>
+          <dd>{formatDuration(stats.total.activeMs)}</dd>
+        </div>
+        <div>
+          <dt>Average pace</dt>
+          <dd>{stats.total.wpm === null ? '–' : `${stats.total.wpm} wpm`}</dd>
+        </div>
+        <div>
+          <dt>Chunks</dt>
+          <dd>{stats.total.chunks.toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt>Finished</dt>
+          <dd>{stats.total.finished.toLocaleString()}</dd>
+        </div>
+        <div>
+          <dt>Streak</dt>
+          <dd>
+            {stats.currentStreak} {stats.currentStreak === 1 ? 'day' : 'days'}
+            <span className="muted"> · best {stats.longestStreak}</span>
+          </dd>
+        </div>
+      </dl>
+
+      <div className="statsCharts">
+        <figure className="statsChart">
+          <figcaption className="controlLabel">Words per day</figcaption>
+          <div className="statsBars">
+            {recentDays.map((d) => (
+              <span
+                key={d.key}
+                className="statsBar"
+                style={{ height: `${(d.words / maxWords) * 100}%` }}
+                title={`${d.key}: ${d.words.toLocaleString()} words`}
+              />
+            ))}
+          </div>
+        </figure>
+        <figure className="statsChart">
+          <figcaption className="controlLabel">Words per minute</figcaption>
+          {trend.length > 0 ? (
+            <svg
+              className="statsTrend"
+              viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}
+              preserveAspectRatio="none"
+              role="img"
+              aria-label={`Pace over the last ${trend.length} reading days, latest ${trend[trend.length - 1].wpm} wpm`}
+            >
+              <polyline points={trendPoints} />
+            </svg>
+          ) : (
+            <p className="muted">Read a few chunks to see your pace.</p>
+          )}
+        </figure>
+      </div>
+
+      {stats.documents.length > 0 ? (
+        <table className="statsTable">
+          <thead>
+            <tr>
+              <th scope="col">Document</th>
+              <th scope="col">Words</th>
+              <th scope="col">Time</th>
+              <th scope="col">Pace</th>
+              <th scope="col">Finished</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.documents.map((doc) => (
+              <tr key={doc.hash}>
+                <th scope="row">{doc.filename}</th>
+                <td>{doc.words.toLocaleString()}</td>
+                <td>{formatDuration(doc.activeMs)}</td>
+                <td>{doc.wpm === null ? '–' : `${doc.wpm} wpm`}</td>
+                <td>{doc.finishedAt ? new Date(doc.finishedAt).toLocaleDateString() : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="muted">Nothing read yet. Statistics are kept in this browser only.</p>
+      )}
+    </section>
+  )
+}
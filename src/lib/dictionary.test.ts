@@ -0,0 +1,76 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest'
+import { parseGlossary, parseYomitanTermBank, readStarDictFields } from './dictionary'
+
+function bytes(...parts: (string | number[])[]): Uint8Array {
+  const encoder = new TextEncoder()
+  return new Uint8Array(parts.flatMap((part) => (typeof part === 'string' ? [...encoder.encode(part)] : part)))
+}
+
+describe('parseGlossary', () => {
+  it('reads tab- or comma-separated lines and skips comments and blanks', () => {
+    const text = '\uFEFF# my words\nHaus\thouse\n\nBaum,"tree, plant"\nzeile\tone\\ntwo\nbroken line\n,orphan\n'
+    expect(parseGlossary(text)).toEqual([
+      { headword: 'Haus', definitions: ['house'] },
+      { headword: 'Baum', definitions: ['tree, plant'] },
+      { headword: 'zeile', definitions: ['one\ntwo'] },
+    ])
+  })
+})
+
+describe('parseYomitanTermBank', () => {
+  it('reads plain, text and structured glossaries', () => {
+    const rows = [
+      ['食べる', 'たべる', 'v1', 'v1', 0, ['to eat', { type: 'text', text: ' to consume ' }]],
+      [
+        '猫',
+        'ねこ',
+        '',
+        '',
+        0,
+        [
+          {
+            type: 'structured-content',
+            content: [
+              { tag: 'div', content: 'cat' },
+              { tag: 'img', path: 'cat.png' },
+              { tag: 'ruby', content: ['猫', { tag: 'rt', content: 'ねこ' }] },
+            ],
+          },
+        ],
+      ],
+    ]
+    expect(parseYomitanTermBank(rows)).toEqual([
+      { headword: '食べる', reading: 'たべる', definitions: ['to eat', 'to consume'] },
+      { headword: '猫', reading: 'ねこ', definitions: ['cat\n猫'] },
+    ])
+  })
+
+  it('reads the Yomichan v1 layout and drops readings equal to the term', () => {
+    expect(parseYomitanTermBank([['かな', 'かな', '', '', 0, 'kana', 'syllabary']])).toEqual([
+      { headword: 'かな', reading: undefined, definitions: ['kana', 'syllabary'] },
+    ])
+  })
+
+  it('skips malformed rows and rows without definitions', () => {
+    expect(parseYomitanTermBank([null, [1, 'x'], ['empty', '', '', '', 0, []]])).toEqual([])
+  })
+})
+
+describe('readStarDictFields', () => {
+  it('reads typed fields, skipping binary ones and stripping markup', () => {
+    const data = bytes('t', 'ka-ta\0', 'W', [0, 0, 0, 2, 1, 2], 'h', '<b>shape</b><br>form\0', 'm', 'plain ')
+    expect(readStarDictFields(data, '')).toEqual([
+      { type: 't', text: 'ka-ta' },
+      { type: 'h', text: 'shape\nform' },
+      { type: 'm', text: 'plain' },
+    ])
+  })
+
+  it('uses the same type sequence for every article, with the last field running to the end', () => {
+    expect(readStarDictFields(bytes('reading\0', 'a meaning\0with a NUL'), 'tm')).toEqual([
+      { type: 't', text: 'reading' },
+      { type: 'm', text: 'a meaning\0with a NUL' },
+    ])
+  })
+})
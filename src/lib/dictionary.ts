@@ -0,0 +1,378 @@
+import type JSZip from 'jszip'
+import { createDatabaseOpener, requestToPromise, transactionDone } from './idb'
+import { getLookupCandidates } from './lemmas'
+
+const DB_NAME = 'lingread-dictionaries'
+const DB_VERSION = 1
+const DICTIONARY_STORE = 'dictionaries'
+const ENTRY_STORE = 'entries'
+const TERMS_INDEX = 'terms'
+const DICTIONARY_INDEX = 'dictionaryId'
+const LABEL = 'dictionary store'
+const IMPORT_BATCH_SIZE = 5000
+const MAX_MATCHES = 12
+
+export const DICTIONARY_ACCEPT = '.zip,.tsv,.csv,.txt,.ifo,.idx,.dict,.dz'
+
+export type DictionaryFormat = 'glossary' | 'stardict' | 'yomitan'
+
+export interface DictionaryInfo {
+  id: string
+  title: string
+  format: DictionaryFormat
+  entryCount: number
+  importedAt: string
+}
+
+interface DictionaryEntry {
+  id?: number
+  dictionaryId: string
+  /** Lookup keys (`normalizeLookupTerm` of the headword and any reading). */
+  terms: string[]
+  headword: string
+  reading?: string
+  definitions: string[]
+}
+
+type ParsedEntry = Omit<DictionaryEntry, 'id' | 'dictionaryId' | 'terms'>
+
+export interface DictionaryMatch {
+  dictionary: string
+  headword: string
+  reading?: string
+  definitions: string[]
+}
+
+export interface LookupResult {
+  /** The form that was found, which differs from the tapped word when a lemma fallback matched. */
+  form: string
+  matches: DictionaryMatch[]
+}
+
+const openDictionaryDb = createDatabaseOpener(DB_NAME, DB_VERSION, LABEL, (db) => {
+  if (!db.objectStoreNames.contains(DICTIONARY_STORE)) db.createObjectStore(DICTIONARY_STORE, { keyPath: 'id' })
+  if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+    const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'id', autoIncrement: true })
+    entries.createIndex(TERMS_INDEX, 'terms', { multiEntry: true })
+    entries.createIndex(DICTIONARY_INDEX, 'dictionaryId')
+  }
+})
+
+export function normalizeLookupTerm(term: string): string {
+  return term.normalize('NFC').trim().toLocaleLowerCase()
+}
+
+/**
+ * Imports a dictionary from the picked files: a tab-separated glossary, a set
+ * of StarDict files (`.ifo`, `.idx`, `.dict`/`.dict.dz`, loose or zipped), or
+ * a Yomitan/Yomichan `.zip`.
+ */
+export async function importDictionary(files: File[]): Promise<DictionaryInfo> {
+  try {
+    const names = files.map((f) => f.name.toLowerCase())
+    if (files.length === 1 && names[0].endsWith('.zip')) {
+      return await importZippedDictionary(files[0])
+    }
+    if (names.some((n) => n.endsWith('.ifo'))) {
+      return await importStarDict(
+        files.map((f) => ({ name: f.name, read: async () => new Uint8Array(await f.arrayBuffer()) }))
+      )
+    }
+    if (files.length === 1 && /\.(tsv|csv|txt)$/.test(names[0])) {
+      const title = files[0].name.replace(/\.[^.]+$/, '')
+      return await saveDictionary(title, 'glossary', parseGlossary(await files[0].text()))
+    }
+    throw new Error(
+      'Unrecognised dictionary. Pick a tab-separated glossary, the StarDict files (.ifo, .idx, .dict) or a Yomitan .zip.'
+    )
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error
+    }
+
+    throw new Error('Could not read this dictionary.')
+  }
+}
+
+export async function listDictionaries(): Promise<DictionaryInfo[]> {
+  const db = await openDictionaryDb()
+  const tx = db.transaction(DICTIONARY_STORE, 'readonly')
+  const list = await requestToPromise<DictionaryInfo[]>(tx.objectStore(DICTIONARY_STORE).getAll(), LABEL)
+  return list.sort((a, b) => a.title.localeCompare(b.title))
+}
+
+export async function deleteDictionary(id: string): Promise<void> {
+  const db = await openDictionaryDb()
+  const tx = db.transaction([DICTIONARY_STORE, ENTRY_STORE], 'readwrite')
+  tx.objectStore(DICTIONARY_STORE).delete(id)
+  const keys = await requestToPromise(
+    tx.objectStore(ENTRY_STORE).index(DICTIONARY_INDEX).getAllKeys(IDBKeyRange.only(id)),
+    LABEL
+  )
+  for (const key of keys) tx.objectStore(ENTRY_STORE).delete(key)
+  await transactionDone(tx, LABEL)
+}
+
+/** Looks `token` up in every installed dictionary, falling back to lemma guesses when the exact form is missing. */
+export async function lookupWord(token: string, language: string): Promise<LookupResult | null> {
+  const candidates = getLookupCandidates(token, language)
+  if (candidates.length === 0) return null
+
+  const db = await openDictionaryDb()
+  const tx = db.transaction([DICTIONARY_STORE, ENTRY_STORE], 'readonly')
+  const dictionaries = await requestToPromise<DictionaryInfo[]>(tx.objectStore(DICTIONARY_STORE).getAll(), LABEL)
+  const titles = new Map(dictionaries.map((d) => [d.id, d.title]))
+  const index = tx.objectStore(ENTRY_STORE).index(TERMS_INDEX)
+
+  for (const form of candidates) {
+    const entries = await requestToPromise<DictionaryEntry[]>(
+      index.getAll(normalizeLookupTerm(form), MAX_MATCHES),
+      LABEL
+    )
+    if (entries.length === 0) continue
+    return {
+      form,
+      matches: entries.map((entry) => ({
+        dictionary: titles.get(entry.dictionaryId) ?? 'Dictionary',
+        headword: entry.headword,
+        reading: entry.reading,
+        definitions: entry.definitions,
+      })),
+    }
+  }
+
+  return { form: candidates[0], matches: [] }
+}
+
+async function saveDictionary(title: string, format: DictionaryFormat, entries: ParsedEntry[]): Promise<DictionaryInfo> {
+  if (entries.length === 0) {
+    throw new Error('This dictionary does not contain any entries.')
+  }
+
+  const db = await openDictionaryDb()
+  const info: DictionaryInfo = {
+    id: crypto.randomUUID(),
+    title: title.trim() || 'Untitled dictionary',
+    format,
+    entryCount: entries.length,
+    importedAt: new Date().toISOString(),
+  }
+
+  try {
+    // Batched so a large dictionary does not sit in one huge transaction
+    for (let start = 0; start < entries.length; start += IMPORT_BATCH_SIZE) {
+      const tx = db.transaction(ENTRY_STORE, 'readwrite')
+      const store = tx.objectStore(ENTRY_STORE)
+      for (const entry of entries.slice(start, start + IMPORT_BATCH_SIZE)) {
+        const terms = [entry.headword, entry.reading].filter((t): t is string => !!t).map(normalizeLookupTerm)
+        store.put({ ...entry, dictionaryId: info.id, terms: Array.from(new Set(terms)) })
+      }
+      await transactionDone(tx, LABEL)
+    }
+
+    const tx = db.transaction(DICTIONARY_STORE, 'readwrite')
+    tx.objectStore(DICTIONARY_STORE).put(info)
+    await transactionDone(tx, LABEL)
+  } catch (error) {
+    await deleteDictionary(info.id).catch(() => {})
+    throw error
+  }
+
+  return info
+}
+
+/** One `term<TAB>definition` (or `term,definition`) per line; `#` lines are comments. */
+export function parseGlossary(text: string): ParsedEntry[] {
+  const entries: ParsedEntry[] = []
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue
+    const separator = line.includes('\t') ? '\t' : ','
+    const at = line.indexOf(separator)
+    if (at <= 0) continue
+    const headword = line.slice(0, at).trim()
+    const definition = line
+      .slice(at + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1')
+      .replace(/\\n/g, '\n')
+    if (headword && definition) entries.push({ headword, definitions: [definition] })
+  }
+  return entries
+}
+
+async function importZippedDictionary(file: File): Promise<DictionaryInfo> {
+  const { default: JSZip } = await import('jszip')
+  const zip = await withReadError('This .zip file is damaged or is not a zip archive.', async () =>
+    JSZip.loadAsync(await file.arrayBuffer())
+  )
+  const paths = Object.keys(zip.files).filter((path) => !zip.files[path].dir)
+
+  const indexPath = paths.find((path) => /(^|\/)index\.json$/i.test(path))
+  if (indexPath && paths.some((path) => /term_bank_\d+\.json$/i.test(path))) {
+    const index = (await readYomitanJson(zip.files[indexPath])) as { title?: unknown } | null
+    const entries: ParsedEntry[] = []
+    for (const path of paths.filter((p) => /term_bank_\d+\.json$/i.test(p))) {
+      const rows = await readYomitanJson(zip.files[path])
+      if (Array.isArray(rows)) entries.push(...parseYomitanTermBank(rows))
+    }
+    const title = typeof index?.title === 'string' ? index.title : file.name.replace(/\.zip$/i, '')
+    return saveDictionary(title, 'yomitan', entries)
+  }
+
+  if (paths.some((path) => path.toLowerCase().endsWith('.ifo'))) {
+    return importStarDict(paths.map((path) => ({ name: path, read: () => zip.files[path].async('uint8array') })))
+  }
+
+  throw new Error('This .zip is neither a Yomitan dictionary nor a StarDict archive.')
+}
+
+function readYomitanJson(entry: JSZip.JSZipObject): Promise<unknown> {
+  return withReadError(`Could not read ${entry.name} in this Yomitan dictionary.`, async () =>
+    JSON.parse(await entry.async('string'))
+  )
+}
+
+/**
+ * Yomitan term banks: `[term, reading, tags, rules, score, glossary[], …]`;
+ * the old Yomichan v1 layout lists glossary strings from index 5 onwards.
+ */
+export function parseYomitanTermBank(rows: unknown[]): ParsedEntry[] {
+  const entries: ParsedEntry[] = []
+  for (const row of rows) {
+    if (!Array.isArray(row) || typeof row[0] !== 'string') continue
+    const glossary: unknown[] = Array.isArray(row[5]) ? row[5] : row.slice(5)
+    const definitions = glossary.map(getYomitanGlossaryText).filter(Boolean)
+    if (definitions.length === 0) continue
+    const reading = typeof row[1] === 'string' && row[1] && row[1] !== row[0] ? row[1] : undefined
+    entries.push({ headword: row[0], reading, definitions })
+  }
+  return entries
+}
+
+function getYomitanGlossaryText(item: unknown): string {
+  if (typeof item === 'string') return item.trim()
+  if (!item || typeof item !== 'object') return ''
+  const obj = item as { type?: unknown; text?: unknown; content?: unknown }
+  if (obj.type === 'text' && typeof obj.text === 'string') return obj.text.trim()
+  if (obj.type === 'structured-content') return flattenStructuredContent(obj.content).replace(/\n{2,}/g, '\n').trim()
+  return ''
+}
+
+function flattenStructuredContent(node: unknown): string {
+  if (typeof node === 'string') return node
+  if (Array.isArray(node)) return node.map(flattenStructuredContent).join('')
+  if (!node || typeof node !== 'object') return ''
+  const el = node as { tag?: unknown; content?: unknown }
+  if (el.tag === 'img' || el.tag === 'rt') return ''
+  const text = flattenStructuredContent(el.content)
+  return el.tag === 'li' || el.tag === 'div' || el.tag === 'br' ? `${text}\n` : text
+}
+
+interface StarDictFile {
+  name: string
+  read: () => Promise<Uint8Array>
+}
+
+async function importStarDict(files: StarDictFile[]): Promise<DictionaryInfo> {
+  const find = (re: RegExp) => files.find((f) => re.test(f.name.toLowerCase()))
+  const ifoFile = find(/\.ifo$/)
+  const idxFile = find(/\.idx$/)
+  const dictFile = find(/\.dict(\.dz)?$/) ?? find(/\.dz$/)
+  if (!ifoFile || !idxFile || !dictFile) {
+    throw new Error('A StarDict dictionary needs its .ifo, .idx and .dict (or .dict.dz) files together.')
+  }
+
+  const info = parseStarDictInfo(new TextDecoder().decode(await ifoFile.read()))
+  const idx = await idxFile.read()
+  let dict = await dictFile.read()
+  if (dictFile.name.toLowerCase().endsWith('.dz')) {
+    dict = await withReadError('Could not decompress the StarDict .dict.dz file.', () => gunzip(dict))
+  }
+
+  const offsetBits = info.get('idxoffsetbits') === '64' ? 64 : 32
+  const sequence = info.get('sametypesequence') ?? ''
+  const decoder = new TextDecoder()
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength)
+  const entries: ParsedEntry[] = []
+
+  let pos = 0
+  while (pos < idx.length) {
+    const end = idx.indexOf(0, pos)
+    if (end < 0) break
+    const headword = decoder.decode(idx.subarray(pos, end))
+    pos = end + 1
+    const offset = offsetBits === 64 ? Number(view.getBigUint64(pos)) : view.getUint32(pos)
+    pos += offsetBits / 8
+    const size = view.getUint32(pos)
+    pos += 4
+
+    const fields = readStarDictFields(dict.subarray(offset, offset + size), sequence)
+    const reading = fields.find((f) => f.type === 't')?.text
+    const definitions = fields.filter((f) => f.type !== 't').map((f) => f.text).filter(Boolean)
+    if (headword && definitions.length > 0) entries.push({ headword, reading, definitions })
+  }
+
+  return saveDictionary(info.get('bookname') ?? ifoFile.name.replace(/\.ifo$/i, ''), 'stardict', entries)
+}
+
+function parseStarDictInfo(text: string): Map<string, string> {
+  const info = new Map<string, string>()
+  for (const line of text.split(/\r?\n/)) {
+    const at = line.indexOf('=')
+    if (at > 0) info.set(line.slice(0, at).trim(), line.slice(at + 1).trim())
+  }
+  if (info.size === 0) {
+    throw new Error('The StarDict .ifo file is empty or unreadable.')
+  }
+  return info
+}
+
+/**
+ * Splits one StarDict article into typed fields. Lower-case types are text
+ * (NUL-terminated unless last), upper-case types are binary (size-prefixed);
+ * with `sametypesequence` the type bytes are omitted.
+ */
+export function readStarDictFields(data: Uint8Array, sequence: string): { type: string; text: string }[] {
+  const decoder = new TextDecoder()
+  const fields: { type: string; text: string }[] = []
+  let pos = 0
+  let i = 0
+
+  while (pos < data.length && (!sequence || i < sequence.length)) {
+    const type = sequence ? sequence[i] : String.fromCharCode(data[pos++])
+    const isLast = sequence ? i === sequence.length - 1 : false
+    i += 1
+
+    if (type === type.toLowerCase()) {
+      const nul = data.indexOf(0, pos)
+      const end = isLast || nul < 0 ? data.length : nul
+      const raw = decoder.decode(data.subarray(pos, end))
+      pos = end + 1
+      fields.push({ type, text: /[ghx]/.test(type) ? stripMarkup(raw) : raw.trim() })
+    } else {
+      const size = isLast ? data.length - pos : new DataView(data.buffer, data.byteOffset + pos, 4).getUint32(0)
+      pos += (isLast ? 0 : 4) + size
+    }
+  }
+
+  return fields
+}
+
+function stripMarkup(markup: string): string {
+  const doc = new DOMParser().parseFromString(markup.replace(/<br\s*\/?>/gi, '\n'), 'text/html')
+  return (doc.body.textContent ?? '').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/** Runs a third-party parser, replacing whatever it throws with `message` and keeping that as the cause. */
+async function withReadError<T>(message: string, read: () => T | Promise<T>): Promise<T> {
+  try {
+    return await read()
+  } catch (error) {
+    throw new Error(message, { cause: error })
+  }
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
@@ -0,0 +1,54 @@
+import { DICTIONARY_ACCEPT, type DictionaryInfo } from './dictionary'
+
+interface DictionaryPanelProps {
+  dictionaries: DictionaryInfo[]
+  /** Progress or outcome of the last import or deletion. */
+  status: string | null
+  onAdd: (files: File[]) => void
+  onRemove: (info: DictionaryInfo) => void
+}
+
+/** The installed dictionaries, with adding and deleting them. */
+export function DictionaryPanel({ dictionaries, status, onAdd, onRemove }: DictionaryPanelProps) {
+  return (
+    <div id="dictionaries-panel" className="dictionaryPanel" aria-label="Dictionaries">
+      {dictionaries.length > 0 ? (
+        <ul className="dictionaryList">
+          {dictionaries.map((info) => (
+            <li key={info.id} className="dictionaryItem">
+              <span>
+                {info.title}{' '}
+                <span className="muted">{info.format} · {info.entryCount.toLocaleString()} entries</span>
+              </span>
+              <button type="button" className="btn" onClick={() => onRemove(info)}>
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="muted">No dictionaries yet. Once one is added, tap or long-press a word to look it up.</p>
+      )}
+      <div className="dictionaryActions">
+        <label className="btn pillFile" title="Glossary (.tsv), StarDict (.ifo + .idx + .dict) or Yomitan (.zip)">
+          Add dictionary…
+          <input
+            type="file"
+            multiple
+            accept={DICTIONARY_ACCEPT}
+            onChange={(e) => {
+              const files = Array.from(e.currentTarget.files ?? [])
+              e.currentTarget.value = ''
+              if (files.length > 0) onAdd(files)
+            }}
+          />
+        </label>
+        {status ? (
+          <span className="muted" aria-live="polite">
+            {status}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  )
+}
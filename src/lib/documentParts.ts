@@ -0,0 +1,64 @@
+/** Pieces shared by the per-format extractors. */
+
+export type ZipArchive = Awaited<ReturnType<typeof loadZipArchive>>
+
+/** A section located within one extracted part (PDF page, EPUB spine item). */
+export interface PartSection {
+  title: string
+  level: number
+  part: number
+  wordOffsetInPart: number
+}
+
+/** A document as a list of parts, each read on its own, with the sections found in them. */
+export interface ExtractedParts {
+  parts: string[]
+  sections: PartSection[]
+}
+
+export function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/** Decodes bytes as UTF-8 unless the document declares another charset that `TextDecoder` knows. */
+export function decodeWithDeclaredCharset(buffer: ArrayBuffer, declaration: RegExp): string {
+  const head = new TextDecoder('latin1').decode(buffer.slice(0, 2048))
+  const charset = declaration.exec(head)?.[1]?.toLowerCase()
+  if (charset && charset !== 'utf-8' && charset !== 'utf8') {
+    try {
+      return new TextDecoder(charset).decode(buffer)
+    } catch {
+      // Unknown label; fall through to UTF-8
+    }
+  }
+  return new TextDecoder('utf-8').decode(buffer)
+}
+
+export function parseXml(text: string, label: string): XMLDocument {
+  const parser = new DOMParser()
+  let doc: XMLDocument
+  try {
+    doc = parser.parseFromString(text, 'application/xml')
+  } catch (error) {
+    // Browsers report malformed XML inside the document; the worker's xmldom parser throws
+    throw new Error(`Could not parse ${label}.`, { cause: error })
+  }
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Could not parse ${label}.`)
+  }
+  return doc
+}
+
+export function findElementsByLocalName(root: XMLDocument | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName('*')).filter((element) => element.localName === localName)
+}
+
+export async function loadZipArchive(file: File) {
+  const { default: JSZip } = await import('jszip')
+  return JSZip.loadAsync(await file.arrayBuffer())
+}
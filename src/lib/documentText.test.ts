@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { createPdfCleanup, groupPdfRows, type PdfPageText, type PdfTextFragment } from './documentText'
+
+const FONT_SIZE = 10
+const LINE_HEIGHT = 12
+const CHAR_WIDTH = 5
+const PAGE_TOP = 800
+
+function fragment(text: string, x: number, y: number): PdfTextFragment {
+  return { text, x, y, width: text.length * CHAR_WIDTH, height: FONT_SIZE, rtl: false }
+}
+
+/** A single-column page with one line per entry, top to bottom. */
+function page(number: number, lines: string[]): PdfPageText {
+  return pageOf(number, lines.map((line, i) => fragment(line, 0, PAGE_TOP - i * LINE_HEIGHT)))
+}
+
+function pageOf(number: number, fragments: PdfTextFragment[]): PdfPageText {
+  const rows = groupPdfRows(fragments)
+  return { page: number, text: rows.map((row) => row.text).join('\n'), rows }
+}
+
+function clean(pages: PdfPageText[]): string[] {
+  const cleanup = createPdfCleanup(true)
+  const ready = pages.flatMap((p) => cleanup.addPage(p))
+  return [...ready, ...cleanup.flush()].map((p) => p.text)
+}
+
+describe('createPdfCleanup', () => {
+  it('drops headers repeated on nearby pages and bare page numbers', () => {
+    const bodies = ['Alpha opens.', 'Beta follows.', 'Gamma turns.', 'Delta waits.', 'Epsilon ends.']
+    const pages = bodies.map((body, i) => page(i + 1, ['A Study of Things', body, String(i + 1)]))
+    expect(clean(pages)).toEqual(bodies)
+  })
+
+  it('drops roman page numbers but keeps edge words made of the same letters', () => {
+    const pages = [
+      page(1, ['Preface opens here.', 'And carries on.', 'xiv']),
+      page(2, ['The civic centre', 'Body text.', 'Civic']),
+      page(3, ['Body text.', 'More text.', 'ill']),
+    ]
+    expect(clean(pages)).toEqual([
+      'Preface opens here.\nAnd carries on.',
+      'The civic centre\nBody text.\nCivic',
+      'Body text.\nMore text.\nill',
+    ])
+  })
+
+  it('joins words split to fit the line and keeps compounds the document uses', () => {
+    const [text] = clean([
+      page(1, ['It is well known that recog-', 'nition takes time; a well-', 'known fact.', 'The end.']),
+    ])
+    expect(text).toBe('It is well known that recognition takes time; a well-known fact.\nThe end.')
+  })
+
+  it('carries a word hyphenated at the end of a page over to the next', () => {
+    const [first, second] = clean([
+      page(1, ['This page holds some', 'infor-']),
+      page(2, ['mation about the', 'topic at hand.']),
+    ])
+    expect(first).toBe('This page holds some')
+    expect(second).toBe('information about the\ntopic at hand.')
+  })
+
+  it('reads two columns in turn, after a heading that spans them', () => {
+    const fragments = [fragment('A heading that spans both of the columns', 0, PAGE_TOP)]
+    for (let i = 1; i <= 10; i += 1) {
+      const y = PAGE_TOP - (i + 1) * LINE_HEIGHT
+      fragments.push(fragment(`Left ${i} aaaaaaaaaaaaaaaaaaaaaaaaaaaaa`, 0, y))
+      fragments.push(fragment(`Right ${i} bbbbbbbbbbbbbbbbbbbbbbbbbbbb`, 260, y))
+    }
+    const [text] = clean([pageOf(1, fragments)])
+    const lines = text.split('\n').filter(Boolean)
+    expect(lines[0]).toBe('A heading that spans both of the columns')
+    expect(lines.slice(1).map((line) => line.split(' ').slice(0, 2).join(' '))).toEqual([
+      ...Array.from({ length: 10 }, (_, i) => `Left ${i + 1}`),
+      ...Array.from({ length: 10 }, (_, i) => `Right ${i + 1}`),
+    ])
+  })
+})
@@ -1,31 +1,324 @@
-export const SUPPORTED_DOCUMENT_ACCEPT =
-  '.txt,text/plain,.pdf,application/pdf,.epub,application/epub+zip'
+import {
+  decodeWithDeclaredCharset,
+  findElementsByLocalName,
+  loadZipArchive,
+  normalizeExtractedText,
+  parseXml,
+  type ExtractedParts,
+  type PartSection,
+  type ZipArchive,
+} from './documentParts'
+import { extractTextFromDocx } from './docx'
+import { extractTextFromFb2 } from './fb2'
+import { extractPartsFromMarkdown } from './markdown'
+import { createOcrEngine, DEFAULT_OCR_LANGUAGE, type OcrEngine, type OcrResult } from './ocr'
+import { extractTextFromRtf } from './rtf'
+import { splitIntoWords } from './text'
 
-export const SUPPORTED_DOCUMENT_LABEL = '.txt, .pdf, or .epub'
+export const SUPPORTED_DOCUMENT_ACCEPT = [
+  '.txt,text/plain',
+  '.pdf,application/pdf',
+  '.epub,application/epub+zip',
+  '.html,.htm,text/html',
+  '.md,.markdown,text/markdown',
+  '.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.fb2,application/x-fictionbook+xml',
+  '.rtf,application/rtf,text/rtf',
+].join(',')
+
+export const SUPPORTED_DOCUMENT_LABEL = '.txt, .pdf, .epub, .html, .md, .docx, .fb2, or .rtf'
 
 const EPUB_CONTAINER_PATH = 'META-INF/container.xml'
+const EPUB_OPS_NAMESPACE = 'http://www.idpf.org/2007/ops'
+// Shortest gap between partial documents handed to `onPartial`; each one re-lays out the whole text
+const PARTIAL_INTERVAL_MS = 1500
+// Markup-based formats need the DOMParser that workerDom.ts installs in the extraction worker
+const WORKER_EXTENSIONS = new Set(['txt', 'pdf', 'epub', 'html', 'htm', 'xhtml', 'md', 'markdown', 'docx', 'fb2', 'rtf'])
+// PDF pages with fewer words than this in their text layer are treated as scans
+const OCR_MIN_PAGE_WORDS = 3
+const OCR_RENDER_DPI = 300
+// Caps a rendered page (large-format scans at 300 dpi) to keep recognition memory in check
+const OCR_MAX_PIXELS = 12_000_000
+// Header and footer rows count as repeated when they recur within this many pages either side (4 catches
+// headers that alternate between left and right pages at the start of a document)
+const PDF_HEADER_WINDOW = 4
+const PDF_EDGE_ROWS = 2
+const PDF_CLEANUP_SAMPLES = 3
+// Tolerances in multiples of the font size
+const PDF_ROW_TOLERANCE = 0.5
+const PDF_WORD_GAP = 0.15
+const PDF_PARAGRAPH_GAP = 1.7
+// Column gutters: width in PDF units, share of rows allowed to cross them, rows each column must hold
+const PDF_GUTTER_BIN = 2
+const PDF_GUTTER_MIN_WIDTH = 8
+const PDF_GUTTER_MAX_CROSSING = 0.1
+const PDF_COLUMN_MIN_ROWS = 4
+// Roman numerals up to 399, for front matter; other words made of those letters (“civic”, “ill”) are text
+const ROMAN_NUMERAL_RE = /(?=[ivxlc])c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})/
+const PDF_PAGE_NUMBER_RE = new RegExp(
+  String.raw`^(?:page\s+)?[-–—([]?\s*(?:\d+|${ROMAN_NUMERAL_RE.source})\s*[-–—)\]]?(?:\s*(?:of|/)\s*\d+)?$`,
+  'i'
+)
+// A word broken at a line end; the lookahead keeps the continuation in place for the next match
+const HYPHENATED_LINE_END_RE = /(\p{L}+)([-\u00AD\u2010])\n+(?=(\p{Ll}\p{L}*))/gu
+// The same break matched whole, so neither half is taken for a word of its own
+const HYPHENATED_WORD_RE = /\p{L}+[-\u00AD\u2010]\n+\p{L}+/gu
+// Both parts of a line-end hyphen at least this long, and both seen as words, mark a compound
+const COMPOUND_PART_MIN_LETTERS = 3
+const VOCABULARY_WORD_RE = /\p{L}+(?:-\p{L}+)*/gu
+const TRAILING_HYPHENATED_RE = /\S*\p{L}[-\u00AD\u2010]$/u
+const ANCHOR_MARKER_RE = /\uE000(\d+)\uE001/g
+const MARKUP_BLOCK_SELECTOR = [
+  'p, div, section, article, header, footer, aside, main, nav, blockquote, pre, figure, figcaption',
+  'ul, ol, dl, table, h1, h2, h3, h4, h5, h6, hr',
+].join(', ')
+const MARKUP_LINE_SELECTOR = 'li, dt, dd, tr, br'
 let pdfWorkerConfigured = false
-type ZipArchive = Awaited<ReturnType<typeof loadZipArchive>>
+type PdfDocument = Awaited<ReturnType<typeof import('pdfjs-dist').getDocument>['promise']>
+type PdfOutlineNode = Awaited<ReturnType<PdfDocument['getOutline']>>[number]
+type PdfPage = Awaited<ReturnType<PdfDocument['getPage']>>
+type PdfTextContentItem = Awaited<ReturnType<PdfPage['getTextContent']>>['items'][number]
+
+export interface DocumentSection {
+  title: string
+  /** Index into `splitIntoWords(text)` of the section's first word. */
+  wordOffset: number
+  /** Nesting depth in the table of contents, 0 for top-level entries. */
+  level: number
+}
+
+/** A PDF page whose text came from OCR rather than a text layer. */
+export interface OcrPage {
+  page: number
+  /** Index into `splitIntoWords(text)` of the page's first word. */
+  wordStart: number
+  /** Index just past the page's last word. */
+  wordEnd: number
+  /** Tesseract's confidence in the page, 0–100. */
+  confidence: number
+}
+
+/** One PDF page before and after cleanup, for the preview. */
+export interface PdfCleanupSample {
+  page: number
+  before: string
+  after: string
+}
+
+export interface ExtractedDocument {
+  text: string
+  sections: DocumentSection[]
+  /** Pages read by OCR; absent when every page had a text layer. */
+  ocrPages?: OcrPage[]
+  /** The first few PDF pages that cleanup changes, whether or not it was applied. */
+  pdfCleanupPreview?: PdfCleanupSample[]
+}
+
+/** How far extraction has got: pages of a PDF, content files of an EPUB. */
+export interface ExtractionProgress {
+  done: number
+  total: number
+  unit: 'page' | 'section'
+  /** Set while a page without a text layer is being recognized. */
+  recognizing?: boolean
+}
+
+export interface ExtractionOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: ExtractionProgress) => void
+  /** The document read so far, for formats extracted part by part; called at most every 1.5 s. */
+  onPartial?: (document: ExtractedDocument) => void
+  /** Tesseract language for PDF pages without a text layer. */
+  ocrLanguage?: string
+  /** Strip running headers and footers, rejoin hyphenated words and order columns in PDFs; on by default. */
+  pdfCleanup?: boolean
+}
+
+/** A run of text on a PDF page, in PDF units (y grows upwards). */
+export interface PdfTextFragment {
+  text: string
+  x: number
+  y: number
+  width: number
+  /** Font size. */
+  height: number
+  rtl: boolean
+}
+
+/** Fragments sharing a baseline, in reading order. OCR rows have text only, with `y` and `height` 0. */
+interface PdfTextRow {
+  text: string
+  fragments: PdfTextFragment[]
+  y: number
+  height: number
+}
+
+export interface PdfPageText {
+  page: number
+  /** The page's text as read, before cleanup. */
+  text: string
+  /** Top to bottom. */
+  rows: PdfTextRow[]
+  ocr?: { page: number; confidence: number }
+}
+
+interface MarkupOptions {
+  /** Element ids whose word offsets should be reported (table-of-contents fragments). */
+  anchorIds?: string[]
+  /** Report h1–h3 headings as sections. */
+  headings?: boolean
+  /** Separate block elements with paragraph breaks, for markup that is not whitespace-formatted. */
+  blockBreaks?: boolean
+}
+
+interface MarkupText {
+  text: string
+  title: string
+  anchorOffsets: Map<string, number>
+  headings: { title: string; level: number; wordOffset: number }[]
+}
+
+interface EpubTocEntry {
+  title: string
+  level: number
+  path: string
+  fragment: string
+}
+
+/** Whether `filename` is a format the extraction worker reads. */
+export function canExtractInWorker(filename: string): boolean {
+  return WORKER_EXTENSIONS.has(getFileExtension(filename))
+}
 
-export async function extractTextFromDocument(file: File): Promise<string> {
+export async function extractTextFromDocument(file: File, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
   const extension = getFileExtension(file.name)
 
   if (extension === 'txt') {
-    return normalizeExtractedText(await file.text())
+    return { text: normalizeExtractedText(await file.text()), sections: [] }
   }
 
   if (extension === 'pdf') {
-    return normalizeExtractedText(await extractTextFromPdf(file))
+    return extractTextFromPdf(file, options)
   }
 
   if (extension === 'epub') {
-    return normalizeExtractedText(await extractTextFromEpub(file))
+    return extractTextFromEpub(file, options)
+  }
+
+  if (extension === 'html' || extension === 'htm' || extension === 'xhtml') {
+    return extractTextFromHtml(file)
+  }
+
+  if (extension === 'md' || extension === 'markdown') {
+    return assembleDocument(extractPartsFromMarkdown(await file.text()))
+  }
+
+  if (extension === 'docx') {
+    return assembleDocument(await extractTextFromDocx(file))
+  }
+
+  if (extension === 'fb2') {
+    return assembleDocument(await extractTextFromFb2(file))
+  }
+
+  if (extension === 'rtf') {
+    return { text: normalizeExtractedText(await extractTextFromRtf(file)), sections: [] }
   }
 
   throw new Error(`Unsupported file type. Choose ${SUPPORTED_DOCUMENT_LABEL}.`)
 }
 
-async function extractTextFromPdf(file: File): Promise<string> {
+/** Joins extracted parts with paragraph breaks and turns part-relative section positions into word offsets. */
+function assembleDocument({ parts, sections }: ExtractedParts): ExtractedDocument {
+  const assembler = createDocumentAssembler(sections)
+  for (const part of parts) assembler.addPart(part)
+  return assembler.build()
+}
+
+/**
+ * `assembleDocument` one part at a time, so the document read so far can be
+ * shown while the rest is extracted. Sections pointing at parts not added
+ * yet are left out until they arrive.
+ */
+function createDocumentAssembler(initialSections: PartSection[] = []) {
+  const kept: string[] = []
+  const partOffsets: number[] = []
+  const sections = [...initialSections]
+  const ocrParts: { part: number; page: number; confidence: number }[] = []
+  let wordCount = 0
+
+  return {
+    get partCount() {
+      return partOffsets.length
+    },
+    addPart(text: string, partSections: PartSection[] = [], ocr?: { page: number; confidence: number }) {
+      const part = normalizeExtractedText(text)
+      if (ocr) ocrParts.push({ part: partOffsets.length, ...ocr })
+      partOffsets.push(wordCount)
+      sections.push(...partSections)
+      if (!part) return
+      kept.push(part)
+      wordCount += splitIntoWords(part).length
+    },
+    build(): ExtractedDocument {
+      const seen = new Set<string>()
+      const resolved: DocumentSection[] = []
+      for (const section of sections) {
+        const title = section.title.replace(/\s+/g, ' ').trim()
+        const base = partOffsets[section.part]
+        if (!title || base === undefined || wordCount === 0) continue
+        const wordOffset = Math.min(base + section.wordOffsetInPart, wordCount - 1)
+        const key = `${wordOffset}:${title}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        resolved.push({ title, wordOffset, level: section.level })
+      }
+
+      resolved.sort((a, b) => a.wordOffset - b.wordOffset)
+      const ocrPages: OcrPage[] = []
+      for (const { part, page, confidence } of ocrParts) {
+        const wordStart = partOffsets[part]
+        const wordEnd = partOffsets[part + 1] ?? wordCount
+        if (wordEnd > wordStart) ocrPages.push({ page, wordStart, wordEnd, confidence })
+      }
+
+      const document: ExtractedDocument = { text: kept.join('\n\n'), sections: resolved }
+      if (ocrPages.length) document.ocrPages = ocrPages
+      return document
+    },
+  }
+}
+
+type DocumentAssembler = ReturnType<typeof createDocumentAssembler>
+
+/** Hands the document so far to `onPartial`, at most every `PARTIAL_INTERVAL_MS` and only once it has text. */
+function createPartialReporter(assembler: DocumentAssembler, onPartial: ExtractionOptions['onPartial']) {
+  let lastReportAt = 0
+  return () => {
+    const now = Date.now()
+    if (!onPartial || now - lastReportAt < PARTIAL_INTERVAL_MS) return
+    const partial = assembler.build()
+    if (partial.text === '') return
+    lastReportAt = now
+    onPartial(partial)
+  }
+}
+
+/** Lets the page repaint (and a cancel click land) between parts read on the main thread. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+/**
+ * Reads each page's text layer; pages without one (scans) are rendered and
+ * run through OCR, so only the pages that need it pay for recognition. Every
+ * page then goes through the cleanup stage, which `pdfCleanup` applies or
+ * only previews.
+ */
+async function extractTextFromPdf(
+  file: File,
+  { signal, onProgress, onPartial, ocrLanguage = DEFAULT_OCR_LANGUAGE, pdfCleanup = true }: ExtractionOptions
+): Promise<ExtractedDocument> {
   const pdfjs = await import('pdfjs-dist')
   if (!pdfWorkerConfigured) {
     const { default: pdfWorkerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url')
@@ -34,37 +327,431 @@ async function extractTextFromPdf(file: File): Promise<string> {
   }
 
   const bytes = await file.arrayBuffer()
-  const loadingTask = pdfjs.getDocument({ data: bytes })
+  const inWorker = typeof document === 'undefined'
+  const loadingTask = pdfjs.getDocument({
+    data: bytes,
+    // Workers have neither DOM canvases nor document fonts; pages are drawn with glyph outlines instead
+    ...(inWorker ? { CanvasFactory: OffscreenCanvasFactory, disableFontFace: true } : {}),
+  })
+  let ocr: Promise<OcrEngine> | null = null
+  let ocrFailed = false
+  let extracted: ExtractedDocument
 
   try {
     const pdf = await loadingTask.promise
-    const pages: string[] = []
+    // The outline comes first so chapters show up as soon as their pages do
+    const assembler = createDocumentAssembler(await getPdfOutlineSections(pdf))
+    const reportPartial = createPartialReporter(assembler, onPartial)
+    const cleanup = createPdfCleanup(pdfCleanup)
+    const addPages = (pages: ReturnType<typeof cleanup.flush>) => {
+      for (const { text, ocr } of pages) assembler.addPart(text, [], ocr)
+    }
 
     for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+      signal?.throwIfAborted()
       const page = await pdf.getPage(pageNumber)
-      const textContent = await page.getTextContent()
-      const parts: string[] = []
-
-      for (const item of textContent.items) {
-        if (!('str' in item) || typeof item.str !== 'string') continue
-        const text = item.str.trim()
-        if (text) parts.push(text)
-        if (item.hasEOL) parts.push('\n')
+      const { items } = await page.getTextContent()
+      const text = joinPdfTextItems(items)
+      const rows = groupPdfRows(getPdfTextFragments(items))
+
+      if (ocrFailed || splitIntoWords(text).length >= OCR_MIN_PAGE_WORDS) {
+        addPages(cleanup.addPage({ page: pageNumber, text, rows }))
+      } else {
+        onProgress?.({ done: pageNumber - 1, total: pdf.numPages, unit: 'page', recognizing: true })
+        try {
+          ocr ??= createOcrEngine(ocrLanguage)
+          const result = await recognizePdfPage(page, await ocr)
+          addPages(
+            cleanup.addPage({
+              page: pageNumber,
+              text: result.text,
+              rows: result.text.split('\n').map((line) => ({ text: line.trim(), fragments: [], y: 0, height: 0 })),
+              ocr: { page: pageNumber, confidence: result.confidence },
+            })
+          )
+        } catch {
+          // Keep whatever text layer the page has and stop trying; the rest of the document still loads
+          signal?.throwIfAborted()
+          ocrFailed = true
+          addPages(cleanup.addPage({ page: pageNumber, text, rows }))
+        }
       }
 
-      pages.push(parts.join(' '))
       page.cleanup()
+      onProgress?.({ done: pageNumber, total: pdf.numPages, unit: 'page' })
+      reportPartial()
     }
 
-    return pages.join('\n\n')
-  } catch {
-    throw new Error('Could not read text from this PDF.')
+    addPages(cleanup.flush())
+    extracted = assembler.build()
+    if (cleanup.samples.length) extracted.pdfCleanupPreview = cleanup.samples
+  } catch (error) {
+    signal?.throwIfAborted()
+    throw toPdfError(error)
   } finally {
     void loadingTask.destroy()
+    void ocr?.then((engine) => engine.terminate()).catch(() => {})
+  }
+
+  if (ocrFailed && !extracted.text) {
+    throw new Error(
+      'Could not recognize text in this scanned PDF. Each OCR language needs a connection the first time it is used.'
+    )
+  }
+  return extracted
+}
+
+/**
+ * A user-facing error for a failed PDF read, keeping pdf.js's own error as the
+ * cause. pdf.js names its exceptions rather than exporting every class.
+ */
+function toPdfError(error: unknown): Error {
+  switch (error instanceof Error ? error.name : '') {
+    case 'PasswordException':
+      return new Error('This PDF is password-protected. Remove the password and open it again.', { cause: error })
+    case 'InvalidPDFException':
+      return new Error('This file is not a valid PDF, or it is damaged.', { cause: error })
+    case 'AbortException':
+      // The loading task was destroyed before the document finished opening
+      return new DOMException('Reading this PDF was cancelled.', 'AbortError')
+    default:
+      return new Error('Could not read text from this PDF.', { cause: error })
+  }
+}
+
+/** A page's text layer as pdf.js orders it, one line per `hasEOL`. */
+function joinPdfTextItems(items: PdfTextContentItem[]): string {
+  const parts: string[] = []
+  for (const item of items) {
+    if (!('str' in item) || typeof item.str !== 'string') continue
+    const text = item.str.trim()
+    if (text) parts.push(text)
+    if (item.hasEOL) parts.push('\n')
+  }
+  return parts.join(' ')
+}
+
+function getPdfTextFragments(items: PdfTextContentItem[]): PdfTextFragment[] {
+  const fragments: PdfTextFragment[] = []
+  for (const item of items) {
+    if (!('str' in item) || typeof item.str !== 'string' || !item.str.trim()) continue
+    const [, , c, d, x, y] = item.transform as number[]
+    const height = item.height || Math.hypot(c, d)
+    fragments.push({ text: item.str, x, y, width: item.width, height, rtl: item.dir === 'rtl' })
+  }
+  return fragments
+}
+
+/**
+ * Cleans PDF pages as they arrive: drops running headers and footers (edge
+ * rows that recur on nearby pages, and bare page numbers), puts columns in
+ * reading order and rejoins words hyphenated across lines and pages. Repeats
+ * are judged against `PDF_HEADER_WINDOW` pages either side, so each page is
+ * handed back that many pages late. With `enabled` off, pages keep the text
+ * they were read with and the cleaned text only feeds `samples`.
+ */
+export function createPdfCleanup(enabled: boolean) {
+  const pending: PdfPageText[] = []
+  const edgeKeys: Set<string>[] = []
+  const samples: PdfCleanupSample[] = []
+  let released = 0
+  // The hyphenated start of a word that continues on the next page
+  let carry = ''
+  // Words seen so far, for telling compounds like “well-known” from words split to fit the line
+  const vocabulary = new Set<string>()
+
+  const isRepeated = (index: number, row: PdfTextRow) => {
+    if (PDF_PAGE_NUMBER_RE.test(row.text)) return true
+    const key = getPdfRowKey(row.text)
+    if (!key) return false
+    let count = 0
+    for (let i = Math.max(0, index - PDF_HEADER_WINDOW); i <= index + PDF_HEADER_WINDOW; i += 1) {
+      if (i !== index && edgeKeys[i]?.has(key)) count += 1
+    }
+    return count >= 2
+  }
+
+  const release = () => {
+    const index = released
+    released += 1
+    const page = pending.shift()!
+    const dropped = new Set(getPdfEdgeRows(page.rows).filter((row) => isRepeated(index, row)))
+    let cleaned = layOutPdfRows(page.rows.filter((row) => !dropped.has(row)))
+    if (carry) cleaned = `${carry}\n${cleaned}`
+    addPdfVocabulary(cleaned, vocabulary)
+    cleaned = normalizeExtractedText(rejoinHyphenatedLines(cleaned, vocabulary))
+    carry = ''
+    const trailing = pending.length > 0 ? TRAILING_HYPHENATED_RE.exec(cleaned) : null
+    if (trailing) {
+      carry = trailing[0]
+      cleaned = cleaned.slice(0, trailing.index).trimEnd()
+    }
+
+    const before = normalizeExtractedText(page.text)
+    if (samples.length < PDF_CLEANUP_SAMPLES && before.replace(/\s+/g, ' ') !== cleaned.replace(/\s+/g, ' ')) {
+      samples.push({ page: page.page, before, after: cleaned })
+    }
+    return { text: enabled ? cleaned : page.text, ocr: page.ocr }
+  }
+
+  return {
+    samples,
+    /** Takes the next page; returns the pages that are now ready, in order. */
+    addPage(page: PdfPageText) {
+      edgeKeys.push(new Set(getPdfEdgeRows(page.rows).map((row) => getPdfRowKey(row.text))))
+      pending.push(page)
+      const ready = []
+      while (pending.length > PDF_HEADER_WINDOW) ready.push(release())
+      return ready
+    },
+    /** Returns the pages still held back, once the last page is in. */
+    flush() {
+      const ready = []
+      while (pending.length > 0) ready.push(release())
+      return ready
+    },
+  }
+}
+
+/** Adds the words of `text` to `vocabulary`, lowercased, leaving out the halves of line-end hyphenations. */
+function addPdfVocabulary(text: string, vocabulary: Set<string>) {
+  const unbroken = text.replace(HYPHENATED_WORD_RE, ' ')
+  for (const [word] of unbroken.matchAll(VOCABULARY_WORD_RE)) {
+    const lower = word.toLowerCase()
+    vocabulary.add(lower)
+    if (lower.includes('-')) for (const part of lower.split('-')) vocabulary.add(part)
+  }
+}
+
+/**
+ * Joins words hyphenated across lines. A hard hyphen stays when the document
+ * writes the word with it elsewhere, or when both parts are words it uses on
+ * their own and the joined form never appears: “well-\nknown” stays
+ * hyphenated while “recog-\nnition” becomes one word. Soft hyphens always join.
+ */
+function rejoinHyphenatedLines(text: string, vocabulary: Set<string>): string {
+  return text.replace(HYPHENATED_LINE_END_RE, (_match, head: string, hyphen: string, tail: string) => {
+    if (hyphen === '\u00AD') return head
+    const joined = `${head}${tail}`.toLowerCase()
+    if (vocabulary.has(joined)) return head
+    if (vocabulary.has(`${head}-${tail}`.toLowerCase())) return `${head}-`
+    const isCompound = [head, tail].every(
+      (part) => part.length >= COMPOUND_PART_MIN_LETTERS && vocabulary.has(part.toLowerCase())
+    )
+    return isCompound ? `${head}-` : head
+  })
+}
+
+/** The top and bottom rows with text, where running headers and footers sit. */
+function getPdfEdgeRows(rows: PdfTextRow[]): PdfTextRow[] {
+  const filled = rows.filter((row) => row.text)
+  if (filled.length <= PDF_EDGE_ROWS * 2) return filled
+  return [...filled.slice(0, PDF_EDGE_ROWS), ...filled.slice(-PDF_EDGE_ROWS)]
+}
+
+/** Compares rows regardless of case and numbers, so “Chapter 2 · 41” matches “Chapter 2 · 43”. */
+function getPdfRowKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()
+}
+
+/** Groups fragments into rows by baseline, top to bottom. */
+export function groupPdfRows(fragments: PdfTextFragment[]): PdfTextRow[] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x)
+  const rows: PdfTextRow[] = []
+  for (const fragment of sorted) {
+    const row = rows.at(-1)
+    if (row && row.y - fragment.y <= Math.max(row.height, fragment.height) * PDF_ROW_TOLERANCE) {
+      row.fragments.push(fragment)
+      row.height = Math.max(row.height, fragment.height)
+    } else {
+      rows.push({ text: '', fragments: [fragment], y: fragment.y, height: fragment.height })
+    }
   }
+  for (const row of rows) row.text = joinPdfFragments(row.fragments)
+  return rows
 }
 
-async function extractTextFromEpub(file: File): Promise<string> {
+/** Joins a row's fragments in reading order, adding spaces only where the fragments are apart. */
+function joinPdfFragments(fragments: PdfTextFragment[]): string {
+  const rtl = fragments.filter((f) => f.rtl).length * 2 > fragments.length
+  const ordered = [...fragments].sort((a, b) => (rtl ? b.x - a.x : a.x - b.x))
+  let text = ''
+  let previous: PdfTextFragment | null = null
+  for (const fragment of ordered) {
+    if (previous && !/\s$/.test(text) && !/^\s/.test(fragment.text)) {
+      const gap = rtl ? previous.x - (fragment.x + fragment.width) : fragment.x - (previous.x + previous.width)
+      if (gap > fragment.height * PDF_WORD_GAP) text += ' '
+    }
+    text += fragment.text
+    previous = fragment
+  }
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Text of a page's rows in reading order: each column top to bottom, left to
+ * right (right to left for RTL text). Rows that cross the column gap, such
+ * as headings spanning the page, cut the columns into bands read in turn.
+ */
+function layOutPdfRows(rows: PdfTextRow[]): string {
+  const fragments = rows.flatMap((row) => row.fragments)
+  if (fragments.length === 0) return rows.map((row) => row.text).join('\n')
+
+  const gutters = findPdfColumnGutters(fragments, rows.length)
+  if (gutters.length === 0) return joinPdfRows(rows)
+
+  const columns: PdfTextFragment[][] = Array.from({ length: gutters.length + 1 }, () => [])
+  const spanning: PdfTextFragment[] = []
+  for (const fragment of fragments) {
+    // Lines of the left column may run into a gutter; only text that crosses it spans the columns
+    const end = fragment.x + fragment.width
+    const center = fragment.x + fragment.width / 2
+    if (gutters.some((g) => fragment.x < g.start && end > g.end)) spanning.push(fragment)
+    else columns[gutters.filter((g) => (g.start + g.end) / 2 < center).length].push(fragment)
+  }
+  if (fragments.filter((f) => f.rtl).length * 2 > fragments.length) columns.reverse()
+
+  const spanningRows = groupPdfRows(spanning)
+  const bandOf = (fragment: PdfTextFragment) => spanningRows.filter((row) => row.y > fragment.y).length
+  const blocks: string[] = []
+  for (let band = 0; band <= spanningRows.length; band += 1) {
+    const columnText = columns
+      .map((column) => joinPdfRows(groupPdfRows(column.filter((f) => bandOf(f) === band))))
+      .filter(Boolean)
+    if (columnText.length) blocks.push(columnText.join('\n'))
+    if (band < spanningRows.length) blocks.push(spanningRows[band].text)
+  }
+  return blocks.join('\n\n')
+}
+
+/** One line per row, with a blank line where the gap above a row is wide enough to start a paragraph. */
+function joinPdfRows(rows: PdfTextRow[]): string {
+  return rows
+    .map((row, i) => {
+      if (i === 0) return row.text
+      const gap = rows[i - 1].y - row.y
+      return `${gap > row.height * PDF_PARAGRAPH_GAP ? '\n\n' : '\n'}${row.text}`
+    })
+    .join('')
+}
+
+/**
+ * Column gutters: vertical strips the text leaves empty down the page, found
+ * by counting the fragments over each slice of the page's width. A few rows
+ * may cross a gutter (headings spanning the columns), and each column must
+ * hold enough rows, so indents and short lines do not count as gutters.
+ */
+function findPdfColumnGutters(fragments: PdfTextFragment[], rowCount: number): { start: number; end: number }[] {
+  if (rowCount < PDF_COLUMN_MIN_ROWS * 2) return []
+  const left = Math.min(...fragments.map((f) => f.x))
+  const right = Math.max(...fragments.map((f) => f.x + f.width))
+  const binCount = Math.ceil((right - left) / PDF_GUTTER_BIN)
+  if (!Number.isFinite(binCount) || binCount < 3) return []
+
+  const coverage = new Array<number>(binCount).fill(0)
+  for (const f of fragments) {
+    const first = Math.max(0, Math.floor((f.x - left) / PDF_GUTTER_BIN))
+    const last = Math.min(binCount - 1, Math.floor((f.x + f.width - left) / PDF_GUTTER_BIN))
+    for (let bin = first; bin <= last; bin += 1) coverage[bin] += 1
+  }
+
+  // Gutters sit in the middle of the text, not in its margins
+  const margin = (right - left) * 0.15
+  const maxCrossing = Math.floor(rowCount * PDF_GUTTER_MAX_CROSSING)
+  const gutters: { start: number; end: number }[] = []
+  let runStart = -1
+  for (let bin = 0; bin <= binCount; bin += 1) {
+    const open = bin < binCount && coverage[bin] <= maxCrossing
+    if (open && runStart < 0) runStart = bin
+    if (open || runStart < 0) continue
+    const start = left + runStart * PDF_GUTTER_BIN
+    const end = left + bin * PDF_GUTTER_BIN
+    if (end - start >= PDF_GUTTER_MIN_WIDTH && start > left + margin && end < right - margin) {
+      gutters.push({ start, end })
+    }
+    runStart = -1
+  }
+
+  const bounds = [left, ...gutters.flatMap((g) => [g.start, g.end]), right]
+  for (let i = 0; i < bounds.length; i += 2) {
+    const column = fragments.filter((f) => f.x >= bounds[i] && f.x + f.width <= bounds[i + 1])
+    if (groupPdfRows(column).length < PDF_COLUMN_MIN_ROWS) return []
+  }
+  return gutters
+}
+
+/** Renders a page at scanning resolution and recognizes its text. */
+async function recognizePdfPage(page: PdfPage, engine: OcrEngine): Promise<OcrResult> {
+  const { width, height } = page.getViewport({ scale: 1 })
+  const scale = Math.min(OCR_RENDER_DPI / 72, Math.sqrt(OCR_MAX_PIXELS / (width * height)))
+  const viewport = page.getViewport({ scale })
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+  // pdf.js types only admit DOM canvases, but it draws on an offscreen one the same way
+  await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise
+  return engine.recognize(canvas)
+}
+
+/** pdf.js canvas factory for workers, where `document.createElement('canvas')` does not exist. */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height)
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) }
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (!canvasAndContext.canvas) throw new Error('Canvas is not specified')
+    canvasAndContext.canvas.width = width
+    canvasAndContext.canvas.height = height
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) canvasAndContext.canvas.width = canvasAndContext.canvas.height = 0
+    canvasAndContext.canvas = null
+    canvasAndContext.context = null
+  }
+}
+
+async function getPdfOutlineSections(pdf: PdfDocument): Promise<PartSection[]> {
+  let outline: PdfOutlineNode[] | null
+  try {
+    outline = await pdf.getOutline()
+  } catch {
+    return []
+  }
+
+  const sections: PartSection[] = []
+  const visit = async (nodes: PdfOutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const pageIndex = await resolvePdfDestinationPage(pdf, node.dest)
+      if (pageIndex !== null) {
+        sections.push({ title: node.title, level, part: pageIndex, wordOffsetInPart: 0 })
+      }
+      if (Array.isArray(node.items) && node.items.length > 0) {
+        await visit(node.items as PdfOutlineNode[], level + 1)
+      }
+    }
+  }
+
+  await visit(outline ?? [], 0)
+  return sections
+}
+
+async function resolvePdfDestinationPage(pdf: PdfDocument, dest: PdfOutlineNode['dest']): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+    const ref = explicit?.[0]
+    if (ref === undefined || ref === null) return null
+    if (typeof ref === 'number') return ref
+    return await pdf.getPageIndex(ref)
+  } catch {
+    return null
+  }
+}
+
+async function extractTextFromEpub(
+  file: File,
+  { signal, onProgress, onPartial }: ExtractionOptions
+): Promise<ExtractedDocument> {
   try {
     const zip = await loadZipArchive(file)
     const containerEntry = zip.file(EPUB_CONTAINER_PATH)
@@ -92,20 +779,41 @@ async function extractTextFromEpub(file: File): Promise<string> {
     const fallbackPaths = getFallbackEpubContentPaths(zip)
     const contentPaths = orderedContentPaths.length > 0 ? orderedContentPaths : fallbackPaths
 
-    const sections: string[] = []
-    for (const path of contentPaths) {
+    const toc = await getEpubTocEntries(zip, packageDoc, packagePath, manifest)
+
+    const assembler = createDocumentAssembler()
+    const reportPartial = createPartialReporter(assembler, onPartial)
+    for (const [index, path] of contentPaths.entries()) {
+      signal?.throwIfAborted()
+      onProgress?.({ done: index, total: contentPaths.length, unit: 'section' })
       const entry = getZipEntry(zip, path)
       if (!entry) continue
+      await yieldToEventLoop()
       const markup = await entry.async('string')
-      const text = extractTextFromMarkup(markup)
-      if (text) sections.push(text)
+      const tocEntries = toc.filter((item) => item.path === path)
+      const anchorIds = dedupe(tocEntries.map((item) => item.fragment).filter(Boolean))
+      const section = extractTextFromMarkup(markup, { anchorIds })
+      if (!section.text) continue
+
+      const part = assembler.partCount
+      const sections: PartSection[] = []
+      if (toc.length === 0) {
+        sections.push({ title: section.title || `Section ${part + 1}`, level: 0, part, wordOffsetInPart: 0 })
+      }
+      for (const item of tocEntries) {
+        const wordOffsetInPart = item.fragment ? section.anchorOffsets.get(item.fragment) ?? 0 : 0
+        sections.push({ title: item.title, level: item.level, part, wordOffsetInPart })
+      }
+      assembler.addPart(section.text, sections)
+      reportPartial()
     }
 
-    if (sections.length === 0) {
+    if (assembler.partCount === 0) {
       throw new Error('This EPUB does not contain readable text content.')
     }
 
-    return sections.join('\n\n')
+    onProgress?.({ done: contentPaths.length, total: contentPaths.length, unit: 'section' })
+    return assembler.build()
   } catch (error) {
     if (error instanceof Error) {
       throw error
@@ -142,45 +850,191 @@ function getOrderedEpubContentPaths(doc: XMLDocument, manifest: Map<string, stri
   return dedupe(contentPaths)
 }
 
+/** Table of contents from the EPUB 3 nav document, falling back to the EPUB 2 NCX. */
+async function getEpubTocEntries(
+  zip: ZipArchive,
+  packageDoc: XMLDocument,
+  packagePath: string,
+  manifest: Map<string, string>
+): Promise<EpubTocEntry[]> {
+  try {
+    const navItem = findElementsByLocalName(packageDoc, 'item').find((item) =>
+      (item.getAttribute('properties') ?? '').split(/\s+/).includes('nav')
+    )
+    const navHref = navItem?.getAttribute('href')
+    if (navHref) {
+      const navPath = resolveZipPath(packagePath, navHref)
+      const entries = await parseEpubNavDocument(zip, navPath)
+      if (entries.length > 0) return entries
+    }
+
+    const spine = findElementsByLocalName(packageDoc, 'spine')[0]
+    const ncxPath = manifest.get(spine?.getAttribute('toc') ?? '')
+    if (ncxPath) return await parseEpubNcx(zip, ncxPath)
+  } catch {
+    // A broken table of contents should not block reading the text itself
+  }
+
+  return []
+}
+
+async function parseEpubNavDocument(zip: ZipArchive, navPath: string): Promise<EpubTocEntry[]> {
+  const entry = getZipEntry(zip, navPath)
+  if (!entry) return []
+  const doc = parseXml(await entry.async('string'), 'EPUB navigation document')
+  const navs = findElementsByLocalName(doc, 'nav')
+  const tocNav = navs.find((nav) => getEpubType(nav) === 'toc') ?? navs[0]
+  const list = tocNav ? Array.from(tocNav.children).find((child) => child.localName === 'ol') : undefined
+  if (!list) return []
+
+  const entries: EpubTocEntry[] = []
+  const visit = (ol: Element, level: number) => {
+    for (const li of Array.from(ol.children)) {
+      if (li.localName !== 'li') continue
+      const link = Array.from(li.children).find((child) => child.localName === 'a' || child.localName === 'span')
+      const href = link?.getAttribute('href')
+      if (link && href) {
+        entries.push({ title: link.textContent ?? '', level, ...splitTocHref(navPath, href) })
+      }
+      const nested = Array.from(li.children).find((child) => child.localName === 'ol')
+      if (nested) visit(nested, level + 1)
+    }
+  }
+
+  visit(list, 0)
+  return entries
+}
+
+async function parseEpubNcx(zip: ZipArchive, ncxPath: string): Promise<EpubTocEntry[]> {
+  const entry = getZipEntry(zip, ncxPath)
+  if (!entry) return []
+  const doc = parseXml(await entry.async('string'), 'EPUB NCX table of contents')
+  const navMap = findElementsByLocalName(doc, 'navMap')[0]
+  if (!navMap) return []
+
+  const entries: EpubTocEntry[] = []
+  const visit = (parent: Element, level: number) => {
+    for (const navPoint of Array.from(parent.children)) {
+      if (navPoint.localName !== 'navPoint') continue
+      const label = findElementsByLocalName(navPoint, 'text')[0]?.textContent ?? ''
+      const content = Array.from(navPoint.children).find((child) => child.localName === 'content')
+      const src = content?.getAttribute('src')
+      if (src) entries.push({ title: label, level, ...splitTocHref(ncxPath, src) })
+      visit(navPoint, level + 1)
+    }
+  }
+
+  visit(navMap, 0)
+  return entries
+}
+
+function getEpubType(element: Element): string | null {
+  return element.getAttributeNS(EPUB_OPS_NAMESPACE, 'type') ?? element.getAttribute('epub:type')
+}
+
+function splitTocHref(fromPath: string, href: string): { path: string; fragment: string } {
+  const hashIndex = href.indexOf('#')
+  const target = hashIndex >= 0 ? href.slice(0, hashIndex) : href
+  const fragment = hashIndex >= 0 ? safelyDecodeUriComponent(href.slice(hashIndex + 1)) : ''
+  return { path: target ? resolveZipPath(fromPath, target) : fromPath, fragment }
+}
+
 function getFallbackEpubContentPaths(zip: ZipArchive): string[] {
   return Object.keys(zip.files)
     .filter((path) => /\.(xhtml|html|htm)$/i.test(path))
     .sort((a, b) => a.localeCompare(b))
 }
 
-function extractTextFromMarkup(markup: string): string {
+/**
+ * Text of an HTML/XHTML document plus a best-guess title, the word offset of
+ * each element id in `anchorIds` and, optionally, its h1–h3 headings.
+ */
+function extractTextFromMarkup(
+  markup: string,
+  { anchorIds = [], headings = false, blockBreaks = false }: MarkupOptions = {}
+): MarkupText {
   const parser = new DOMParser()
   const htmlDoc = parser.parseFromString(markup, 'text/html')
+  const heading = htmlDoc.querySelector('h1, h2, h3')?.textContent ?? htmlDoc.querySelector('title')?.textContent ?? ''
 
   for (const selector of ['script', 'style', 'noscript', 'svg', 'math', 'head', 'title']) {
     htmlDoc.querySelectorAll(selector).forEach((node) => node.remove())
   }
 
-  return normalizeExtractedText(htmlDoc.body?.textContent ?? htmlDoc.documentElement?.textContent ?? '')
-}
+  const anchorElements = anchorIds.map((id) => htmlDoc.getElementById(id))
+  const headingElements = headings ? Array.from(htmlDoc.querySelectorAll('h1, h2, h3')) : []
+  const targets = [...anchorElements, ...headingElements]
 
-function parseXml(text: string, label: string): XMLDocument {
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(text, 'application/xml')
-  if (doc.querySelector('parsererror')) {
-    throw new Error(`Could not parse ${label}.`)
+  if (blockBreaks) {
+    // Source line wrapping is not meaningful outside <pre>; breaks come from the block structure instead
+    const walker = htmlDoc.createTreeWalker(htmlDoc.body, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (!node.parentElement?.closest('pre')) node.textContent = (node.textContent ?? '').replace(/\s+/g, ' ')
+    }
+    htmlDoc.querySelectorAll(MARKUP_BLOCK_SELECTOR).forEach((el) => {
+      el.before(htmlDoc.createTextNode('\n\n'))
+      el.after(htmlDoc.createTextNode('\n\n'))
+    })
+    htmlDoc.querySelectorAll(MARKUP_LINE_SELECTOR).forEach((el) => el.after(htmlDoc.createTextNode('\n')))
+  }
+
+  // Drop a private-use marker in front of each target so its position survives textContent
+  targets.forEach((el, i) => {
+    el?.before(htmlDoc.createTextNode(` \uE000${i}\uE001 `))
+  })
+
+  const raw = normalizeExtractedText(htmlDoc.body?.textContent ?? htmlDoc.documentElement?.textContent ?? '')
+  const offsets: number[] = []
+  for (const match of raw.matchAll(ANCHOR_MARKER_RE)) {
+    const before = raw.slice(0, match.index).replace(ANCHOR_MARKER_RE, ' ')
+    offsets[Number(match[1])] = splitIntoWords(before).length
+  }
+
+  const anchorOffsets = new Map<string, number>()
+  anchorIds.forEach((id, i) => {
+    if (offsets[i] !== undefined) anchorOffsets.set(id, offsets[i])
+  })
+
+  return {
+    text: normalizeExtractedText(raw.replace(ANCHOR_MARKER_RE, ' ')),
+    title: heading.replace(/\s+/g, ' ').trim(),
+    anchorOffsets,
+    headings: headingElements.flatMap((el, i) => {
+      const wordOffset = offsets[anchorElements.length + i]
+      const title = (el.textContent ?? '').replace(/\s+/g, ' ').trim()
+      if (wordOffset === undefined || !title) return []
+      return [{ title, level: Number(el.tagName.slice(1)) - 1, wordOffset }]
+    }),
   }
-  return doc
 }
 
-function findElementsByLocalName(root: XMLDocument | Element, localName: string): Element[] {
-  return Array.from(root.getElementsByTagName('*')).filter((element) => element.localName === localName)
+async function extractTextFromHtml(file: File): Promise<ExtractedDocument> {
+  try {
+    const markup = decodeWithDeclaredCharset(
+      await file.arrayBuffer(),
+      /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i
+    )
+    const { text, headings } = extractTextFromMarkup(markup, { headings: true, blockBreaks: true })
+    if (!text) {
+      throw new Error('This web page does not contain readable text.')
+    }
+    return {
+      text,
+      sections: headings.length > 1 ? headings : [],
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error
+    }
+
+    throw new Error('Could not read text from this HTML file.')
+  }
 }
 
 function getZipEntry(zip: ZipArchive, path: string) {
   return zip.file(path) ?? zip.file(safelyDecodeUriComponent(path))
 }
 
-async function loadZipArchive(file: File) {
-  const { default: JSZip } = await import('jszip')
-  return JSZip.loadAsync(await file.arrayBuffer())
-}
-
 function resolveZipPath(fromPath: string, relativePath: string): string {
   if (relativePath.startsWith('/')) {
     return normalizeZipPath(relativePath)
@@ -206,15 +1060,6 @@ function normalizeZipPath(path: string): string {
   return normalized.join('/')
 }
 
-function normalizeExtractedText(text: string): string {
-  return text
-    .replace(/\r\n?/g, '\n')
-    .replace(/[ \t\f\v]+/g, ' ')
-    .replace(/ *\n */g, '\n')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim()
-}
-
 function getFileExtension(name: string): string {
   const match = /\.([^.]+)$/.exec(name.trim().toLowerCase())
   return match?.[1] ?? ''
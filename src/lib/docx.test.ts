@@ -0,0 +1,64 @@
+import JSZip from 'jszip'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { extractTextFromDocx } from './docx'
+import { installWorkerDom } from './workerDom'
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+async function docxFile(body: string, styles?: string): Promise<File> {
+  const zip = new JSZip()
+  zip.file('word/document.xml', `<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>${body}</w:body></w:document>`)
+  if (styles) zip.file('word/styles.xml', `<w:styles xmlns:w="${WORD_NAMESPACE}">${styles}</w:styles>`)
+  return new File([await zip.generateAsync({ type: 'blob' })], 'notes.docx')
+}
+
+function paragraph(content: string, style?: string): string {
+  const props = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${props}<w:r>${content}</w:r></w:p>`
+}
+
+function style(id: string, name: string): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/></w:style>`
+}
+
+describe('extractTextFromDocx', () => {
+  beforeAll(() => {
+    installWorkerDom()
+  })
+
+  it('takes heading levels from the style names in styles.xml', async () => {
+    const file = await docxFile(
+      paragraph('<w:t>Report</w:t>', 'Titre') +
+        paragraph('<w:t>Intro</w:t>') +
+        paragraph('<w:t>Method</w:t>', 'Ueberschrift2') +
+        paragraph('<w:t>Body</w:t>', 'Normal'),
+      style('Titre', 'Title') + style('Ueberschrift2', 'heading 2') + style('Normal', 'Normal')
+    )
+    const { parts, sections } = await extractTextFromDocx(file)
+    expect(parts).toEqual(['', 'Report\n\nIntro', 'Method\n\nBody'])
+    expect(sections).toEqual([
+      { title: 'Report', level: 0, part: 1, wordOffsetInPart: 0 },
+      { title: 'Method', level: 1, part: 2, wordOffsetInPart: 0 },
+    ])
+  })
+
+  it('falls back to built-in heading style ids without styles.xml', async () => {
+    const { sections } = await extractTextFromDocx(
+      await docxFile(paragraph('<w:t>Intro</w:t>') + paragraph('<w:t>Part</w:t>', 'Heading3'))
+    )
+    expect(sections).toEqual([{ title: 'Part', level: 2, part: 1, wordOffsetInPart: 0 }])
+  })
+
+  it('reads tabs, breaks and non-breaking hyphens within a run', async () => {
+    const { parts } = await extractTextFromDocx(
+      await docxFile(paragraph('<w:t>a</w:t><w:tab/><w:t>b</w:t><w:br/><w:t>c</w:t><w:noBreakHyphen/><w:t>d</w:t>'))
+    )
+    expect(parts).toEqual(['a b\nc-d'])
+  })
+
+  it('rejects a document without text', async () => {
+    await expect(extractTextFromDocx(await docxFile(paragraph('<w:t> </w:t>')))).rejects.toThrow(
+      'This Word document does not contain readable text.'
+    )
+  })
+})
@@ -0,0 +1,124 @@
+import {
+  findElementsByLocalName,
+  loadZipArchive,
+  parseXml,
+  type ExtractedParts,
+  type PartSection,
+  type ZipArchive,
+} from './documentParts'
+
+const DOCX_DOCUMENT_PATH = 'word/document.xml'
+const DOCX_STYLES_PATH = 'word/styles.xml'
+
+export async function extractTextFromDocx(file: File): Promise<ExtractedParts> {
+  try {
+    const zip = await loadZipArchive(file)
+    const documentEntry = zip.file(DOCX_DOCUMENT_PATH)
+    if (!documentEntry) {
+      throw new Error('Missing Word document body.')
+    }
+
+    const doc = parseXml(await documentEntry.async('string'), 'Word document body')
+    const body = findElementsByLocalName(doc, 'body')[0]
+    if (!body) {
+      throw new Error('Missing Word document body.')
+    }
+
+    const headingLevels = await getDocxHeadingLevels(zip)
+    const parts: string[] = []
+    const sections: PartSection[] = []
+    let current: string[] = []
+
+    for (const paragraph of findElementsByLocalName(body, 'p')) {
+      const text = getDocxParagraphText(paragraph)
+      if (!text.trim()) continue
+
+      const level = getDocxParagraphLevel(paragraph, headingLevels)
+      if (level !== null) {
+        parts.push(current.join('\n\n'))
+        sections.push({ title: text, level, part: parts.length, wordOffsetInPart: 0 })
+        current = []
+      }
+      current.push(text)
+    }
+    parts.push(current.join('\n\n'))
+
+    if (!parts.some((part) => part.trim())) {
+      throw new Error('This Word document does not contain readable text.')
+    }
+
+    return { parts, sections }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error
+    }
+
+    throw new Error('Could not read text from this Word document.')
+  }
+}
+
+/** Heading level (0-based) for each paragraph style id that is a heading or carries an outline level. */
+async function getDocxHeadingLevels(zip: ZipArchive): Promise<Map<string, number>> {
+  const levels = new Map<string, number>()
+  const entry = zip.file(DOCX_STYLES_PATH)
+  if (!entry) return levels
+
+  try {
+    const doc = parseXml(await entry.async('string'), 'Word styles')
+    for (const style of findElementsByLocalName(doc, 'style')) {
+      const id = getWordAttribute(style, 'styleId')
+      if (!id) continue
+      const name = getWordAttribute(findElementsByLocalName(style, 'name')[0], 'val') ?? ''
+      const outline = getWordAttribute(findElementsByLocalName(style, 'outlineLvl')[0], 'val')
+      const headingMatch = /^heading\s*(\d)$/i.exec(name)
+      if (/^title$/i.test(name)) levels.set(id, 0)
+      else if (headingMatch) levels.set(id, Number(headingMatch[1]) - 1)
+      else if (outline !== null && Number(outline) < 9) levels.set(id, Number(outline))
+    }
+  } catch {
+    // Without styles, headings fall back to built-in style ids and outline levels
+  }
+
+  return levels
+}
+
+function getDocxParagraphLevel(paragraph: Element, headingLevels: Map<string, number>): number | null {
+  const props = Array.from(paragraph.children).find((child) => child.localName === 'pPr')
+  if (!props) return null
+  const outline = getWordAttribute(findElementsByLocalName(props, 'outlineLvl')[0], 'val')
+  if (outline !== null && Number(outline) < 9) return Number(outline)
+  const styleId = getWordAttribute(findElementsByLocalName(props, 'pStyle')[0], 'val')
+  if (!styleId) return null
+  const known = headingLevels.get(styleId)
+  if (known !== undefined) return known
+  const builtIn = /^Heading(\d)$/i.exec(styleId)
+  if (builtIn) return Number(builtIn[1]) - 1
+  return /^Title$/i.test(styleId) ? 0 : null
+}
+
+function getDocxParagraphText(paragraph: Element): string {
+  let text = ''
+  for (const el of Array.from(paragraph.getElementsByTagName('*'))) {
+    // Text boxes nest whole paragraphs; those are read on their own
+    if (getEnclosingDocxParagraph(el) !== paragraph) continue
+    if (el.localName === 't') text += el.textContent ?? ''
+    else if (el.localName === 'tab') text += ' '
+    else if (el.localName === 'br' || el.localName === 'cr') text += '\n'
+    else if (el.localName === 'noBreakHyphen') text += '-'
+  }
+  return text
+}
+
+function getEnclosingDocxParagraph(el: Element): Element | null {
+  let parent = el.parentElement
+  while (parent && parent.localName !== 'p') parent = parent.parentElement
+  return parent
+}
+
+function getWordAttribute(el: Element | undefined, name: string): string | null {
+  if (!el) return null
+  return el.getAttribute(`w:${name}`) ?? el.getAttributeNS(
+    'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+    name
+  )
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_EMPHASIS,
+  getEmphasisLength,
+  getEmphasisPreset,
+  parseEmphasisSettings,
+  type EmphasisConfig,
+} from './emphasis'
+
+function config(overrides: Partial<EmphasisConfig> = {}): EmphasisConfig {
+  return { ...DEFAULT_EMPHASIS, language: 'en', ...overrides }
+}
+
+describe('getEmphasisLength', () => {
+  it('emboldens a share of the letters, at least one and at most the cap', () => {
+    expect(getEmphasisLength('reading', 0, config())).toBe(3)
+    expect(getEmphasisLength('a', 0, config())).toBe(1)
+    expect(getEmphasisLength('internationalisation', 0, config())).toBe(6)
+    expect(getEmphasisLength('reading', 0, config({ enabled: false }))).toBe(0)
+  })
+
+  it('skips words between saccades and, when asked, stop words', () => {
+    const saccade = config({ saccade: 3 })
+    expect([0, 1, 2, 3].map((i) => getEmphasisLength('word', i, saccade))).toEqual([2, 0, 0, 2])
+    expect(getEmphasisLength('The', 0, config({ skipStopWords: true }))).toBe(0)
+    expect(getEmphasisLength('die', 0, config({ skipStopWords: true, language: 'de-AT' }))).toBe(0)
+  })
+
+  it('snaps to the nearest syllable boundary when hyphenation is available', () => {
+    const hyphenate = (word: string) => (word === 'wonderful' ? 'won\u00ADder\u00ADful' : word)
+    expect(getEmphasisLength('wonderful', 0, config({ syllables: true, hyphenate }))).toBe(3)
+    expect(getEmphasisLength('wonderful', 0, config({ syllables: true, ratio: 0.7, hyphenate }))).toBe(6)
+    // One syllable: the plain ratio applies
+    expect(getEmphasisLength('strength', 0, config({ syllables: true, hyphenate }))).toBe(4)
+  })
+
+  it('marks the first character of CJK words and leaves cursive scripts whole', () => {
+    expect(getEmphasisLength('日本語', 0, config({ language: 'ja' }))).toBe(1)
+    expect(getEmphasisLength('日', 0, config({ language: 'ja' }))).toBe(0)
+    expect(getEmphasisLength('مرحبا', 0, config({ language: 'ar' }))).toBe(0)
+  })
+
+  it('cuts on grapheme clusters so combining marks stay with their letter', () => {
+    // “e” plus a combining acute accent, twice
+    expect(getEmphasisLength('e\u0301e\u0301', 0, config({ ratio: 0.5 }))).toBe(2)
+  })
+})
+
+describe('parseEmphasisSettings', () => {
+  it('clamps out-of-range values and fills missing ones', () => {
+    expect(parseEmphasisSettings({ ratio: 2, maxLetters: 0.5, saccade: 7, syllables: true })).toEqual({
+      ...DEFAULT_EMPHASIS,
+      ratio: 0.8,
+      maxLetters: 1,
+      syllables: true,
+    })
+    expect(parseEmphasisSettings('strong')).toBeNull()
+  })
+})
+
+describe('getEmphasisPreset', () => {
+  it('names settings that match a preset exactly', () => {
+    expect(getEmphasisPreset(DEFAULT_EMPHASIS)).toBe('standard')
+    expect(getEmphasisPreset({ ...DEFAULT_EMPHASIS, saccade: 2, skipStopWords: true })).toBe('saccade')
+    expect(getEmphasisPreset({ ...DEFAULT_EMPHASIS, ratio: 0.5 })).toBeNull()
+  })
+})
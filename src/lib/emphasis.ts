@@ -0,0 +1,159 @@
+/** User-facing bionic emphasis options, saved globally or per document. */
+export interface EmphasisSettings {
+  enabled: boolean
+  /** Share of each word's letters to embolden, 0.1–0.8. */
+  ratio: number
+  /** Most letters emboldened in a single word. */
+  maxLetters: number
+  /** Emphasise every Nth word only; 1 emphasises every word. */
+  saccade: number
+  /** Snap the emboldened prefix to a syllable boundary. */
+  syllables: boolean
+  /** Leave common function words unemphasised. */
+  skipStopWords: boolean
+}
+
+/** Everything `BionicChunk` needs to decide emphasis, identical in every view. */
+export interface EmphasisConfig extends EmphasisSettings {
+  language: string
+  /** Inserts soft hyphens at syllable boundaries; absent until patterns for `language` have loaded. */
+  hyphenate?: (word: string) => string
+}
+
+export type EmphasisPreset = 'standard' | 'light' | 'strong' | 'saccade' | 'syllable' | 'off'
+
+export type EmphasisScope = 'global' | 'document'
+
+export const DEFAULT_EMPHASIS: EmphasisSettings = {
+  enabled: true,
+  ratio: 0.4,
+  maxLetters: 6,
+  saccade: 1,
+  syllables: false,
+  skipStopWords: false,
+}
+
+export const EMPHASIS_PRESETS: { value: EmphasisPreset; label: string; settings: EmphasisSettings }[] = [
+  { value: 'standard', label: 'Standard', settings: DEFAULT_EMPHASIS },
+  { value: 'light', label: 'Light', settings: { ...DEFAULT_EMPHASIS, ratio: 0.25, maxLetters: 3 } },
+  { value: 'strong', label: 'Strong', settings: { ...DEFAULT_EMPHASIS, ratio: 0.6, maxLetters: 8 } },
+  { value: 'saccade', label: 'Every other word', settings: { ...DEFAULT_EMPHASIS, saccade: 2, skipStopWords: true } },
+  { value: 'syllable', label: 'First syllable', settings: { ...DEFAULT_EMPHASIS, syllables: true } },
+  { value: 'off', label: 'Off', settings: { ...DEFAULT_EMPHASIS, enabled: false } },
+]
+
+export const MIN_EMPHASIS_RATIO = 0.1
+export const MAX_EMPHASIS_RATIO = 0.8
+export const MAX_EMPHASIS_LETTERS = 12
+export const SACCADE_OPTIONS = [1, 2, 3, 4] as const
+
+const IDEOGRAPHIC_RE = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+$/u
+const CURSIVE_RE = /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Mongolian}]/u
+const SOFT_HYPHEN = '\u00AD'
+
+const STOP_WORDS: Record<string, Set<string>> = {
+  en: new Set(
+    'a an and are as at be but by for from had has have he her his i if in into is it its me my no not of on or our she so than that the their them then there they this to was we were what when which who will with you your'.split(
+      ' '
+    )
+  ),
+  es: new Set('a al como con de del el en es la las lo los más no o para pero por que se su sus un una y'.split(' ')),
+  fr: new Set('à au aux avec ce dans de des du elle en est et il la le les leur ne ou par pas pour qui que se son sur un une'.split(' ')),
+  de: new Set('auf aus bei das dem den der des die ein eine einen er es im in ist mit nicht sie so und von zu zum zur'.split(' ')),
+  it: new Set('a al che con da del della di e è il in la le lo non per più un una'.split(' ')),
+  pt: new Set('a ao as com da de do dos e é em na no não o os para por que se um uma'.split(' ')),
+}
+
+let graphemeSegmenter: Intl.Segmenter | null | undefined
+
+export function getEmphasisPreset(settings: EmphasisSettings): EmphasisPreset | null {
+  const match = EMPHASIS_PRESETS.find((p) =>
+    (Object.keys(p.settings) as (keyof EmphasisSettings)[]).every((key) => p.settings[key] === settings[key])
+  )
+  return match?.value ?? null
+}
+
+export function isEmphasisPreset(value: unknown): value is EmphasisPreset {
+  return EMPHASIS_PRESETS.some((p) => p.value === value)
+}
+
+/** Validates stored settings, filling and clamping anything missing or out of range. */
+export function parseEmphasisSettings(value: unknown): EmphasisSettings | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Partial<Record<keyof EmphasisSettings, unknown>>
+  const ratio = Number(v.ratio)
+  const maxLetters = Number(v.maxLetters)
+  const saccade = Number(v.saccade)
+  return {
+    enabled: typeof v.enabled === 'boolean' ? v.enabled : DEFAULT_EMPHASIS.enabled,
+    ratio: Number.isFinite(ratio)
+      ? Math.min(MAX_EMPHASIS_RATIO, Math.max(MIN_EMPHASIS_RATIO, ratio))
+      : DEFAULT_EMPHASIS.ratio,
+    maxLetters: Number.isFinite(maxLetters)
+      ? Math.min(MAX_EMPHASIS_LETTERS, Math.max(1, Math.trunc(maxLetters)))
+      : DEFAULT_EMPHASIS.maxLetters,
+    saccade: SACCADE_OPTIONS.some((n) => n === saccade) ? saccade : DEFAULT_EMPHASIS.saccade,
+    syllables: typeof v.syllables === 'boolean' ? v.syllables : DEFAULT_EMPHASIS.syllables,
+    skipStopWords: typeof v.skipStopWords === 'boolean' ? v.skipStopWords : DEFAULT_EMPHASIS.skipStopWords,
+  }
+}
+
+/**
+ * Code units of `core` (the word without punctuation) to embolden; 0 means
+ * the word is rendered plain. `wordIndex` is the document index, so saccade
+ * spacing stays put when the chunk boundaries move.
+ *
+ * Prefix-bolding only makes sense for alphabets: CJK words get their first
+ * character marked (it shows where segmented words begin), cursive scripts
+ * are left whole because splitting the word breaks letter joining, and other
+ * scripts are cut on grapheme clusters so combining vowels stay attached.
+ */
+export function getEmphasisLength(core: string, wordIndex: number, config: EmphasisConfig): number {
+  if (!config.enabled || !core) return 0
+  if (config.saccade > 1 && wordIndex % config.saccade !== 0) return 0
+  if (config.skipStopWords && isStopWord(core, config.language)) return 0
+  if (CURSIVE_RE.test(core)) return 0
+
+  const graphemes = splitGraphemes(core)
+  if (IDEOGRAPHIC_RE.test(core)) return graphemes.length > 1 ? graphemes[0].length : 0
+
+  // Renato Casutt-style bionic emphasis: bias attention to the word start
+  const desired = Math.ceil(graphemes.length * config.ratio)
+  const n = Math.max(1, Math.min(config.maxLetters, graphemes.length, desired))
+
+  if (config.syllables && config.hyphenate) {
+    const boundaries = getSyllableBoundaries(core, config.hyphenate)
+    if (boundaries.length > 0) {
+      const prefixLength = graphemes.slice(0, n).join('').length
+      return boundaries.reduce((best, b) => (Math.abs(b - prefixLength) < Math.abs(best - prefixLength) ? b : best))
+    }
+    // Single-syllable words fall through to the plain ratio
+  }
+
+  return graphemes.slice(0, n).join('').length
+}
+
+function splitGraphemes(text: string): string[] {
+  if (graphemeSegmenter === undefined) {
+    graphemeSegmenter =
+      typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null
+  }
+  return graphemeSegmenter ? Array.from(graphemeSegmenter.segment(text), (g) => g.segment) : Array.from(text)
+}
+
+/** Offsets inside `core` where a syllable ends, excluding the word's end. */
+function getSyllableBoundaries(core: string, hyphenate: (word: string) => string): number[] {
+  const boundaries: number[] = []
+  let offset = 0
+  for (const ch of hyphenate(core)) {
+    if (ch === SOFT_HYPHEN) boundaries.push(offset)
+    else offset += ch.length
+  }
+  return boundaries.filter((b) => b > 0 && b < core.length)
+}
+
+function isStopWord(core: string, language: string): boolean {
+  const base = language.split('-')[0].toLowerCase()
+  const list = STOP_WORDS[base] ?? STOP_WORDS.en
+  return list.has(core.toLocaleLowerCase())
+}
@@ -0,0 +1,130 @@
+import {
+  EMPHASIS_PRESETS,
+  getEmphasisPreset,
+  isEmphasisPreset,
+  MAX_EMPHASIS_LETTERS,
+  MAX_EMPHASIS_RATIO,
+  MIN_EMPHASIS_RATIO,
+  parseEmphasisSettings,
+  SACCADE_OPTIONS,
+  type EmphasisScope,
+  type EmphasisSettings,
+} from './emphasis'
+
+interface EmphasisPanelProps {
+  settings: EmphasisSettings
+  scope: EmphasisScope
+  /** Omitting `scope` keeps the current one. */
+  onChange: (settings: EmphasisSettings, scope?: EmphasisScope) => void
+}
+
+/** Bionic emphasis controls: a preset or custom settings, for every document or just this one. */
+export function EmphasisPanel({ settings, scope, onChange }: EmphasisPanelProps) {
+  return (
+    <div id="emphasis-panel" className="emphasisPanel" role="group" aria-label="Bionic emphasis">
+      <label className="control">
+        <span className="controlLabel">Preset</span>
+        <select
+          className="selectInput"
+          value={getEmphasisPreset(settings) ?? 'custom'}
+          onChange={(e) => {
+            const value = e.currentTarget.value
+            const preset = EMPHASIS_PRESETS.find((p) => p.value === value)
+            if (isEmphasisPreset(value) && preset) onChange(preset.settings)
+          }}
+        >
+          {EMPHASIS_PRESETS.map((p) => (
+            <option key={p.value} value={p.value}>
+              {p.label}
+            </option>
+          ))}
+          <option value="custom" disabled>
+            Custom
+          </option>
+        </select>
+      </label>
+      <label className="control">
+        <span className="controlLabel">Fixation {Math.round(settings.ratio * 100)}%</span>
+        <input
+          type="range"
+          min={MIN_EMPHASIS_RATIO}
+          max={MAX_EMPHASIS_RATIO}
+          step={0.05}
+          value={settings.ratio}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, ratio: Number(e.currentTarget.value) })}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">Max letters</span>
+        <input
+          className="numberInput"
+          type="number"
+          inputMode="numeric"
+          min={1}
+          max={MAX_EMPHASIS_LETTERS}
+          value={settings.maxLetters}
+          disabled={!settings.enabled}
+          onChange={(e) => {
+            const parsed = parseEmphasisSettings({ ...settings, maxLetters: e.currentTarget.value })
+            if (parsed) onChange(parsed)
+          }}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">Saccade</span>
+        <select
+          className="selectInput"
+          value={settings.saccade}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, saccade: Number(e.currentTarget.value) })}
+        >
+          {SACCADE_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n === 1 ? 'Every word' : `Every ${n === 2 ? '2nd' : n === 3 ? '3rd' : `${n}th`} word`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="checkControl">
+        <input
+          type="checkbox"
+          checked={settings.syllables}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, syllables: e.currentTarget.checked })}
+        />
+        Syllable prefixes
+      </label>
+      <label className="checkControl">
+        <input
+          type="checkbox"
+          checked={settings.skipStopWords}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, skipStopWords: e.currentTarget.checked })}
+        />
+        Skip stop-words
+      </label>
+      <label className="checkControl">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.currentTarget.checked })}
+        />
+        Emphasis on
+      </label>
+      <label className="control">
+        <span className="controlLabel">Apply to</span>
+        <select
+          className="selectInput"
+          value={scope}
+          onChange={(e) =>
+            onChange(settings, e.currentTarget.value === 'document' ? 'document' : 'global')
+          }
+        >
+          <option value="global">All documents</option>
+          <option value="document">This document</option>
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import {
+  canExtractInWorker,
+  extractTextFromDocument,
+  type ExtractedDocument,
+  type ExtractionOptions,
+  type ExtractionProgress,
+} from './documentText'
+
+/** What the page sends the extraction worker. */
+export interface ExtractionRequest {
+  file: File
+  ocrLanguage?: string
+  pdfCleanup?: boolean
+}
+
+/** What the extraction worker reports back for the file it was sent. */
+export type ExtractionMessage =
+  | { type: 'progress'; progress: ExtractionProgress }
+  | { type: 'partial'; document: ExtractedDocument }
+  | { type: 'done'; document: ExtractedDocument }
+  | { type: 'error'; name: string; message: string; cause?: string }
+
+/**
+ * Extracts a document off the main thread where the format allows it, with
+ * the same progress, partial-document and abort hooks either way. Aborting
+ * rejects with the signal's reason.
+ */
+export function extractDocument(file: File, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
+  if (!extractsInWorker(file.name)) return extractTextFromDocument(file, options)
+
+  const { signal, onProgress, onPartial, ocrLanguage, pdfCleanup } = options
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const worker = new Worker(new URL('./extractionWorker.ts', import.meta.url), { type: 'module' })
+    const stop = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      stop()
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort)
+
+    worker.onmessage = (e: MessageEvent<ExtractionMessage>) => {
+      const message = e.data
+      if (message.type === 'progress') onProgress?.(message.progress)
+      else if (message.type === 'partial') onPartial?.(message.document)
+      else {
+        stop()
+        if (message.type === 'done') resolve(message.document)
+        else reject(toExtractionError(message))
+      }
+    }
+    worker.onerror = () => {
+      stop()
+      reject(new Error('Could not read this file.'))
+    }
+    worker.postMessage({ file, ocrLanguage, pdfCleanup } satisfies ExtractionRequest)
+  })
+}
+
+/** Whether `extractDocument` reads `filename` in a worker; otherwise the page may stop responding while it reads. */
+export function extractsInWorker(filename: string): boolean {
+  return canExtractInWorker(filename) && typeof Worker !== 'undefined'
+}
+
+function toExtractionError({ name, message, cause }: Extract<ExtractionMessage, { type: 'error' }>): Error {
+  if (name === 'AbortError') return new DOMException(message, name)
+  return new Error(message, cause ? { cause: new Error(cause) } : undefined)
+}
+
+export function formatExtractionProgress({ done, total, unit, recognizing }: ExtractionProgress): string {
+  if (recognizing) return `recognizing scanned ${unit} ${(done + 1).toLocaleString()} of ${total.toLocaleString()}`
+  return `${unit} ${done.toLocaleString()} of ${total.toLocaleString()}`
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
@@ -0,0 +1,24 @@
+import { extractTextFromDocument } from './documentText'
+import type { ExtractionMessage, ExtractionRequest } from './extraction'
+import { installWorkerDom } from './workerDom'
+
+installWorkerDom()
+
+// Reads one file per message; the page cancels by terminating the worker
+self.onmessage = (e: MessageEvent<ExtractionRequest>) => {
+  const { file, ocrLanguage, pdfCleanup } = e.data
+  const post = (message: ExtractionMessage) => self.postMessage(message)
+  extractTextFromDocument(file, {
+    ocrLanguage,
+    pdfCleanup,
+    onProgress: (progress) => post({ type: 'progress', progress }),
+    onPartial: (document) => post({ type: 'partial', document }),
+  })
+    .then((document) => post({ type: 'done', document }))
+    .catch((error: unknown) => {
+      if (!(error instanceof Error)) return post({ type: 'error', name: 'Error', message: 'Could not read this file.' })
+      // Errors lose their class crossing to the page; the name and the cause's message are enough to rebuild them
+      const cause = error.cause instanceof Error ? error.cause.message : undefined
+      post({ type: 'error', name: error.name, message: error.message, cause })
+    })
+}
@@ -0,0 +1,46 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { extractTextFromFb2 } from './fb2'
+import { installWorkerDom } from './workerDom'
+
+function fb2File(body: string): File {
+  return new File(
+    [`<?xml version="1.0"?><FictionBook xmlns="http://www.gribuser.ru/xml/fictionbook/2.0">${body}</FictionBook>`],
+    'book.fb2'
+  )
+}
+
+describe('extractTextFromFb2', () => {
+  beforeAll(() => {
+    installWorkerDom()
+  })
+
+  it('turns nested section titles into sections and skips notes', async () => {
+    const file = fb2File(
+      '<body><title><p>The Book</p></title>' +
+        '<section><title><p>Part one</p></title><p>Opening.</p>' +
+        '<section><title><p>Chapter</p></title><p>Inside.</p><empty-line/><p>More.</p></section></section>' +
+        '</body><body name="notes"><section><p>A footnote.</p></section></body>'
+    )
+    const { parts, sections } = await extractTextFromFb2(file)
+    expect(parts).toEqual(['The Book', 'Part one\n\nOpening.', 'Chapter\n\nInside.\n\nMore.'])
+    expect(sections).toEqual([
+      { title: 'Part one', level: 0, part: 1, wordOffsetInPart: 0 },
+      { title: 'Chapter', level: 1, part: 2, wordOffsetInPart: 0 },
+    ])
+  })
+
+  it('reads poems and epigraphs as paragraphs', async () => {
+    const file = fb2File(
+      '<body><section><epigraph><p>Said once.</p><text-author>Someone</text-author></epigraph>' +
+        '<poem><stanza><v>Line one,</v><v>line two.</v></stanza></poem></section></body>'
+    )
+    const { parts } = await extractTextFromFb2(file)
+    expect(parts).toEqual(['', 'Said once.\n\nSomeone\n\nLine one,\n\nline two.'])
+  })
+
+  it('rejects a book without body text', async () => {
+    await expect(extractTextFromFb2(fb2File('<description/>'))).rejects.toThrow(
+      'This FictionBook file has no body text.'
+    )
+  })
+})
@@ -0,0 +1,72 @@
+import {
+  decodeWithDeclaredCharset,
+  findElementsByLocalName,
+  parseXml,
+  type ExtractedParts,
+  type PartSection,
+} from './documentParts'
+
+export async function extractTextFromFb2(file: File): Promise<ExtractedParts> {
+  try {
+    const xml = decodeWithDeclaredCharset(await file.arrayBuffer(), /<\?xml[^>]+encoding\s*=\s*["']([\w-]+)/i)
+    const doc = parseXml(xml, 'FictionBook document')
+    const bodies = findElementsByLocalName(doc, 'body').filter((body) => {
+      const name = body.getAttribute('name')
+      return name !== 'notes' && name !== 'comments'
+    })
+    if (bodies.length === 0) {
+      throw new Error('This FictionBook file has no body text.')
+    }
+
+    const parts: string[] = []
+    const sections: PartSection[] = []
+    const visit = (container: Element, level: number) => {
+      const title = Array.from(container.children).find((child) => child.localName === 'title')
+      const titleText = title ? getFb2BlockText(title).replace(/\s+/g, ' ').trim() : ''
+      const own = Array.from(container.children)
+        .filter((child) => child.localName !== 'section' && child.localName !== 'title')
+        .map(getFb2BlockText)
+        .filter(Boolean)
+
+      if (titleText && level >= 0) {
+        sections.push({ title: titleText, level, part: parts.length, wordOffsetInPart: 0 })
+      }
+      parts.push([titleText, ...own].filter(Boolean).join('\n\n'))
+
+      for (const child of Array.from(container.children)) {
+        if (child.localName === 'section') visit(child, level + 1)
+      }
+    }
+
+    // Body titles are the book title, not a chapter
+    for (const body of bodies) visit(body, -1)
+
+    if (!parts.some((part) => part.trim())) {
+      throw new Error('This FictionBook file does not contain readable text.')
+    }
+
+    return { parts, sections }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error
+    }
+
+    throw new Error('Could not read text from this FictionBook file.')
+  }
+}
+
+function getFb2BlockText(el: Element): string {
+  switch (el.localName) {
+    case 'p':
+    case 'v':
+    case 'subtitle':
+    case 'text-author':
+      return (el.textContent ?? '').trim()
+    case 'empty-line':
+    case 'image':
+    case 'binary':
+      return ''
+    default:
+      return Array.from(el.children).map(getFb2BlockText).filter(Boolean).join('\n\n')
+  }
+}
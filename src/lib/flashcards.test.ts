@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { createFlashcard, formatNextReview, getNextInterval, gradeFlashcard, type Flashcard } from './flashcards'
+
+const NOW = Date.UTC(2024, 0, 1)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function card(overrides: Partial<Flashcard> = {}): Flashcard {
+  const context = { before: 'A ', word: 'word', after: '.' }
+  const source = { hash: 'h', filename: 'f.txt', wordIndex: 1, chunkIndex: 0 }
+  return { ...createFlashcard('en', 'word', context, source, NOW), ...overrides }
+}
+
+describe('getNextInterval', () => {
+  it('follows SM-2: one day, six days, then the interval times the ease', () => {
+    expect(getNextInterval(card(), 'good')).toBe(1)
+    expect(getNextInterval(card({ repetitions: 1, interval: 1 }), 'good')).toBe(6)
+    expect(getNextInterval(card({ repetitions: 2, interval: 6, ease: 2.5 }), 'good')).toBe(15)
+  })
+
+  it('stretches easy answers and only nudges hard ones', () => {
+    expect(getNextInterval(card(), 'easy')).toBe(2)
+    expect(getNextInterval(card({ repetitions: 2, interval: 10, ease: 2 }), 'easy')).toBe(26)
+    expect(getNextInterval(card({ repetitions: 2, interval: 10 }), 'hard')).toBe(12)
+    expect(getNextInterval(card(), 'hard')).toBe(1)
+  })
+})
+
+describe('gradeFlashcard', () => {
+  it('schedules a good answer by the new interval and counts the repetition', () => {
+    const graded = gradeFlashcard(card({ repetitions: 1, interval: 1 }), 'good', NOW)
+    expect(graded).toMatchObject({ interval: 6, ease: 2.5, repetitions: 2, lapses: 0 })
+    expect(graded.due).toBe(new Date(NOW + 6 * DAY_MS).toISOString())
+    expect(graded.reviewedAt).toBe(new Date(NOW).toISOString())
+  })
+
+  it('resets a lapsed card, counts the lapse and brings it back in ten minutes', () => {
+    const graded = gradeFlashcard(card({ repetitions: 4, interval: 30 }), 'again', NOW)
+    expect(graded).toMatchObject({ interval: 0, ease: 2.3, repetitions: 0, lapses: 1 })
+    expect(graded.due).toBe(new Date(NOW + 10 * 60 * 1000).toISOString())
+  })
+
+  it('raises the ease on easy answers and never lowers it below the floor', () => {
+    expect(gradeFlashcard(card(), 'easy', NOW).ease).toBeCloseTo(2.65)
+    expect(gradeFlashcard(card({ ease: 1.4 }), 'hard', NOW).ease).toBe(1.3)
+    expect(gradeFlashcard(card({ ease: 1.3 }), 'again', NOW).ease).toBe(1.3)
+  })
+})
+
+describe('formatNextReview', () => {
+  it('labels the next due time in minutes, days, months or years', () => {
+    expect(formatNextReview(card(), 'again')).toBe('10m')
+    expect(formatNextReview(card({ repetitions: 1, interval: 1 }), 'good')).toBe('6d')
+    expect(formatNextReview(card({ repetitions: 3, interval: 40, ease: 2.5 }), 'good')).toBe('3mo')
+    expect(formatNextReview(card({ repetitions: 5, interval: 200, ease: 2.5 }), 'good')).toBe('1.4y')
+  })
+})
@@ -0,0 +1,202 @@
+import { createDatabaseOpener, requestToPromise, transactionDone } from './idb'
+import { getSentenceRange, joinWords } from './text'
+
+const DB_NAME = 'lingread-flashcards'
+const DB_VERSION = 1
+const CARD_STORE = 'cards'
+const LABEL = 'flashcards'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** A lapsed card comes back within the same session. */
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+const MIN_EASE = 1.3
+const DEFAULT_EASE = 2.5
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_GRADES: { value: ReviewGrade; label: string }[] = [
+  { value: 'again', label: 'Again' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'good', label: 'Good' },
+  { value: 'easy', label: 'Easy' },
+]
+
+/** The sentence a word was saved from, split around the word itself. */
+export interface SentenceContext {
+  before: string
+  word: string
+  after: string
+}
+
+export interface FlashcardSource {
+  /** Document hash, as used by the library and `lingread:<hash>`. */
+  hash: string
+  filename: string
+  wordIndex: number
+  /** Chunk the word was in when saved; chunk sizes can change, so reopening goes by `wordIndex`. */
+  chunkIndex: number
+}
+
+export interface Flashcard {
+  /** `<language>:<form>`, so a word is only carded once per language. */
+  id: string
+  language: string
+  /** `getWordForm` of the saved word. */
+  form: string
+  context: SentenceContext
+  source: FlashcardSource
+  createdAt: string
+  due: string
+  /** Days until the next review after a successful one. */
+  interval: number
+  ease: number
+  repetitions: number
+  lapses: number
+  reviewedAt?: string
+}
+
+const openFlashcardDb = createDatabaseOpener(DB_NAME, DB_VERSION, LABEL, (db) => {
+  if (!db.objectStoreNames.contains(CARD_STORE)) db.createObjectStore(CARD_STORE, { keyPath: 'id' })
+})
+
+export function getFlashcardId(language: string, form: string): string {
+  return `${language}:${form}`
+}
+
+export function getSentenceContext(
+  words: string[],
+  paragraphEnds: number[],
+  wordIndex: number,
+  joined?: Set<number>
+): SentenceContext {
+  const { start, end } = getSentenceRange(words, paragraphEnds, wordIndex)
+  const before = joinWords(words, start, wordIndex, joined)
+  const after = joinWords(words, wordIndex + 1, end, joined)
+  return {
+    before: before && !joined?.has(wordIndex - 1) ? `${before} ` : before,
+    word: words[wordIndex] ?? '',
+    after: after && !joined?.has(wordIndex) ? ` ${after}` : after,
+  }
+}
+
+/** A new card, due straight away. */
+export function createFlashcard(
+  language: string,
+  form: string,
+  context: SentenceContext,
+  source: FlashcardSource,
+  now = Date.now()
+): Flashcard {
+  const created = new Date(now).toISOString()
+  return {
+    id: getFlashcardId(language, form),
+    language,
+    form,
+    context,
+    source,
+    createdAt: created,
+    due: created,
+    interval: 0,
+    ease: DEFAULT_EASE,
+    repetitions: 0,
+    lapses: 0,
+  }
+}
+
+/**
+ * SM-2 scheduling with Anki-style grades: `again` resets the card and brings
+ * it back in minutes, the others grow the interval by the card's ease, which
+ * `hard` lowers and `easy` raises.
+ */
+export function gradeFlashcard(card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard {
+  const reviewedAt = new Date(now).toISOString()
+  if (grade === 'again') {
+    return {
+      ...card,
+      interval: 0,
+      ease: Math.max(MIN_EASE, card.ease - 0.2),
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due: new Date(now + RELEARN_DELAY_MS).toISOString(),
+      reviewedAt,
+    }
+  }
+
+  const interval = getNextInterval(card, grade)
+  const ease =
+    grade === 'hard'
+      ? Math.max(MIN_EASE, card.ease - 0.15)
+      : grade === 'easy'
+        ? card.ease + 0.15
+        : card.ease
+  return {
+    ...card,
+    interval,
+    ease,
+    repetitions: card.repetitions + 1,
+    due: new Date(now + interval * DAY_MS).toISOString(),
+    reviewedAt,
+  }
+}
+
+export function getNextInterval(card: Flashcard, grade: Exclude<ReviewGrade, 'again'>): number {
+  if (grade === 'hard') return Math.max(1, Math.round(card.interval * 1.2))
+  const base = card.repetitions === 0 ? 1 : card.repetitions === 1 ? 6 : Math.round(card.interval * card.ease)
+  return grade === 'easy' ? Math.max(base + 1, Math.round(base * 1.3)) : Math.max(1, base)
+}
+
+/** Short label for when a card graded `grade` would next be due, e.g. `10m` or `6d`. */
+export function formatNextReview(card: Flashcard, grade: ReviewGrade): string {
+  if (grade === 'again') return `${RELEARN_DELAY_MS / 60000}m`
+  const days = getNextInterval(card, grade)
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
+
+export function isFlashcardDue(card: Flashcard, now: number): boolean {
+  return Date.parse(card.due) <= now
+}
+
+export async function listFlashcards(): Promise<Flashcard[]> {
+  const db = await openFlashcardDb()
+  const tx = db.transaction(CARD_STORE, 'readonly')
+  const cards = await requestToPromise<Flashcard[]>(tx.objectStore(CARD_STORE).getAll(), LABEL)
+  return cards.sort((a, b) => a.due.localeCompare(b.due))
+}
+
+export async function saveFlashcard(card: Flashcard): Promise<void> {
+  const db = await openFlashcardDb()
+  const tx = db.transaction(CARD_STORE, 'readwrite')
+  tx.objectStore(CARD_STORE).put(card)
+  await transactionDone(tx, LABEL)
+}
+
+/**
+ * Writes cards from a backup. Cards already stored keep their schedule unless
+ * `overwrite`, which replaces the whole deck. Returns how many were written.
+ */
+export async function restoreFlashcards(cards: Flashcard[], overwrite: boolean): Promise<number> {
+  const db = await openFlashcardDb()
+  const tx = db.transaction(CARD_STORE, 'readwrite')
+  const store = tx.objectStore(CARD_STORE)
+  if (overwrite) store.clear()
+  const existing = overwrite ? [] : await requestToPromise<IDBValidKey[]>(store.getAllKeys(), LABEL)
+  const stored = new Set(existing)
+
+  let written = 0
+  for (const card of cards) {
+    if (stored.has(card.id)) continue
+    store.put(card)
+    written += 1
+  }
+  await transactionDone(tx, LABEL)
+  return written
+}
+
+export async function deleteFlashcard(id: string): Promise<void> {
+  const db = await openFlashcardDb()
+  const tx = db.transaction(CARD_STORE, 'readwrite')
+  tx.objectStore(CARD_STORE).delete(id)
+  await transactionDone(tx, LABEL)
+}
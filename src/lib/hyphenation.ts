@@ -0,0 +1,46 @@
+type Hyphenate = (word: string) => string
+type PatternModule = typeof import('hyphen/en')
+
+// Pattern files are large, so each language is its own chunk loaded on demand
+const PATTERN_LOADERS: Record<string, () => Promise<PatternModule>> = {
+  en: () => import('hyphen/en'),
+  de: () => import('hyphen/de'),
+  fr: () => import('hyphen/fr'),
+  es: () => import('hyphen/es'),
+  it: () => import('hyphen/it'),
+  pt: () => import('hyphen/pt'),
+  nl: () => import('hyphen/nl'),
+  sv: () => import('hyphen/sv'),
+  pl: () => import('hyphen/pl'),
+  ru: () => import('hyphen/ru'),
+  el: () => import('hyphen/el'),
+  hi: () => import('hyphen/hi'),
+}
+
+const loaded = new Map<string, Promise<Hyphenate | null>>()
+
+/**
+ * Hyphenator for `language` that marks syllable boundaries with soft hyphens,
+ * or null when no patterns exist for it. Undetermined Latin text uses English.
+ */
+export function loadHyphenator(language: string): Promise<Hyphenate | null> {
+  const base = language.split('-')[0].toLowerCase()
+  const key = base === 'und' ? 'en' : base
+  let pending = loaded.get(key)
+  if (!pending) {
+    const loader = PATTERN_LOADERS[key]
+    pending = loader
+      ? loader()
+          .then((mod) => {
+            const { hyphenateSync } = mod.default
+            return (word: string) => hyphenateSync(word, { minWordLength: 4 })
+          })
+          .catch(() => {
+            loaded.delete(key)
+            return null
+          })
+      : Promise.resolve(null)
+    loaded.set(key, pending)
+  }
+  return pending
+}
@@ -0,0 +1,47 @@
+/**
+ * Opens (and caches) an IndexedDB database. `label` names the store in error
+ * messages, e.g. "document library".
+ */
+export function createDatabaseOpener(
+  name: string,
+  version: number,
+  label: string,
+  upgrade: (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void
+): () => Promise<IDBDatabase> {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, version)
+        request.onupgradeneeded = (event) => {
+          if (request.transaction) upgrade(request.result, request.transaction, event.oldVersion)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error ?? new Error(`Could not open the ${label}.`))
+      }).catch((error: unknown) => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>, label: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error(`${capitalize(label)} request failed.`))
+  })
+}
+
+export function transactionDone(tx: IDBTransaction, label: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onabort = () => reject(tx.error ?? new Error(`${capitalize(label)} update was aborted.`))
+    tx.onerror = () => reject(tx.error ?? new Error(`${capitalize(label)} update failed.`))
+  })
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,108 @@
+/** Per-file language choice: `auto` follows `detectDocumentLanguage`, anything else is a BCP 47 tag. */
+export type LanguageSetting = 'auto' | string
+
+export const AUTO_LANGUAGE = 'auto'
+
+/** Tag for space-separated text whose language is not pinned down. */
+export const UNDETERMINED_LANGUAGE = 'und'
+
+export const DOCUMENT_LANGUAGES: { value: string; label: string }[] = [
+  { value: UNDETERMINED_LANGUAGE, label: 'Other (space-separated)' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'el', label: 'Greek' },
+  { value: 'ar', label: 'Arabic' },
+  { value: 'fa', label: 'Persian' },
+  { value: 'ur', label: 'Urdu' },
+  { value: 'he', label: 'Hebrew' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'th', label: 'Thai' },
+  { value: 'lo', label: 'Lao' },
+  { value: 'km', label: 'Khmer' },
+  { value: 'my', label: 'Burmese' },
+]
+
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'ur', 'he', 'yi', 'ps', 'sd', 'ug'])
+/** Languages written without spaces between words, which need `Intl.Segmenter`. */
+const SEGMENTED_LANGUAGES = new Set(['zh', 'ja', 'th', 'lo', 'km', 'my'])
+const DETECTION_SAMPLE_CHARS = 20000
+
+// Checked in order; the first script holding the largest share of letters wins
+const SCRIPT_LANGUAGES: { re: RegExp; language: string }[] = [
+  { re: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu, language: 'ja' },
+  { re: /\p{Script=Han}/gu, language: 'zh' },
+  { re: /\p{Script=Hangul}/gu, language: 'ko' },
+  { re: /\p{Script=Thai}/gu, language: 'th' },
+  { re: /\p{Script=Lao}/gu, language: 'lo' },
+  { re: /\p{Script=Khmer}/gu, language: 'km' },
+  { re: /\p{Script=Myanmar}/gu, language: 'my' },
+  { re: /\p{Script=Arabic}/gu, language: 'ar' },
+  { re: /\p{Script=Hebrew}/gu, language: 'he' },
+  { re: /\p{Script=Devanagari}/gu, language: 'hi' },
+  { re: /\p{Script=Cyrillic}/gu, language: 'ru' },
+  { re: /\p{Script=Greek}/gu, language: 'el' },
+  { re: /\p{Script=Latin}/gu, language: UNDETERMINED_LANGUAGE },
+]
+
+/**
+ * Best guess at a document's language from the scripts in its opening text.
+ * Only the script is reliable, so Latin-script text comes back as `und`.
+ */
+export function detectDocumentLanguage(text: string): string {
+  const sample = text.slice(0, DETECTION_SAMPLE_CHARS)
+  let best = UNDETERMINED_LANGUAGE
+  let bestCount = 0
+  const counts = new Map<string, number>()
+
+  for (const { re, language } of SCRIPT_LANGUAGES) {
+    const count = sample.match(re)?.length ?? 0
+    counts.set(language, count)
+    if (count > bestCount) {
+      best = language
+      bestCount = count
+    }
+  }
+
+  // Japanese mixes kanji with kana; a modest share of kana is enough to tell it from Chinese
+  if (best === 'zh' && (counts.get('ja') ?? 0) >= bestCount * 0.1) return 'ja'
+  if (best === 'ar') return detectArabicScriptLanguage(sample)
+  return best
+}
+
+function detectArabicScriptLanguage(sample: string): string {
+  if (/[ٹڈڑںھےۓ]/u.test(sample)) return 'ur'
+  if (/[پچژگکی]/u.test(sample)) return 'fa'
+  return 'ar'
+}
+
+export function resolveDocumentLanguage(setting: LanguageSetting, text: string): string {
+  return setting === AUTO_LANGUAGE ? detectDocumentLanguage(text) : setting
+}
+
+export function isLanguageSetting(value: unknown): value is LanguageSetting {
+  return value === AUTO_LANGUAGE || DOCUMENT_LANGUAGES.some((l) => l.value === value)
+}
+
+export function getLanguageLabel(language: string): string {
+  return DOCUMENT_LANGUAGES.find((l) => l.value === language)?.label ?? language
+}
+
+function baseLanguage(language: string): string {
+  return language.split('-')[0].toLowerCase()
+}
+
+export function getTextDirection(language: string): 'ltr' | 'rtl' {
+  return RTL_LANGUAGES.has(baseLanguage(language)) ? 'rtl' : 'ltr'
+}
+
+export function usesWordSegmentation(language: string | undefined): boolean {
+  return !!language && SEGMENTED_LANGUAGES.has(baseLanguage(language))
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { getLookupCandidates } from './lemmas'
+
+describe('getLookupCandidates', () => {
+  it('tries the word as written, then lower-cased, then suffix guesses', () => {
+    expect(getLookupCandidates('“Cities,”', 'en')).toEqual(['Cities', 'cities', 'city', 'citi', 'citie'])
+  })
+
+  it('undoes a doubled consonant before an inflection', () => {
+    expect(getLookupCandidates('running', 'en-GB')).toContain('run')
+    expect(getLookupCandidates('stopped', 'en')).toContain('stop')
+  })
+
+  it('strips French elisions and English possessives', () => {
+    expect(getLookupCandidates("l'école", 'fr')).toContain('école')
+    expect(getLookupCandidates('Anna’s', 'en')).toContain('anna')
+  })
+
+  it('keeps stems at least two letters long', () => {
+    expect(getLookupCandidates('is', 'en')).toEqual(['is'])
+  })
+
+  it('uses the language’s own rules, falling back to English only for undetermined text', () => {
+    expect(getLookupCandidates('食べました', 'ja')).toContain('食べる')
+    expect(getLookupCandidates('lieder', 'und')).toContain('lied')
+    expect(getLookupCandidates('walked', 'ru')).toEqual(['walked'])
+  })
+
+  it('returns nothing for blank tokens', () => {
+    expect(getLookupCandidates('  ', 'en')).toEqual([])
+  })
+})
@@ -0,0 +1,108 @@
+import { parseToken } from './tokens'
+
+type SuffixRule = [suffix: string, replacement: string]
+
+// Deliberately small: enough to reach a dictionary headword from common inflections
+const SUFFIX_RULES: Record<string, SuffixRule[]> = {
+  en: [
+    ['iest', 'y'],
+    ['ier', 'y'],
+    ['ies', 'y'],
+    ['ied', 'y'],
+    ['ves', 'f'],
+    ['ves', 'fe'],
+    ['ing', ''],
+    ['ing', 'e'],
+    ['ed', ''],
+    ['ed', 'e'],
+    ['es', ''],
+    ['est', ''],
+    ['er', ''],
+    ['ly', ''],
+    ['s', ''],
+  ],
+  es: [
+    ['ces', 'z'],
+    ['es', ''],
+    ['s', ''],
+    ['a', 'o'],
+    ['as', 'o'],
+  ],
+  fr: [
+    ['aux', 'al'],
+    ['x', ''],
+    ['es', ''],
+    ['e', ''],
+    ['s', ''],
+  ],
+  it: [
+    ['i', 'o'],
+    ['e', 'a'],
+    ['i', 'e'],
+  ],
+  pt: [
+    ['ões', 'ão'],
+    ['ns', 'm'],
+    ['es', ''],
+    ['s', ''],
+    ['a', 'o'],
+  ],
+  de: [
+    ['ern', ''],
+    ['en', ''],
+    ['er', ''],
+    ['es', ''],
+    ['e', ''],
+    ['n', ''],
+    ['s', ''],
+  ],
+  ja: [
+    ['なかった', 'る'],
+    ['ません', 'る'],
+    ['ました', 'る'],
+    ['ます', 'る'],
+    ['ない', 'る'],
+    ['られる', 'る'],
+    ['させる', 'る'],
+    ['た', 'る'],
+    ['て', 'る'],
+    ['かった', 'い'],
+    ['くない', 'い'],
+    ['くて', 'い'],
+    ['く', 'い'],
+  ],
+}
+
+const ELISION_RE = /^(?:[ldjmnstc]|qu|jusqu|lorsqu|puisqu)['’]/i
+const POSSESSIVE_RE = /['’]s$/i
+const DOUBLED_CONSONANT_RE = /([b-df-hj-np-tv-z])\1$/i
+const MIN_STEM_LENGTH = 2
+
+/**
+ * Forms to try, best first, when looking `token` up in a dictionary: the word
+ * stripped of punctuation (as `parseToken` does), its lower-case form, then
+ * simple lemma guesses from suffix rules for the document language.
+ */
+export function getLookupCandidates(token: string, language: string): string[] {
+  const core = parseToken(token)?.core || token.trim()
+  if (!core) return []
+
+  const base = language.split('-')[0].toLowerCase()
+  const rules = SUFFIX_RULES[base] ?? (base === 'und' ? SUFFIX_RULES.en : [])
+  const lower = core.toLocaleLowerCase()
+  const forms = [core, lower]
+
+  const stripped = lower.replace(ELISION_RE, '').replace(POSSESSIVE_RE, '')
+  forms.push(stripped)
+
+  for (const [suffix, replacement] of rules) {
+    if (!stripped.endsWith(suffix)) continue
+    const stem = stripped.slice(0, stripped.length - suffix.length)
+    if (stem.length < MIN_STEM_LENGTH) continue
+    forms.push(stem + replacement)
+    // running → runn → run
+    if (replacement === '' && DOUBLED_CONSONANT_RE.test(stem)) forms.push(stem.slice(0, -1))
+  }
+
+  return Array.from(new Set(forms.filter(Boolean)))
+}
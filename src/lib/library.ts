@@ -0,0 +1,151 @@
+import type { DocumentSection, OcrPage } from './documentText'
+import { createDatabaseOpener, requestToPromise, transactionDone } from './idb'
+
+const DB_NAME = 'lingread-library'
+const DB_VERSION = 1
+const META_STORE = 'documents'
+const CONTENT_STORE = 'contents'
+const LABEL = 'document library'
+
+/** Library listing data; the text lives in a separate store so listing stays cheap. */
+export interface LibraryEntry {
+  /** SHA-256 of the extracted text, the same key `lingread:<hash>` uses. */
+  hash: string
+  filename: string
+  wordCount: number
+  /** Approximate size of the stored text in bytes. */
+  size: number
+  /** Percentage of words read through the current chunk, 0–100. */
+  progress: number
+  addedAt: string
+  lastOpenedAt: string
+}
+
+export interface LibraryContent {
+  hash: string
+  text: string
+  sections: DocumentSection[]
+  /** Absent for documents stored before OCR, and for those that did not need it. */
+  ocrPages?: OcrPage[]
+}
+
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+const openLibraryDb = createDatabaseOpener(DB_NAME, DB_VERSION, LABEL, (db) => {
+  if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'hash' })
+  if (!db.objectStoreNames.contains(CONTENT_STORE)) db.createObjectStore(CONTENT_STORE, { keyPath: 'hash' })
+})
+
+/** Adds a document, or refreshes its name and last-opened date when it is already stored. */
+export async function saveLibraryDocument(
+  filename: string,
+  content: LibraryContent,
+  wordCount: number
+): Promise<LibraryEntry> {
+  const db = await openLibraryDb()
+  const now = new Date().toISOString()
+  const existing = await getLibraryEntry(content.hash)
+  const entry: LibraryEntry = {
+    hash: content.hash,
+    filename,
+    wordCount,
+    size: new Blob([content.text]).size,
+    progress: existing?.progress ?? 0,
+    addedAt: existing?.addedAt ?? now,
+    lastOpenedAt: now,
+  }
+
+  const tx = db.transaction([META_STORE, CONTENT_STORE], 'readwrite')
+  tx.objectStore(META_STORE).put(entry)
+  tx.objectStore(CONTENT_STORE).put(content)
+  await transactionDone(tx, LABEL)
+  return entry
+}
+
+export async function getLibraryEntry(hash: string): Promise<LibraryEntry | undefined> {
+  const db = await openLibraryDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  return requestToPromise<LibraryEntry | undefined>(tx.objectStore(META_STORE).get(hash), LABEL)
+}
+
+/** All stored documents, most recently opened first. */
+export async function listLibraryEntries(): Promise<LibraryEntry[]> {
+  const db = await openLibraryDb()
+  const tx = db.transaction(META_STORE, 'readonly')
+  const entries = await requestToPromise<LibraryEntry[]>(tx.objectStore(META_STORE).getAll(), LABEL)
+  return entries.sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt))
+}
+
+export async function loadLibraryContent(hash: string): Promise<LibraryContent | undefined> {
+  const db = await openLibraryDb()
+  const tx = db.transaction(CONTENT_STORE, 'readonly')
+  return requestToPromise<LibraryContent | undefined>(tx.objectStore(CONTENT_STORE).get(hash), LABEL)
+}
+
+export async function updateLibraryEntry(
+  hash: string,
+  patch: Partial<Pick<LibraryEntry, 'progress' | 'lastOpenedAt'>>
+): Promise<void> {
+  const db = await openLibraryDb()
+  const tx = db.transaction(META_STORE, 'readwrite')
+  const store = tx.objectStore(META_STORE)
+  const entry = await requestToPromise<LibraryEntry | undefined>(store.get(hash), LABEL)
+  if (entry) store.put({ ...entry, ...patch })
+  await transactionDone(tx, LABEL)
+}
+
+/**
+ * Stores a document from a backup as it was saved. A document already in the
+ * library is kept unless `overwrite`; returns whether it was written.
+ */
+export async function restoreLibraryDocument(
+  entry: LibraryEntry,
+  content: LibraryContent,
+  overwrite: boolean
+): Promise<boolean> {
+  const db = await openLibraryDb()
+  const tx = db.transaction([META_STORE, CONTENT_STORE], 'readwrite')
+  const store = tx.objectStore(META_STORE)
+  const existing = await requestToPromise<LibraryEntry | undefined>(store.get(entry.hash), LABEL)
+  const write = overwrite || !existing
+  if (write) {
+    store.put(entry)
+    tx.objectStore(CONTENT_STORE).put(content)
+  }
+  await transactionDone(tx, LABEL)
+  return write
+}
+
+/** Removes the stored document. Reading position and annotations in localStorage are kept. */
+export async function deleteLibraryDocument(hash: string): Promise<void> {
+  const db = await openLibraryDb()
+  const tx = db.transaction([META_STORE, CONTENT_STORE], 'readwrite')
+  tx.objectStore(META_STORE).delete(hash)
+  tx.objectStore(CONTENT_STORE).delete(hash)
+  await transactionDone(tx, LABEL)
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+    return { usage, quota }
+  } catch {
+    return null
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit += 1
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`
+}
@@ -0,0 +1,57 @@
+import { formatBytes, type LibraryEntry, type StorageUsage } from './library'
+
+/** A library entry as listed, with its note count alongside. */
+export type LibraryListItem = LibraryEntry & { noteCount: number }
+
+interface LibraryPanelProps {
+  entries: LibraryListItem[]
+  storageUsage: StorageUsage | null
+  onOpen: (entry: LibraryListItem) => void
+  onRemove: (entry: LibraryListItem) => void
+}
+
+/** Documents kept in the browser, most recent first, with how far each has been read. */
+export function LibraryPanel({ entries, storageUsage, onOpen, onRemove }: LibraryPanelProps) {
+  return (
+    <section className="library" aria-label="Library">
+      <h2 className="libraryTitle">Library</h2>
+      <ul className="libraryList">
+        {entries.map((entry) => (
+          <li key={entry.hash} className="libraryItem">
+            <button
+              type="button"
+              className="libraryOpen"
+              onClick={() => onOpen(entry)}
+              title={`Resume ${entry.filename}`}
+            >
+              <span className="libraryName">{entry.filename}</span>
+              <span className="libraryMeta">
+                {entry.progress}% read · {entry.noteCount} note{entry.noteCount === 1 ? '' : 's'} ·{' '}
+                opened {new Date(entry.lastOpenedAt).toLocaleDateString()}
+              </span>
+              <span className="libraryProgress" aria-hidden="true">
+                <span className="libraryProgressFill" style={{ width: `${entry.progress}%` }} />
+              </span>
+            </button>
+            <button
+              type="button"
+              className="btn"
+              onClick={() => onRemove(entry)}
+              aria-label={`Delete ${entry.filename} from the library`}
+              title="Delete from library"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+      {storageUsage ? (
+        <p className="muted">
+          Storage used: {formatBytes(storageUsage.usage)}
+          {storageUsage.quota > 0 ? ` of ${formatBytes(storageUsage.quota)}` : ''} ·{' '}
+          {formatBytes(entries.reduce((sum, entry) => sum + entry.size, 0))} in documents
+        </p>
+      ) : null}
+    </section>
+  )
+}
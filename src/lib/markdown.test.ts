@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { extractPartsFromMarkdown } from './markdown'
+
+describe('extractPartsFromMarkdown', () => {
+  it('starts a part at each ATX or setext heading', () => {
+    const { parts, sections } = extractPartsFromMarkdown(
+      ['Lead in.', '# One', 'First body.', 'Two', '---', 'Second body.'].join('\n')
+    )
+    expect(parts).toEqual(['Lead in.', 'One\n\nFirst body.', 'Two\n\nSecond body.'])
+    expect(sections).toEqual([
+      { title: 'One', level: 0, part: 1, wordOffsetInPart: 0 },
+      { title: 'Two', level: 1, part: 2, wordOffsetInPart: 0 },
+    ])
+  })
+
+  it('strips inline and block markup but keeps the words', () => {
+    const { parts } = extractPartsFromMarkdown(
+      [
+        '> A **bold** and _quiet_ [link](https://example.com) with `code`.',
+        '- [x] done ~~item~~',
+        '1. ![a cat](cat.png)',
+        '***',
+        '[ref]: https://example.com',
+      ].join('\n')
+    )
+    expect(parts).toEqual(['A bold and quiet link with code.\ndone item\na cat\n\n'])
+  })
+
+  it('skips front matter and keeps fenced code lines as text', () => {
+    const { parts, sections } = extractPartsFromMarkdown(
+      ['---', 'title: Notes', '---', '```js', '# not a heading', '```', 'After.'].join('\n')
+    )
+    expect(sections).toEqual([])
+    expect(parts).toEqual(['\n# not a heading\n\nAfter.'])
+  })
+})
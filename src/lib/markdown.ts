@@ -0,0 +1,76 @@
+import type { ExtractedParts, PartSection } from './documentParts'
+
+/** Plain text from Markdown, one part per heading so headings become sections. */
+export function extractPartsFromMarkdown(source: string): ExtractedParts {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n(?:---|\.\.\.)\n/, '')
+    .split('\n')
+  const parts: string[] = []
+  const sections: PartSection[] = []
+  let current: string[] = []
+  let fence: string | null = null
+
+  const startSection = (title: string, level: number) => {
+    parts.push(current.join('\n'))
+    sections.push({ title, level, part: parts.length, wordOffsetInPart: 0 })
+    current = [title, '']
+  }
+
+  for (const line of lines) {
+    const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line)
+    if (fenceMatch && (fence === null || fenceMatch[1].startsWith(fence))) {
+      fence = fence === null ? fenceMatch[1] : null
+      current.push('')
+      continue
+    }
+    if (fence !== null) {
+      current.push(line)
+      continue
+    }
+
+    const atx = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line)
+    if (atx) {
+      startSection(stripInlineMarkdown(atx[2]), atx[1].length - 1)
+      continue
+    }
+
+    // Setext headings: a text line underlined with === or ---
+    const previous = current[current.length - 1]
+    if (/^\s{0,3}(=+|-+)\s*$/.test(line) && previous?.trim()) {
+      current.pop()
+      startSection(previous.trim(), line.trim().startsWith('=') ? 0 : 1)
+      continue
+    }
+
+    current.push(stripInlineMarkdown(stripBlockMarkdown(line)))
+  }
+
+  parts.push(current.join('\n'))
+  return { parts, sections }
+}
+
+function stripBlockMarkdown(line: string): string {
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return ''
+  if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) return ''
+  if (/^\s{0,3}\[[^\]]+\]:\s+\S+/.test(line)) return ''
+  return line
+    .replace(/^\s{0,3}(>\s?)+/, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/, '')
+    .replace(/\s*\|\s*/g, ' ')
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+    .replace(/<(https?:[^>\s]+)>/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\*)/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1')
+}
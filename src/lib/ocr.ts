@@ -0,0 +1,146 @@
+// Static `?url` imports resolve to plain strings, so the page and the extraction worker share one copy of each
+// asset instead of each build emitting its own loader chunk
+import workerUrl from 'tesseract.js/dist/worker.min.js?url'
+// Every browser the reader supports has WebAssembly SIMD, so only that build is shipped
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'
+import engData from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'
+import spaData from '@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url'
+import fraData from '@tesseract.js-data/fra/4.0.0_best_int/fra.traineddata.gz?url'
+import deuData from '@tesseract.js-data/deu/4.0.0_best_int/deu.traineddata.gz?url'
+import itaData from '@tesseract.js-data/ita/4.0.0_best_int/ita.traineddata.gz?url'
+import porData from '@tesseract.js-data/por/4.0.0_best_int/por.traineddata.gz?url'
+import ellData from '@tesseract.js-data/ell/4.0.0_best_int/ell.traineddata.gz?url'
+import araData from '@tesseract.js-data/ara/4.0.0_best_int/ara.traineddata.gz?url'
+import hebData from '@tesseract.js-data/heb/4.0.0_best_int/heb.traineddata.gz?url'
+import hinData from '@tesseract.js-data/hin/4.0.0_best_int/hin.traineddata.gz?url'
+import chiSimData from '@tesseract.js-data/chi_sim/4.0.0_best_int/chi_sim.traineddata.gz?url'
+import jpnData from '@tesseract.js-data/jpn/4.0.0_best_int/jpn.traineddata.gz?url'
+import korData from '@tesseract.js-data/kor/4.0.0_best_int/kor.traineddata.gz?url'
+
+const STORAGE_KEY = 'lingread:ocr-language'
+
+/** Languages with bundled recognition data (Tesseract codes). */
+export const OCR_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'eng', label: 'English' },
+  { value: 'spa', label: 'Spanish' },
+  { value: 'fra', label: 'French' },
+  { value: 'deu', label: 'German' },
+  { value: 'ita', label: 'Italian' },
+  { value: 'por', label: 'Portuguese' },
+  { value: 'ell', label: 'Greek' },
+  { value: 'ara', label: 'Arabic' },
+  { value: 'heb', label: 'Hebrew' },
+  { value: 'hin', label: 'Hindi' },
+  { value: 'chi_sim', label: 'Chinese (simplified)' },
+  { value: 'jpn', label: 'Japanese' },
+  { value: 'kor', label: 'Korean' },
+]
+
+export const DEFAULT_OCR_LANGUAGE = 'eng'
+
+// Built as same-origin assets, so recognition never reaches for a CDN and the service worker can cache it
+const LANGUAGE_DATA: Record<string, string> = {
+  eng: engData,
+  spa: spaData,
+  fra: fraData,
+  deu: deuData,
+  ita: itaData,
+  por: porData,
+  ell: ellData,
+  ara: araData,
+  heb: hebData,
+  hin: hinData,
+  chi_sim: chiSimData,
+  jpn: jpnData,
+  kor: korData,
+}
+
+/** Runtime cache the service worker serves recognition data from; matches vite.config.ts. */
+const LANGUAGE_DATA_CACHE = 'lingread-tessdata'
+
+export interface OcrResult {
+  text: string
+  /** Tesseract's mean word confidence, 0–100. */
+  confidence: number
+}
+
+export interface OcrEngine {
+  recognize(image: OffscreenCanvas): Promise<OcrResult>
+  terminate(): Promise<void>
+}
+
+export function isOcrLanguage(value: unknown): value is string {
+  return typeof value === 'string' && value in LANGUAGE_DATA
+}
+
+export function loadOcrLanguage(): string {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  return isOcrLanguage(stored) ? stored : DEFAULT_OCR_LANGUAGE
+}
+
+export function saveOcrLanguage(language: string) {
+  localStorage.setItem(STORAGE_KEY, language)
+}
+
+/**
+ * Starts a Tesseract worker for `language`, loading the engine and the
+ * language data from the app's own assets. Works in a worker as well as on
+ * the page.
+ */
+export async function createOcrEngine(language: string): Promise<OcrEngine> {
+  const dataUrl = LANGUAGE_DATA[language]
+  if (!dataUrl) throw new Error(`No text recognition data for “${language}”.`)
+
+  const { createWorker, OEM } = await import('tesseract.js')
+
+  const worker = await createWorker(language, OEM.LSTM_ONLY, {
+    workerPath: resolve(workerUrl),
+    corePath: resolve(coreUrl),
+    // Tesseract appends `/<language>.traineddata.gz`; the build keeps that file name (see vite.config.ts)
+    langPath: new URL('.', resolve(dataUrl)).href,
+    workerBlobURL: false,
+    // The service worker caches the data, so Tesseract's own IndexedDB copy would only double it
+    cacheMethod: 'none',
+  })
+
+  return {
+    async recognize(image) {
+      const { data } = await worker.recognize(image)
+      return { text: data.text, confidence: Math.round(data.confidence) }
+    },
+    async terminate() {
+      await worker.terminate()
+    },
+  }
+}
+
+function resolve(url: string): string {
+  return new URL(url, globalThis.location.href).href
+}
+
+/**
+ * Whether `language`'s recognition data is already in the browser, so scans
+ * in it can be read offline. Precached English counts as well.
+ */
+export async function isOcrLanguageOffline(language: string): Promise<boolean> {
+  const dataUrl = LANGUAGE_DATA[language]
+  if (!dataUrl || typeof caches === 'undefined') return false
+  // The precache stores its files under a revision query
+  return (await caches.match(resolve(dataUrl), { ignoreSearch: true })) !== undefined
+}
+
+/** Downloads `language`'s recognition data into the cache the service worker reads it from. */
+export async function downloadOcrLanguage(language: string): Promise<void> {
+  const dataUrl = LANGUAGE_DATA[language]
+  if (!dataUrl) throw new Error(`No text recognition data for “${language}”.`)
+  if (typeof caches === 'undefined') throw new Error('This browser cannot keep files for offline use here.')
+  const cache = await caches.open(LANGUAGE_DATA_CACHE)
+  await cache.add(resolve(dataUrl))
+}
+
+/** Bucket for the confidence indicator. */
+export function getOcrConfidenceLevel(confidence: number): 'low' | 'medium' | 'high' {
+  if (confidence < 60) return 'low'
+  if (confidence < 80) return 'medium'
+  return 'high'
+}
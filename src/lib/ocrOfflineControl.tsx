@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { downloadOcrLanguage, isOcrLanguageOffline, OCR_LANGUAGES } from './ocr'
+
+interface OcrOfflineControlProps {
+  language: string
+}
+
+type OfflineState = 'checking' | 'missing' | 'downloading' | 'ready' | 'error'
+
+/**
+ * Shows whether the chosen OCR language works offline and, when it does not
+ * yet, offers to download its data now instead of on the first scanned page.
+ */
+export function OcrOfflineControl({ language }: OcrOfflineControlProps) {
+  // Tagged with its language, so switching languages reads as checking until the cache answers
+  const [status, setStatus] = useState<{ language: string; state: OfflineState } | null>(null)
+  const state = status?.language === language ? status.state : 'checking'
+  const label = OCR_LANGUAGES.find((l) => l.value === language)?.label ?? language
+
+  useEffect(() => {
+    let cancelled = false
+    isOcrLanguageOffline(language)
+      .catch(() => false)
+      .then((offline) => {
+        if (!cancelled) setStatus({ language, state: offline ? 'ready' : 'missing' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [language])
+
+  async function download() {
+    setStatus({ language, state: 'downloading' })
+    try {
+      await downloadOcrLanguage(language)
+      setStatus({ language, state: 'ready' })
+    } catch {
+      setStatus({ language, state: 'error' })
+    }
+  }
+
+  if (state === 'checking') return null
+  if (state === 'ready') return <p className="muted ocrOffline">{label} text recognition works offline.</p>
+  return (
+    <p className="muted ocrOffline">
+      <button type="button" className="btn" onClick={() => void download()} disabled={state === 'downloading'}>
+        {state === 'downloading' ? 'Downloading…' : `Download ${label} for offline use`}
+      </button>{' '}
+      {state === 'error' ? 'The download failed; check the connection and try again.' : null}
+    </p>
+  )
+}
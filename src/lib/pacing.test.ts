@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { countPacingBeats, getChunkDelayMs, msPerWord, toggleAutoAdvance } from './pacing'
+
+describe('countPacingBeats', () => {
+  it('counts a beat per word, more for long words', () => {
+    expect(countPacingBeats(['a', 'short', 'line'])).toBe(3)
+    // 12 letters: five past the long-word length
+    expect(countPacingBeats(['extraordinar'])).toBeCloseTo(1.4)
+    expect(countPacingBeats(['incomprehensibilities'])).toBe(2)
+  })
+
+  it('adds pauses after sentence and clause punctuation', () => {
+    expect(countPacingBeats(['Stop.'])).toBe(2.5)
+    expect(countPacingBeats(['“Why?”'])).toBe(2.5)
+    expect(countPacingBeats(['wait,'])).toBe(1.5)
+    expect(countPacingBeats(['终于。'])).toBe(2.5)
+  })
+})
+
+describe('getChunkDelayMs', () => {
+  it('converts beats at the chosen speed, lingering at paragraph ends', () => {
+    expect(getChunkDelayMs(['one', 'two', 'three'], 300, false)).toBe(600)
+    expect(getChunkDelayMs(['one', 'two', 'three'], 300, true)).toBe(1200)
+  })
+
+  it('never flips faster than a quarter second', () => {
+    expect(getChunkDelayMs(['a'], 1200, false)).toBe(250)
+  })
+})
+
+describe('msPerWord', () => {
+  it('guards against a zero speed', () => {
+    expect(msPerWord(60)).toBe(1000)
+    expect(msPerWord(0)).toBe(60000)
+  })
+})
+
+describe('toggleAutoAdvance', () => {
+  it('switches between playing and paused and leaves off alone', () => {
+    expect(toggleAutoAdvance('playing')).toBe('paused')
+    expect(toggleAutoAdvance('paused')).toBe('playing')
+    expect(toggleAutoAdvance('off')).toBe('off')
+  })
+})
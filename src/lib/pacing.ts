@@ -0,0 +1,51 @@
+import { CLAUSE_END_RE, SENTENCE_END_RE } from './text'
+
+export type AutoAdvanceState = 'off' | 'playing' | 'paused'
+
+export const DEFAULT_WPM = 250
+export const MIN_WPM = 60
+export const MAX_WPM = 1200
+
+const LONG_WORD_LENGTH = 7
+const LONG_WORD_STEP = 0.08
+const LONG_WORD_MAX_EXTRA = 1
+const SENTENCE_PAUSE_WORDS = 1.5
+const CLAUSE_PAUSE_WORDS = 0.5
+export const PARAGRAPH_PAUSE_WORDS = 3
+const MIN_CHUNK_DELAY_MS = 250
+
+const CORE_LETTERS_RE = /[\p{L}\p{N}]/gu
+
+/**
+ * Reading cost of `words` in word-sized beats: one per word, stretched for
+ * long words, plus extra beats after sentence and clause punctuation.
+ */
+export function countPacingBeats(words: string[]): number {
+  let beats = 0
+
+  for (const word of words) {
+    const letters = word.match(CORE_LETTERS_RE)?.length ?? 0
+    const extra = Math.min(LONG_WORD_MAX_EXTRA, Math.max(0, letters - LONG_WORD_LENGTH) * LONG_WORD_STEP)
+    beats += 1 + extra
+
+    if (SENTENCE_END_RE.test(word)) beats += SENTENCE_PAUSE_WORDS
+    else if (CLAUSE_END_RE.test(word)) beats += CLAUSE_PAUSE_WORDS
+  }
+
+  return beats
+}
+
+/** How long a chunk stays on screen at `wpm`, lingering longer when it closes a paragraph. */
+export function getChunkDelayMs(words: string[], wpm: number, endsParagraph: boolean): number {
+  const beats = countPacingBeats(words) + (endsParagraph ? PARAGRAPH_PAUSE_WORDS : 0)
+  return Math.max(MIN_CHUNK_DELAY_MS, Math.round(beats * msPerWord(wpm)))
+}
+
+export function msPerWord(wpm: number): number {
+  return 60000 / Math.max(1, wpm)
+}
+
+export function toggleAutoAdvance(state: AutoAdvanceState): AutoAdvanceState {
+  if (state === 'off') return 'off'
+  return state === 'playing' ? 'paused' : 'playing'
+}
@@ -0,0 +1,62 @@
+import type { PdfCleanupSample } from './documentText'
+
+interface PdfCleanupPanelProps {
+  enabled: boolean
+  onToggle: (enabled: boolean) => void
+  /** Whether the open document was extracted with cleanup; null when it came from the library. */
+  applied: boolean | null
+  onReopen: () => void
+  samples: PdfCleanupSample[]
+}
+
+/**
+ * Switches PDF cleanup on or off and shows pages of the open PDF before and
+ * after it. Extraction decides the text, so a change applies by reading the
+ * file again.
+ */
+export function PdfCleanupPanel({ enabled, onToggle, applied, onReopen, samples }: PdfCleanupPanelProps) {
+  return (
+    <div id="pdf-cleanup-panel" className="dictionaryPanel" aria-label="PDF cleanup">
+      <label className="checkControl">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.currentTarget.checked)} />
+        Clean up PDF text
+      </label>
+      <p className="muted">
+        Removes running headers, footers and page numbers, rejoins words hyphenated at line ends and reads multi-column
+        pages one column at a time.
+      </p>
+      {applied === null ? (
+        <p className="muted">Applies the next time a PDF is opened.</p>
+      ) : applied !== enabled ? (
+        <p>
+          <button type="button" className="btn" onClick={onReopen}>
+            Reopen this PDF {enabled ? 'with' : 'without'} cleanup
+          </button>{' '}
+          <span className="muted">Notes and reading position are kept separately for each version.</span>
+        </p>
+      ) : null}
+
+      {samples.length > 0 ? (
+        samples.map((sample) => (
+          <figure key={sample.page} className="cleanupSample">
+            <figcaption className="controlLabel">Page {sample.page}</figcaption>
+            <div className="cleanupSampleText">
+              <span className="controlLabel">Before</span>
+              <p>{sample.before}</p>
+            </div>
+            <div className="cleanupSampleText">
+              <span className="controlLabel">After</span>
+              <p>{sample.after}</p>
+            </div>
+          </figure>
+        ))
+      ) : (
+        <p className="muted">
+          {applied === null
+            ? 'The preview is shown right after a PDF is opened from a file.'
+            : 'Cleanup finds nothing to change in this PDF.'}
+        </p>
+      )}
+    </div>
+  )
+}
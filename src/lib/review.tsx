@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { lookupWord, type LookupResult } from './dictionary'
+import { formatNextReview, REVIEW_GRADES, type Flashcard, type ReviewGrade } from './flashcards'
+import { getTextDirection } from './language'
+
+interface ReviewScreenProps {
+  /** Cards due now, most overdue first. */
+  dueCards: Flashcard[]
+  totalCount: number
+  /** Look the word up in the installed dictionaries when the card is turned over. */
+  hasDictionaries: boolean
+  onGrade: (card: Flashcard, grade: ReviewGrade) => void
+  onOpenSource: (card: Flashcard) => void
+  onDelete: (card: Flashcard) => void
+  onClose: () => void
+}
+
+/**
+ * One card at a time: the word in its sentence, then (Space / Enter) the
+ * dictionary entry and the grade buttons (1–4). Escape closes the screen.
+ */
+export function ReviewScreen({
+  dueCards,
+  totalCount,
+  hasDictionaries,
+  onGrade,
+  onOpenSource,
+  onDelete,
+  onClose,
+}: ReviewScreenProps) {
+  const card = dueCards[0] as Flashcard | undefined
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const [lookup, setLookup] = useState<{ id: string; result: LookupResult | null } | null>(null)
+  const revealed = card !== undefined && revealedId === card.id
+
+  function grade(graded: Flashcard, value: ReviewGrade) {
+    setRevealedId(null)
+    onGrade(graded, value)
+  }
+
+  useEffect(() => {
+    if (!card || !revealed || !hasDictionaries) return
+    let cancelled = false
+    void lookupWord(card.context.word, card.language)
+      .then((result) => {
+        if (!cancelled) setLookup({ id: card.id, result })
+      })
+      .catch(() => {
+        if (!cancelled) setLookup({ id: card.id, result: null })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [card, revealed, hasDictionaries])
+
+  // Capture phase, so review keys never reach the reader's shortcuts
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return
+      const gradeIndex = Number(e.key) - 1
+      if (e.code === 'Escape') onClose()
+      else if (card && !revealed && (e.code === 'Space' || e.code === 'Enter')) setRevealedId(card.id)
+      else if (card && revealed && REVIEW_GRADES[gradeIndex]) {
+        setRevealedId(null)
+        onGrade(card, REVIEW_GRADES[gradeIndex].value)
+      } else return
+      e.preventDefault()
+      e.stopPropagation()
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [card, revealed, onGrade, onClose])
+
+  if (!card) {
+    return (
+      <section className="review" aria-label="Review">
+        <h1 className="reviewTitle">All caught up</h1>
+        <p className="muted">
+          {totalCount === 0
+            ? 'Tap a word while reading and save it, or mark it as learning, to start reviewing.'
+            : `No cards are due. ${totalCount.toLocaleString()} saved ${totalCount === 1 ? 'word' : 'words'} in total.`}
+        </p>
+        <button type="button" className="btn" onClick={onClose}>
+          Back to reading
+        </button>
+      </section>
+    )
+  }
+
+  const matches = lookup?.id === card.id ? (lookup.result?.matches ?? []) : []
+
+  return (
+    <section className="review" aria-label="Review">
+      <div className="reviewHeader">
+        <span className="muted">
+          {dueCards.length.toLocaleString()} due · {totalCount.toLocaleString()} saved
+        </span>
+        <button type="button" className="btn" onClick={onClose} title="Close (Esc)">
+          Close
+        </button>
+      </div>
+
+      <div className="reviewCard" lang={card.language} dir={getTextDirection(card.language)}>
+        <p className="reviewWord">{card.context.word}</p>
+        <p className="reviewSentence">
+          {card.context.before}
+          <mark>{card.context.word}</mark>
+          {card.context.after}
+        </p>
+      </div>
+
+      {revealed ? (
+        <>
+          {matches.length > 0 ? (
+            <dl className="lookupEntries reviewEntries">
+              {matches.map((match, i) => (
+                <div key={i} className="lookupEntry">
+                  <dt>
+                    {match.headword}
+                    {match.reading ? <span className="lookupReading"> 【{match.reading}】</span> : null}
+                  </dt>
+                  {match.definitions.map((definition, j) => (
+                    <dd key={j}>{definition}</dd>
+                  ))}
+                </div>
+              ))}
+            </dl>
+          ) : null}
+          <div className="reviewGrades" role="group" aria-label="How well did you remember it?">
+            {REVIEW_GRADES.map((option, i) => (
+              <button
+                key={option.value}
+                type="button"
+                className={option.value === 'good' ? 'btn btnPrimary' : 'btn'}
+                onClick={() => grade(card, option.value)}
+                title={`${option.label} (${i + 1})`}
+              >
+                {option.label} <span className="muted">{formatNextReview(card, option.value)}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <button type="button" className="btn btnPrimary" onClick={() => setRevealedId(card.id)} title="Space">
+          Show answer
+        </button>
+      )}
+
+      <div className="reviewSource">
+        <button type="button" className="btn" onClick={() => onOpenSource(card)}>
+          {card.source.filename} · chunk {card.source.chunkIndex + 1}
+        </button>
+        <button type="button" className="btn" onClick={() => onDelete(card)}>
+          Delete card
+        </button>
+      </div>
+    </section>
+  )
+}
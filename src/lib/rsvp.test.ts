@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { buildRsvpFrame, getOptimalRecognitionIndex, getRsvpDelayMs, splitIntoRsvpGroups } from './rsvp'
+
+describe('splitIntoRsvpGroups', () => {
+  it('groups words up to the size, closing a group at punctuation', () => {
+    expect(splitIntoRsvpGroups(['One', 'two', 'three,', 'four', 'five.', 'Six'], 2)).toEqual([
+      ['One', 'two'],
+      ['three,'],
+      ['four', 'five.'],
+      ['Six'],
+    ])
+  })
+})
+
+describe('getOptimalRecognitionIndex', () => {
+  it('moves the fixation letter right as words get longer', () => {
+    expect([1, 2, 5, 6, 9, 10, 13, 14].map(getOptimalRecognitionIndex)).toEqual([0, 1, 1, 2, 2, 3, 3, 4])
+  })
+})
+
+describe('buildRsvpFrame', () => {
+  it('centres the longest word on its fixation letter, outside any punctuation', () => {
+    expect(buildRsvpFrame(['“Reading', 'is'])).toEqual({ before: '“Re', pivot: 'a', after: 'ding is' })
+    expect(buildRsvpFrame(['a', 'chunk.'])).toEqual({ before: 'a c', pivot: 'h', after: 'unk.' })
+  })
+
+  it('keeps words written joined together, by document index', () => {
+    // Japanese is written without spaces; the words from index 10 on are one run
+    const joined = new Set([10, 11])
+    expect(buildRsvpFrame(['東京', 'に', '行く'], 10, joined)).toEqual({ before: '東', pivot: '京', after: 'に行く' })
+    expect(buildRsvpFrame(['に', '行きました'], 11, joined)).toEqual({ before: 'に行', pivot: 'き', after: 'ました' })
+  })
+
+  it('splits punctuation-only tokens in the middle', () => {
+    expect(buildRsvpFrame(['—'])).toEqual({ before: '', pivot: '—', after: '' })
+    expect(buildRsvpFrame([])).toEqual({ before: '', pivot: '', after: '' })
+  })
+})
+
+describe('getRsvpDelayMs', () => {
+  it('paces by beats, with a floor for very fast speeds', () => {
+    expect(getRsvpDelayMs(['word'], 600, false)).toBe(100)
+    expect(getRsvpDelayMs(['end.'], 600, true)).toBe(550)
+    expect(getRsvpDelayMs(['a'], 1200, false)).toBe(60)
+  })
+})
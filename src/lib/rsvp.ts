@@ -0,0 +1,107 @@
+import { countPacingBeats, msPerWord, PARAGRAPH_PAUSE_WORDS } from './pacing'
+import { CLAUSE_END_RE, joinWords, SENTENCE_END_RE } from './text'
+import { parseToken } from './tokens'
+
+export type PresentationMode = 'chunk' | 'rsvp'
+
+export const PRESENTATION_MODES: { value: PresentationMode; label: string }[] = [
+  { value: 'chunk', label: 'Bionic chunk' },
+  { value: 'rsvp', label: 'RSVP' },
+]
+
+export const DEFAULT_RSVP_WPM = 350
+export const RSVP_GROUP_SIZES = [1, 2, 3] as const
+
+const MIN_RSVP_DELAY_MS = 60
+
+export interface RsvpFrame {
+  /** Text before the fixation letter, rendered right-aligned. */
+  before: string
+  pivot: string
+  /** Text after the fixation letter, rendered left-aligned. */
+  after: string
+}
+
+export function isPresentationMode(value: unknown): value is PresentationMode {
+  return PRESENTATION_MODES.some((m) => m.value === value)
+}
+
+/** Splits a chunk into flashes of up to `groupSize` words, never carrying a group past punctuation. */
+export function splitIntoRsvpGroups(words: string[], groupSize: number): string[][] {
+  const groups: string[][] = []
+  let current: string[] = []
+
+  for (const word of words) {
+    current.push(word)
+    if (current.length >= groupSize || SENTENCE_END_RE.test(word) || CLAUSE_END_RE.test(word)) {
+      groups.push(current)
+      current = []
+    }
+  }
+
+  if (current.length > 0) groups.push(current)
+  return groups
+}
+
+/**
+ * Optimal recognition point: the letter slightly left of centre that the eye
+ * should land on, by word-core length.
+ */
+export function getOptimalRecognitionIndex(length: number): number {
+  if (length <= 1) return 0
+  if (length <= 5) return 1
+  if (length <= 9) return 2
+  if (length <= 13) return 3
+  return 4
+}
+
+/**
+ * Lays out a group around the fixation letter of its longest word. `joined`
+ * holds document indices, as for `joinWords`, and `wordOffset` is the
+ * document index of the group's first word.
+ */
+export function buildRsvpFrame(words: string[], wordOffset = 0, joined?: Set<number>): RsvpFrame {
+  if (words.length === 0) return { before: '', pivot: '', after: '' }
+
+  let anchor = 0
+  let anchorLength = -1
+  words.forEach((word, i) => {
+    const length = parseToken(word)?.core.length ?? 0
+    if (length > anchorLength) {
+      anchor = i
+      anchorLength = length
+    }
+  })
+
+  const token = words[anchor]
+  const parts = parseToken(token)
+  let before: string
+  let pivot: string
+  let after: string
+
+  if (parts?.core) {
+    const orp = getOptimalRecognitionIndex(parts.core.length)
+    before = parts.leading + parts.core.slice(0, orp)
+    pivot = parts.core.charAt(orp)
+    after = parts.core.slice(orp + 1) + parts.trailing
+  } else {
+    const mid = Math.floor((token.length - 1) / 2)
+    before = token.slice(0, mid)
+    pivot = token.charAt(mid)
+    after = token.slice(mid + 1)
+  }
+
+  const groupJoined = new Set(words.flatMap((_, i) => (joined?.has(wordOffset + i) ? [i] : [])))
+  const prefix = joinWords(words, 0, anchor, groupJoined)
+  const suffix = joinWords(words, anchor + 1, words.length, groupJoined)
+  return {
+    before: prefix && !groupJoined.has(anchor - 1) ? `${prefix} ${before}` : prefix + before,
+    pivot,
+    after: suffix && !groupJoined.has(anchor) ? `${after} ${suffix}` : after + suffix,
+  }
+}
+
+export function getRsvpDelayMs(words: string[], wpm: number, endsParagraph: boolean): number {
+  const beats = countPacingBeats(words) + (endsParagraph ? PARAGRAPH_PAUSE_WORDS : 0)
+  return Math.max(MIN_RSVP_DELAY_MS, Math.round(beats * msPerWord(wpm)))
+}
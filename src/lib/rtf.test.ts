@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { extractTextFromRtf, parseRtf } from './rtf'
+
+describe('parseRtf', () => {
+  it('keeps body text and drops font tables and other destinations', () => {
+    const source =
+      '{\\rtf1\\ansi{\\fonttbl{\\f0 Times;}}{\\colortbl;\\red0\\green0\\blue0;}' +
+      '{\\*\\generator Writer;}\\f0 Hello {\\b world}.\\par Next\\tab line.}'
+    expect(parseRtf(source)).toBe('Hello world.\n\nNext line.')
+  })
+
+  it('decodes escaped bytes with the declared code page', () => {
+    expect(parseRtf("{\\rtf1\\ansi\\ansicpg1251 \\'cf\\'f0\\'e8\\'e2\\'e5\\'f2}")).toBe('Привет')
+  })
+
+  it('reads Unicode escapes and skips their fallback characters', () => {
+    expect(parseRtf('{\\rtf1\\uc1 caf\\u233?\\uc2 \\u8212\\\'97-x}')).toBe('café—x')
+  })
+
+  it('maps control symbols and escaped braces', () => {
+    expect(parseRtf('{\\rtf1 a\\~b\\_c \\{d\\} \\ldblquote e\\rdblquote}')).toBe('a b-c {d} “e”')
+  })
+})
+
+describe('extractTextFromRtf', () => {
+  it('rejects files without an RTF header', async () => {
+    await expect(extractTextFromRtf(new File(['plain text'], 'notes.rtf'))).rejects.toThrow(
+      'This file is not a valid RTF document.'
+    )
+  })
+})
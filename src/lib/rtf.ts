@@ -0,0 +1,186 @@
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'info',
+  'pict',
+  'object',
+  'fldinst',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'footnote',
+  'themedata',
+  'colorschememapping',
+  'datastore',
+  'latentstyles',
+  'generator',
+  'xmlnstbl',
+])
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n\n',
+  sect: '\n\n',
+  page: '\n\n',
+  line: '\n',
+  row: '\n',
+  cell: ' ',
+  tab: ' ',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+}
+
+export async function extractTextFromRtf(file: File): Promise<string> {
+  // RTF is 7-bit with \'hh escapes; latin1 keeps any raw high bytes intact for the code page decoder
+  const source = new TextDecoder('latin1').decode(await file.arrayBuffer())
+  if (!source.trimStart().startsWith('{\\rtf')) {
+    throw new Error('This file is not a valid RTF document.')
+  }
+
+  try {
+    return parseRtf(source)
+  } catch {
+    throw new Error('Could not read text from this RTF file.')
+  }
+}
+
+/** Minimal RTF reader: keeps body text, drops formatting and non-text destinations. */
+export function parseRtf(source: string): string {
+  const out: string[] = []
+  const stack: { skip: boolean; uc: number }[] = []
+  let state = { skip: false, uc: 1 }
+  let decoder = new TextDecoder('windows-1252')
+  let pendingBytes: number[] = []
+  let skipChars = 0
+  let ignorableDestination = false
+  let groupStart = false
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return
+    if (!state.skip) out.push(decoder.decode(new Uint8Array(pendingBytes)))
+    pendingBytes = []
+  }
+  const emit = (text: string) => {
+    flushBytes()
+    if (!state.skip) out.push(text)
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+
+    if (ch === '{') {
+      flushBytes()
+      stack.push(state)
+      state = { ...state }
+      groupStart = true
+      i += 1
+      continue
+    }
+    if (ch === '}') {
+      flushBytes()
+      state = stack.pop() ?? { skip: false, uc: 1 }
+      groupStart = false
+      i += 1
+      continue
+    }
+    if (ch === '\r' || ch === '\n') {
+      i += 1
+      continue
+    }
+
+    if (ch !== '\\') {
+      groupStart = false
+      if (skipChars > 0) {
+        skipChars -= 1
+      } else if (ch.charCodeAt(0) >= 0x80) {
+        pendingBytes.push(ch.charCodeAt(0))
+      } else {
+        emit(ch)
+      }
+      i += 1
+      continue
+    }
+
+    const next = source[i + 1] ?? ''
+    if (next === "'") {
+      const byte = parseInt(source.slice(i + 2, i + 4), 16)
+      if (skipChars > 0) skipChars -= 1
+      else if (Number.isFinite(byte)) pendingBytes.push(byte)
+      i += 4
+      continue
+    }
+
+    if (!/[a-z]/i.test(next)) {
+      if (next === '*') {
+        ignorableDestination = groupStart
+      } else if (skipChars > 0) {
+        skipChars -= 1
+      } else if (next === '\\' || next === '{' || next === '}') {
+        emit(next)
+      } else if (next === '~') {
+        emit(' ')
+      } else if (next === '_') {
+        emit('-')
+      } else if (next === '\n' || next === '\r') {
+        emit('\n\n')
+      }
+      i += 2
+      continue
+    }
+
+    const match = /^\\([a-z]+)(-?\d+)? ?/i.exec(source.slice(i, i + 64))
+    if (!match) {
+      i += 1
+      continue
+    }
+    i += match[0].length
+    const word = match[1]
+    const param = match[2] === undefined ? null : Number(match[2])
+    const atGroupStart = groupStart || ignorableDestination
+    groupStart = false
+
+    if (ignorableDestination || (atGroupStart && RTF_SKIPPED_DESTINATIONS.has(word))) {
+      ignorableDestination = false
+      flushBytes()
+      state.skip = true
+      continue
+    }
+
+    if (skipChars > 0) {
+      skipChars -= 1
+      continue
+    }
+
+    if (word === 'ansicpg' && param !== null) {
+      try {
+        decoder = new TextDecoder(`windows-${param}`)
+      } catch {
+        decoder = new TextDecoder('windows-1252')
+      }
+    } else if (word === 'uc' && param !== null) {
+      state.uc = param
+    } else if (word === 'u' && param !== null) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param))
+      skipChars = state.uc
+    } else if (word in RTF_SYMBOLS) {
+      emit(RTF_SYMBOLS[word])
+    }
+  }
+
+  flushBytes()
+  return out.join('')
+}
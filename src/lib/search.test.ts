@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { buildSearchIndex, findMatches, foldForSearch, getMatchSnippet } from './search'
+
+const words = ['Café', 'crème,', 'the', 'well-known', '—', 'Brûlée.', 'Another', 'café', 'here.']
+
+describe('foldForSearch', () => {
+  it('lower-cases and drops diacritics and punctuation', () => {
+    expect(foldForSearch('«Brûlée»!')).toBe('brulee')
+    expect(foldForSearch('well-known')).toBe('wellknown')
+    expect(foldForSearch('—')).toBe('')
+  })
+})
+
+describe('findMatches', () => {
+  const index = buildSearchIndex(words)
+
+  it('matches a single term inside any word, ignoring accents and case', () => {
+    expect(findMatches(index, 'CAFE')).toEqual([
+      { start: 0, end: 1 },
+      { start: 7, end: 8 },
+    ])
+    expect(findMatches(index, 'rule')).toEqual([{ start: 5, end: 6 }])
+  })
+
+  it('matches phrases across punctuation-only words, with open ends', () => {
+    expect(findMatches(index, 'known brulee')).toEqual([{ start: 3, end: 6 }])
+    expect(findMatches(index, 'fe crem')).toEqual([{ start: 0, end: 2 }])
+    expect(findMatches(index, 'cafe the')).toEqual([])
+  })
+
+  it('finds nothing for a blank or punctuation-only query', () => {
+    expect(findMatches(index, '  ')).toEqual([])
+    expect(findMatches(index, '— !')).toEqual([])
+  })
+})
+
+describe('getMatchSnippet', () => {
+  it('shows a few words either side, with ellipses where the text goes on', () => {
+    const long = Array.from({ length: 20 }, (_, i) => `w${i}`)
+    expect(getMatchSnippet(long, { start: 10, end: 11 })).toEqual({
+      before: '… w4 w5 w6 w7 w8 w9',
+      hit: 'w10',
+      after: 'w11 w12 w13 w14 w15 w16 …',
+    })
+    expect(getMatchSnippet(words, { start: 0, end: 2 })).toEqual({
+      before: '',
+      hit: 'Café crème,',
+      after: 'the well-known — Brûlée. Another café …',
+    })
+  })
+})
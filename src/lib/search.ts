@@ -0,0 +1,72 @@
+import type { WordRange } from './selection'
+
+export const MAX_SEARCH_RESULTS = 1000
+const SNIPPET_CONTEXT_WORDS = 6
+
+/**
+ * Document words folded for matching: lower-cased, diacritics stripped and
+ * punctuation removed. `positions` maps each non-empty folded word back to its
+ * index in the original words, so phrases match across dashes and other
+ * punctuation-only tokens.
+ */
+export interface SearchIndex {
+  folded: string[]
+  positions: number[]
+}
+
+export function foldForSearch(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+export function buildSearchIndex(words: string[]): SearchIndex {
+  const folded: string[] = []
+  const positions: number[] = []
+  words.forEach((word, i) => {
+    const f = foldForSearch(word)
+    if (!f) return
+    folded.push(f)
+    positions.push(i)
+  })
+  return { folded, positions }
+}
+
+/**
+ * Finds `query` in document order. A single term matches inside any word; a
+ * phrase must match consecutive words, with the first term allowed to be a
+ * word suffix and the last a word prefix.
+ */
+export function findMatches(index: SearchIndex, query: string): WordRange[] {
+  const terms = query.split(/\s+/).map(foldForSearch).filter(Boolean)
+  if (terms.length === 0) return []
+
+  const { folded, positions } = index
+  const matches: WordRange[] = []
+  const last = terms.length - 1
+
+  for (let i = 0; i + last < folded.length && matches.length < MAX_SEARCH_RESULTS; i += 1) {
+    let ok: boolean
+    if (last === 0) {
+      ok = folded[i].includes(terms[0])
+    } else {
+      ok = folded[i].endsWith(terms[0]) && folded[i + last].startsWith(terms[last])
+      for (let t = 1; ok && t < last; t += 1) ok = folded[i + t] === terms[t]
+    }
+    if (ok) matches.push({ start: positions[i], end: positions[i + last] + 1 })
+  }
+
+  return matches
+}
+
+export function getMatchSnippet(words: string[], match: WordRange): { before: string; hit: string; after: string } {
+  const from = Math.max(0, match.start - SNIPPET_CONTEXT_WORDS)
+  const to = Math.min(words.length, match.end + SNIPPET_CONTEXT_WORDS)
+  return {
+    before: (from > 0 ? '… ' : '') + words.slice(from, match.start).join(' '),
+    hit: words.slice(match.start, match.end).join(' '),
+    after: words.slice(match.end, to).join(' ') + (to < words.length ? ' …' : ''),
+  }
+}
@@ -0,0 +1,112 @@
+import type { Ref } from 'react'
+import { getMatchSnippet, MAX_SEARCH_RESULTS } from './search'
+import type { WordRange } from './selection'
+import { findChunkIndexForWord } from './text'
+
+interface SearchPanelProps {
+  inputRef: Ref<HTMLInputElement>
+  query: string
+  onQueryChange: (query: string) => void
+  /** The document's words, for the result snippets. */
+  words: string[]
+  chunkStarts: number[]
+  matches: WordRange[]
+  /** Index into `matches` of the match shown in the reader; -1 before one is picked. */
+  activeIndex: number
+  onGoTo: (index: number) => void
+  onClose: () => void
+}
+
+/** Search box, match count and list of results; Enter and Shift+Enter step through the matches. */
+export function SearchPanel({
+  inputRef,
+  query,
+  onQueryChange,
+  words,
+  chunkStarts,
+  matches,
+  activeIndex,
+  onGoTo,
+  onClose,
+}: SearchPanelProps) {
+  return (
+    <div id="search-panel" className="searchPanel" role="search">
+      <div className="searchRow">
+        <input
+          ref={inputRef}
+          className="numberInput searchInput"
+          type="search"
+          placeholder="Search words or phrases"
+          aria-label="Search this document"
+          value={query}
+          autoFocus
+          onChange={(e) => onQueryChange(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              onGoTo(activeIndex + (e.shiftKey ? -1 : 1))
+            } else if (e.key === 'Escape') {
+              e.preventDefault()
+              e.stopPropagation()
+              onClose()
+            }
+          }}
+        />
+        <span className="muted searchCount" aria-live="polite">
+          {query.trim() === ''
+            ? ''
+            : matches.length === 0
+              ? 'No matches'
+              : `${activeIndex >= 0 ? activeIndex + 1 : '–'} / ${matches.length}${
+                  matches.length >= MAX_SEARCH_RESULTS ? '+' : ''
+                }`}
+        </span>
+        <button
+          type="button"
+          className="btn"
+          onClick={() => onGoTo(activeIndex - 1)}
+          disabled={matches.length === 0}
+          title="Previous match (Shift+Enter)"
+          aria-label="Previous match"
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          className="btn"
+          onClick={() => onGoTo(activeIndex + 1)}
+          disabled={matches.length === 0}
+          title="Next match (Enter)"
+          aria-label="Next match"
+        >
+          ›
+        </button>
+        <button type="button" className="btn" onClick={onClose} aria-label="Close search">
+          ✕
+        </button>
+      </div>
+      {matches.length > 0 ? (
+        <ol className="searchResults">
+          {matches.slice(0, 200).map((match, i) => {
+            const snippet = getMatchSnippet(words, match)
+            return (
+              <li key={match.start}>
+                <button
+                  type="button"
+                  className={i === activeIndex ? 'searchResult searchResultActive' : 'searchResult'}
+                  aria-current={i === activeIndex ? 'true' : undefined}
+                  onClick={() => onGoTo(i)}
+                >
+                  <span className="searchSnippet">
+                    {snippet.before} <mark>{snippet.hit}</mark> {snippet.after}
+                  </span>
+                  <span className="tocChunk">{findChunkIndexForWord(chunkStarts, match.start) + 1}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+export interface WordRange {
+  start: number
+  end: number
+}
+
+/**
+ * Word range covered by the current DOM selection inside `container`, read
+ * from the `data-word-index` attributes `BionicChunk` puts on each word.
+ */
+export function getSelectedWordRange(container: HTMLElement): WordRange | null {
+  const selection = container.ownerDocument.getSelection()
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null
+
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.commonAncestorContainer)) return null
+
+  const indices = Array.from(container.querySelectorAll<HTMLElement>('[data-word-index]'))
+    .filter((el) => range.intersectsNode(el) && hasSelectedText(range, el))
+    .map((el) => Number(el.dataset.wordIndex))
+    .filter(Number.isFinite)
+  if (indices.length === 0) return null
+
+  return { start: Math.min(...indices), end: Math.max(...indices) + 1 }
+}
+
+export function clearSelection(doc: Document = document): void {
+  doc.getSelection()?.removeAllRanges()
+}
+
+/** True when a selection is present, so a click ending a drag-select should not also advance. */
+export function hasActiveSelection(doc: Document = document): boolean {
+  const selection = doc.getSelection()
+  return !!selection && !selection.isCollapsed
+}
+
+// True when the selection covers at least part of the word itself, not just an adjoining space
+function hasSelectedText(range: Range, el: HTMLElement): boolean {
+  const wordRange = el.ownerDocument.createRange()
+  wordRange.selectNodeContents(el)
+  const startsBeforeWordEnd = range.compareBoundaryPoints(Range.START_TO_END, wordRange) < 0
+  const endsAfterWordStart = range.compareBoundaryPoints(Range.END_TO_START, wordRange) > 0
+  return startsBeforeWordEnd && endsAfterWordStart
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addBinding,
+  DEFAULT_SHORTCUTS,
+  formatBinding,
+  getBoundAction,
+  getKeyBinding,
+  parseShortcuts,
+  typesIntoField,
+} from './shortcuts'
+
+function keyEvent(code: string, modifiers: Partial<KeyboardEvent> = {}): KeyboardEvent {
+  return { code, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers } as KeyboardEvent
+}
+
+describe('getKeyBinding', () => {
+  it('prefixes the key code with its modifiers in a fixed order', () => {
+    expect(getKeyBinding(keyEvent('Space'))).toBe('Space')
+    expect(getKeyBinding(keyEvent('KeyG', { shiftKey: true, ctrlKey: true }))).toBe('Ctrl+Shift+KeyG')
+  })
+
+  it('ignores modifiers pressed on their own and events without a code', () => {
+    expect(getKeyBinding(keyEvent('ShiftLeft', { shiftKey: true }))).toBeNull()
+    expect(getKeyBinding(keyEvent(''))).toBeNull()
+  })
+})
+
+describe('addBinding', () => {
+  it('moves a binding from the action that had it', () => {
+    const bindings = addBinding(DEFAULT_SHORTCUTS, 'next', 'Space')
+    expect(bindings.next).toContain('Space')
+    expect(bindings.advance).not.toContain('Space')
+    expect(getBoundAction(bindings, 'Space')).toBe('next')
+    expect(DEFAULT_SHORTCUTS.advance).toContain('Space')
+  })
+})
+
+describe('parseShortcuts', () => {
+  it('keeps stored lists, drops invalid entries and fills in missing actions', () => {
+    const bindings = parseShortcuts({ next: ['KeyJ', '', 3], prev: 'KeyK', unknown: ['KeyX'] })
+    expect(bindings.next).toEqual(['KeyJ'])
+    expect(bindings.prev).toEqual(DEFAULT_SHORTCUTS.prev)
+    expect(bindings).not.toHaveProperty('unknown')
+  })
+
+  it('falls back to the defaults for anything but an object', () => {
+    expect(parseShortcuts(null)).toBe(DEFAULT_SHORTCUTS)
+    expect(parseShortcuts('Space')).toBe(DEFAULT_SHORTCUTS)
+  })
+})
+
+describe('typesIntoField', () => {
+  it('is true for keys that type and false for shortcuts fields never see as text', () => {
+    expect(typesIntoField('Space')).toBe(true)
+    expect(typesIntoField('Shift+KeyN')).toBe(true)
+    expect(typesIntoField('Ctrl+KeyF')).toBe(false)
+    expect(typesIntoField('Shift+Meta+KeyG')).toBe(false)
+    expect(typesIntoField('Shift+F3')).toBe(false)
+    expect(typesIntoField('Gamepad:0')).toBe(false)
+    expect(typesIntoField('Media:play')).toBe(false)
+  })
+})
+
+describe('formatBinding', () => {
+  it('names keys, gamepad buttons and media actions', () => {
+    expect(formatBinding('Shift+KeyN')).toBe('Shift+N')
+    expect(formatBinding('ArrowRight')).toBe('→')
+    expect(formatBinding('Gamepad:5')).toBe('Gamepad RB')
+    expect(formatBinding('Gamepad:20')).toBe('Gamepad 21')
+    expect(formatBinding('Media:nexttrack')).toBe('Media next track')
+  })
+})
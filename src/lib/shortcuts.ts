@@ -0,0 +1,207 @@
+const STORAGE_KEY = 'lingread:shortcuts'
+const GAMEPAD_PREFIX = 'Gamepad:'
+const MEDIA_PREFIX = 'Media:'
+
+/** What a key, clicker button, media key or gamepad button can do in the reader. */
+export type InputAction =
+  | 'advance'
+  | 'next'
+  | 'prev'
+  | 'playPause'
+  | 'exit'
+  | 'markKnownAndAdvance'
+  | 'search'
+  | 'nextMatch'
+  | 'prevMatch'
+
+/**
+ * One physical input, as a string so bindings store and compare easily:
+ * a keyboard combo (`Space`, `Shift+KeyN`, from `KeyboardEvent.code`),
+ * `Gamepad:<button index>` or `Media:<MediaSessionAction>`.
+ */
+export type InputBinding = string
+
+export type ShortcutBindings = Record<InputAction, InputBinding[]>
+
+export const INPUT_ACTIONS: { action: InputAction; label: string; description: string }[] = [
+  { action: 'advance', label: 'Advance', description: 'Next chunk, or pause and resume while auto-advancing or in RSVP' },
+  { action: 'next', label: 'Next chunk', description: 'Always turns the page, even while auto-advancing' },
+  { action: 'prev', label: 'Previous chunk', description: 'Goes back a chunk' },
+  { action: 'playPause', label: 'Play / pause', description: 'Starts, pauses and resumes auto-advance or RSVP' },
+  { action: 'exit', label: 'Exit view', description: 'Leaves fullscreen or closes the PiP window' },
+  {
+    action: 'markKnownAndAdvance',
+    label: 'Mark known and go on',
+    description: "With vocabulary on, marks the chunk's remaining new words as known, then turns the page",
+  },
+  { action: 'search', label: 'Search', description: 'Opens the search panel' },
+  { action: 'nextMatch', label: 'Next match', description: 'Goes to the next search match' },
+  { action: 'prevMatch', label: 'Previous match', description: 'Goes back to the previous search match' },
+]
+
+// Presentation clickers send PageDown / PageUp (some send the arrow keys)
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  advance: ['Space', 'Gamepad:0'],
+  next: ['ArrowRight', 'PageDown', 'MediaTrackNext', 'Media:nexttrack', 'Gamepad:5', 'Gamepad:15'],
+  prev: ['Backspace', 'ArrowLeft', 'PageUp', 'MediaTrackPrevious', 'Media:previoustrack', 'Gamepad:4', 'Gamepad:14'],
+  playPause: ['MediaPlayPause', 'Media:play', 'Media:pause', 'Gamepad:9'],
+  exit: ['Escape', 'Gamepad:1'],
+  markKnownAndAdvance: ['Shift+Space'],
+  search: ['Ctrl+KeyF', 'Meta+KeyF'],
+  nextMatch: ['F3', 'Ctrl+KeyG', 'Meta+KeyG'],
+  prevMatch: ['Shift+F3', 'Ctrl+Shift+KeyG', 'Shift+Meta+KeyG'],
+}
+
+/** Media Session actions the reader listens for. */
+export const MEDIA_ACTIONS: MediaSessionAction[] = ['nexttrack', 'previoustrack', 'play', 'pause']
+
+// Names for the standard gamepad layout (Xbox labels)
+const GAMEPAD_BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-pad ↑', 'D-pad ↓', 'D-pad ←', 'D-pad →']
+
+const MEDIA_ACTION_NAMES: Record<string, string> = {
+  nexttrack: 'Media next track',
+  previoustrack: 'Media previous track',
+  play: 'Media play',
+  pause: 'Media pause',
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageDown: 'Page Down',
+  PageUp: 'Page Up',
+  Escape: 'Esc',
+  MediaTrackNext: 'Next track key',
+  MediaTrackPrevious: 'Previous track key',
+  MediaPlayPause: 'Play/pause key',
+}
+
+// Keys that only modify others cannot be bound on their own
+const MODIFIER_CODES = new Set(['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'])
+
+/** The binding for a key press, or null for a bare modifier. */
+export function getKeyBinding(e: KeyboardEvent): InputBinding | null {
+  if (!e.code || MODIFIER_CODES.has(e.code)) return null
+  const modifiers = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta'].filter(Boolean)
+  return [...modifiers, e.code].join('+')
+}
+
+export function getGamepadBinding(button: number): InputBinding {
+  return `${GAMEPAD_PREFIX}${button}`
+}
+
+export function getMediaBinding(action: MediaSessionAction): InputBinding {
+  return `${MEDIA_PREFIX}${action}`
+}
+
+export function isKeyBinding(binding: InputBinding): boolean {
+  return !binding.startsWith(GAMEPAD_PREFIX) && !binding.startsWith(MEDIA_PREFIX)
+}
+
+/** Whether `binding` is a key that can type into a field; Ctrl/Cmd combos and function keys cannot. */
+export function typesIntoField(binding: InputBinding): boolean {
+  if (!isKeyBinding(binding)) return false
+  const parts = binding.split('+')
+  return !parts.includes('Ctrl') && !parts.includes('Meta') && !/^F\d+$/.test(parts[parts.length - 1])
+}
+
+export function getBoundAction(bindings: ShortcutBindings, binding: InputBinding): InputAction | null {
+  return INPUT_ACTIONS.find(({ action }) => bindings[action].includes(binding))?.action ?? null
+}
+
+/** Binds `binding` to `action`, taking it away from any other action. */
+export function addBinding(bindings: ShortcutBindings, action: InputAction, binding: InputBinding): ShortcutBindings {
+  const next = removeBinding(bindings, binding)
+  return { ...next, [action]: [...next[action], binding] }
+}
+
+export function removeBinding(bindings: ShortcutBindings, binding: InputBinding): ShortcutBindings {
+  const next = { ...bindings }
+  for (const { action } of INPUT_ACTIONS) next[action] = bindings[action].filter((b) => b !== binding)
+  return next
+}
+
+/** Readable name for a binding: `Shift+N`, `Space`, `Gamepad RB`, `Media next track`. */
+export function formatBinding(binding: InputBinding): string {
+  if (binding.startsWith(GAMEPAD_PREFIX)) {
+    const button = Number(binding.slice(GAMEPAD_PREFIX.length))
+    return `Gamepad ${GAMEPAD_BUTTON_NAMES[button] ?? button + 1}`
+  }
+  if (binding.startsWith(MEDIA_PREFIX)) {
+    const action = binding.slice(MEDIA_PREFIX.length)
+    return MEDIA_ACTION_NAMES[action] ?? action
+  }
+  return binding
+    .split('+')
+    .map((part) => KEY_NAMES[part] ?? part.replace(/^(Key|Digit)/, ''))
+    .join('+')
+}
+
+/** First keyboard binding of `action`, for hints and tooltips; null if it has none. */
+export function getShortcutLabel(bindings: ShortcutBindings, action: InputAction): string | null {
+  const binding = bindings[action].find(isKeyBinding)
+  return binding ? formatBinding(binding) : null
+}
+
+/** Validates stored bindings; actions missing from storage get their defaults. */
+export function parseShortcuts(value: unknown): ShortcutBindings {
+  if (!value || typeof value !== 'object') return DEFAULT_SHORTCUTS
+  const v = value as Partial<Record<InputAction, unknown>>
+  const bindings = { ...DEFAULT_SHORTCUTS }
+  for (const { action } of INPUT_ACTIONS) {
+    const list = v[action]
+    if (Array.isArray(list)) bindings[action] = list.filter((b): b is string => typeof b === 'string' && b !== '')
+  }
+  return bindings
+}
+
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    return parseShortcuts(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'))
+  } catch {
+    return DEFAULT_SHORTCUTS
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+}
+
+/**
+ * Calls `onPress` with the binding of each gamepad button as it goes down.
+ * Gamepads have no events for buttons, so this polls once a frame while one
+ * is connected. Returns a function that stops watching.
+ */
+export function watchGamepadButtons(onPress: (binding: InputBinding) => void): () => void {
+  if (typeof navigator.getGamepads !== 'function') return () => {}
+  const held = new Map<number, boolean[]>()
+  let frame: number | null = null
+
+  const poll = () => {
+    frame = null
+    let connected = false
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue
+      connected = true
+      const before = held.get(pad.index) ?? []
+      const now = pad.buttons.map((b) => b.pressed)
+      now.forEach((pressed, button) => {
+        if (pressed && !before[button]) onPress(getGamepadBinding(button))
+      })
+      held.set(pad.index, now)
+    }
+    if (connected) frame = requestAnimationFrame(poll)
+  }
+  const start = () => {
+    if (frame === null) frame = requestAnimationFrame(poll)
+  }
+
+  start()
+  window.addEventListener('gamepadconnected', start)
+  return () => {
+    window.removeEventListener('gamepadconnected', start)
+    if (frame !== null) cancelAnimationFrame(frame)
+  }
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react'
+import {
+  addBinding,
+  DEFAULT_SHORTCUTS,
+  formatBinding,
+  getKeyBinding,
+  INPUT_ACTIONS,
+  removeBinding,
+  watchGamepadButtons,
+  type InputAction,
+  type ShortcutBindings,
+} from './shortcuts'
+
+interface ShortcutsScreenProps {
+  bindings: ShortcutBindings
+  onChange: (bindings: ShortcutBindings) => void
+  onClose: () => void
+}
+
+/**
+ * Lists each reader action with its keys and buttons. *Add* waits for the next
+ * key press or gamepad button; Escape closes the screen unless it is being bound.
+ */
+export function ShortcutsScreen({ bindings, onChange, onClose }: ShortcutsScreenProps) {
+  const [capturing, setCapturing] = useState<InputAction | null>(null)
+
+  // Capture phase, so keys pressed here never reach the reader's shortcuts
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (capturing) {
+        const binding = getKeyBinding(e)
+        if (!binding) return
+        onChange(addBinding(bindings, capturing, binding))
+        setCapturing(null)
+      } else if (e.code === 'Escape') onClose()
+      else return
+      e.preventDefault()
+      e.stopPropagation()
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [capturing, bindings, onChange, onClose])
+
+  useEffect(() => {
+    if (!capturing) return
+    return watchGamepadButtons((binding) => {
+      onChange(addBinding(bindings, capturing, binding))
+      setCapturing(null)
+    })
+  }, [capturing, bindings, onChange])
+
+  return (
+    <section className="shortcuts" aria-label="Shortcuts">
+      <div className="reviewHeader">
+        <h1 className="reviewTitle">Shortcuts</h1>
+        <div className="shortcutsActions">
+          <button type="button" className="btn" onClick={() => onChange(DEFAULT_SHORTCUTS)}>
+            Reset to defaults
+          </button>
+          <button type="button" className="btn" onClick={onClose} title="Close (Esc)">
+            Close
+          </button>
+        </div>
+      </div>
+      <p className="muted">
+        These work in the reader, fullscreen and the PiP window. Presentation clickers send Page Up / Page Down or the
+        arrow keys; media keys and headset buttons arrive as the media entries below.
+      </p>
+
+      <table className="shortcutsTable">
+        <tbody>
+          {INPUT_ACTIONS.map(({ action, label, description }) => (
+            <tr key={action}>
+              <th scope="row">
+                {label}
+                <span className="muted">{description}</span>
+              </th>
+              <td>
+                <div className="shortcutsBindings">
+                  {bindings[action].map((binding) => (
+                    <span key={binding} className="shortcutsBinding">
+                      <kbd>{formatBinding(binding)}</kbd>
+                      <button
+                        type="button"
+                        className="shortcutsRemove"
+                        onClick={() => onChange(removeBinding(bindings, binding))}
+                        aria-label={`Remove ${formatBinding(binding)} from ${label}`}
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  {capturing === action ? (
+                    <button type="button" className="btn btnActive" onClick={() => setCapturing(null)}>
+                      Press a key or button… (click to cancel)
+                    </button>
+                  ) : (
+                    <button type="button" className="btn" onClick={() => setCapturing(action)}>
+                      Add
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  )
+}
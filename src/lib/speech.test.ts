@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { buildSpeechText, speakWords, type SpeechEngine, type SpeechHandlers, type SpeechVoice } from './speech'
+
+const OPTIONS = { language: 'en', rate: 1 }
+
+/** Engine that speaks nothing; tests drive its boundary, end and error events by hand. */
+function createFakeSpeechEngine(voices: SpeechVoice[] = []) {
+  let current: { text: string; handlers: SpeechHandlers } | null = null
+  const spoken: string[] = []
+  const engine: SpeechEngine = {
+    getVoices: () => voices,
+    onVoicesChanged: () => () => {},
+    speak(text, _options, handlers) {
+      current = { text, handlers }
+      spoken.push(text)
+    },
+    cancel() {
+      current = null
+    },
+  }
+  return {
+    engine,
+    spoken,
+    /** Reports the engine reaching `word`, at its first occurrence in the text being spoken. */
+    reach(word: string) {
+      if (!current) throw new Error('Nothing is being spoken.')
+      current.handlers.onBoundary?.(current.text.indexOf(word))
+    },
+    boundary(charIndex: number) {
+      current?.handlers.onBoundary?.(charIndex)
+    },
+    end() {
+      const handlers = current?.handlers
+      current = null
+      handlers?.onEnd?.()
+    },
+    fail(message: string) {
+      current?.handlers.onError?.(message)
+    },
+  }
+}
+
+describe('buildSpeechText', () => {
+  it('records where each word starts in the spoken text', () => {
+    expect(buildSpeechText(['One', 'small', 'step.', 'Next'], 1, 3)).toEqual({
+      text: 'small step.',
+      wordStarts: [0, 6],
+    })
+  })
+
+  it('runs joined words together', () => {
+    expect(buildSpeechText(['今日', 'は', '晴れ', 'です'], 0, 4, new Set([0, 1, 2]))).toEqual({
+      text: '今日は晴れです',
+      wordStarts: [0, 2, 3, 5],
+    })
+  })
+})
+
+describe('speakWords', () => {
+  const words = ['It', 'was', 'the', 'best', 'of', 'times,', 'it', 'was', 'the', 'worst']
+
+  it('reports each boundary as the document index of its word', () => {
+    const fake = createFakeSpeechEngine()
+    const reached: number[] = []
+    speakWords(fake.engine, buildSpeechText(words, 3, 8), 3, OPTIONS, { onWord: (i) => reached.push(i) })
+    expect(fake.spoken).toEqual(['best of times, it was'])
+    fake.reach('best')
+    fake.reach('times,')
+    fake.reach('was')
+    expect(reached).toEqual([3, 5, 7])
+  })
+
+  it('puts a boundary on the space after a word, or inside it, on that word', () => {
+    const fake = createFakeSpeechEngine()
+    const reached: number[] = []
+    speakWords(fake.engine, buildSpeechText(words, 0, 3), 0, OPTIONS, { onWord: (i) => reached.push(i) })
+    fake.boundary(2)
+    fake.boundary(5)
+    expect(reached).toEqual([0, 1])
+  })
+
+  it('maps boundaries in unspaced text to the joined words', () => {
+    const fake = createFakeSpeechEngine()
+    const reached: number[] = []
+    const speech = buildSpeechText(['今日', 'は', '晴れ', 'です'], 0, 4, new Set([0, 1, 2]))
+    speakWords(fake.engine, speech, 20, OPTIONS, { onWord: (i) => reached.push(i) })
+    fake.reach('晴れ')
+    fake.reach('です')
+    expect(reached).toEqual([22, 23])
+  })
+
+  it('passes the end and errors through', () => {
+    const fake = createFakeSpeechEngine()
+    const events: string[] = []
+    const handlers = { onEnd: () => events.push('end'), onError: (message: string) => events.push(message) }
+    speakWords(fake.engine, buildSpeechText(words, 0, 2), 0, OPTIONS, handlers)
+    fake.fail('Speech stopped: network.')
+    speakWords(fake.engine, buildSpeechText(words, 2, 4), 2, OPTIONS, handlers)
+    fake.end()
+    expect(events).toEqual(['Speech stopped: network.', 'end'])
+  })
+})
@@ -0,0 +1,200 @@
+import { UNDETERMINED_LANGUAGE } from './language'
+import { findChunkIndexForWord, joinWordsWithStarts } from './text'
+
+export const MIN_SPEECH_RATE = 0.5
+export const MAX_SPEECH_RATE = 2
+
+/** A voice as read-along sees it, whichever engine provides it. */
+export interface SpeechVoice {
+  id: string
+  name: string
+  /** BCP 47 tag, e.g. `en-GB`. */
+  language: string
+  isDefault: boolean
+  /** Runs on the device rather than a network service. */
+  isLocal: boolean
+}
+
+export interface SpeakOptions {
+  language: string
+  /** Falls back to the engine's choice for `language` when missing or unknown. */
+  voiceId?: string
+  rate: number
+}
+
+export interface SpeechHandlers {
+  /** The engine has reached the word starting at `charIndex` in the spoken text. */
+  onBoundary?: (charIndex: number) => void
+  onEnd?: () => void
+  onError?: (message: string) => void
+}
+
+/**
+ * What read-along needs from a text-to-speech engine. Engines differ in which
+ * voices they offer and whether they report word boundaries at all, so the
+ * reader only talks to this interface; the Web Speech API is one implementation.
+ */
+export interface SpeechEngine {
+  getVoices(): SpeechVoice[]
+  /** Calls `listener` when voices load or change; returns an unsubscribe function. */
+  onVoicesChanged(listener: () => void): () => void
+  /** Speaks `text`, cutting off anything already being spoken. Handlers of cut-off text never fire. */
+  speak(text: string, options: SpeakOptions, handlers: SpeechHandlers): void
+  cancel(): void
+}
+
+/** Saved globally: rate, plus the chosen voice per base language. */
+export interface SpeechSettings {
+  rate: number
+  voices: Record<string, string>
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { rate: 1, voices: {} }
+
+/** Text handed to the engine for a run of words, with each word's offset in it. */
+export interface SpeechText {
+  text: string
+  wordStarts: number[]
+}
+
+export interface WordSpeechHandlers {
+  /** The engine has reached word `wordIndex` of the document. */
+  onWord?: (wordIndex: number) => void
+  onEnd?: () => void
+  onError?: (message: string) => void
+}
+
+/** Speech engine backed by `window.speechSynthesis`, or null where the browser has none. */
+export function createWebSpeechEngine(): SpeechEngine | null {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return null
+  const synth = window.speechSynthesis
+  // Held so stale events can be ignored, and so Chrome does not garbage-collect it mid-sentence
+  let current: SpeechSynthesisUtterance | null = null
+
+  const findVoice = (id: string | undefined) => (id ? synth.getVoices().find((v) => v.voiceURI === id) : undefined)
+
+  return {
+    getVoices() {
+      return synth.getVoices().map((v) => ({
+        id: v.voiceURI,
+        name: v.name,
+        language: v.lang,
+        isDefault: v.default,
+        isLocal: v.localService,
+      }))
+    },
+    onVoicesChanged(listener) {
+      synth.addEventListener('voiceschanged', listener)
+      return () => synth.removeEventListener('voiceschanged', listener)
+    },
+    speak(text, options, handlers) {
+      const utterance = new SpeechSynthesisUtterance(text)
+      if (options.language !== UNDETERMINED_LANGUAGE) utterance.lang = options.language
+      const voice = findVoice(options.voiceId)
+      if (voice) utterance.voice = voice
+      utterance.rate = options.rate
+
+      utterance.onboundary = (e) => {
+        if (current === utterance && e.name !== 'sentence') handlers.onBoundary?.(e.charIndex)
+      }
+      utterance.onend = () => {
+        if (current !== utterance) return
+        current = null
+        handlers.onEnd?.()
+      }
+      utterance.onerror = (e) => {
+        if (current !== utterance || e.error === 'interrupted' || e.error === 'canceled') return
+        current = null
+        handlers.onError?.(`Speech stopped: ${e.error}.`)
+      }
+
+      current = utterance
+      synth.cancel()
+      synth.speak(utterance)
+    },
+    cancel() {
+      current = null
+      synth.cancel()
+    },
+  }
+}
+
+export function buildSpeechText(words: string[], start: number, end: number, joined?: Set<number>): SpeechText {
+  return joinWordsWithStarts(words, start, end, joined)
+}
+
+/** Index into `speech`'s words of the word covering `charIndex`; boundaries may land on the space before a word. */
+export function getSpokenWord(speech: SpeechText, charIndex: number): number {
+  return findChunkIndexForWord(speech.wordStarts, charIndex)
+}
+
+/**
+ * Speaks `speech`, whose first word is word `firstWord` of the document, and
+ * reports each word the engine reaches by its document index.
+ */
+export function speakWords(
+  engine: SpeechEngine,
+  speech: SpeechText,
+  firstWord: number,
+  options: SpeakOptions,
+  { onWord, onEnd, onError }: WordSpeechHandlers
+) {
+  engine.speak(speech.text, options, {
+    onBoundary: (charIndex) => onWord?.(firstWord + getSpokenWord(speech, charIndex)),
+    onEnd,
+    onError,
+  })
+}
+
+function baseLanguage(language: string): string {
+  return language.split('-')[0].toLowerCase()
+}
+
+/** Key under which `SpeechSettings.voices` remembers the voice for `language`. */
+export function getSpeechVoiceKey(language: string): string {
+  return baseLanguage(language)
+}
+
+/** Voices that can read `language`; all voices when the language is undetermined. */
+export function getVoicesForLanguage(voices: SpeechVoice[], language: string): SpeechVoice[] {
+  if (language === UNDETERMINED_LANGUAGE) return voices
+  const base = baseLanguage(language)
+  return voices.filter((v) => baseLanguage(v.language) === base)
+}
+
+/**
+ * The voice to read `language` with: the saved choice if it is still
+ * installed, else an exact-tag match, the system default, an on-device voice,
+ * in that order. Undefined leaves the choice to the engine.
+ */
+export function pickSpeechVoice(
+  voices: SpeechVoice[],
+  language: string,
+  preferredId: string | undefined
+): SpeechVoice | undefined {
+  const candidates = getVoicesForLanguage(voices, language)
+  const lower = language.toLowerCase()
+  return (
+    candidates.find((v) => v.id === preferredId) ??
+    candidates.find((v) => v.language.toLowerCase() === lower) ??
+    candidates.find((v) => v.isDefault) ??
+    candidates.find((v) => v.isLocal) ??
+    candidates[0]
+  )
+}
+
+export function parseSpeechSettings(value: unknown): SpeechSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_SPEECH_SETTINGS
+  const v = value as { rate?: unknown; voices?: unknown }
+  const rate = Number(v.rate)
+  const voices: Record<string, string> = {}
+  if (v.voices && typeof v.voices === 'object') {
+    for (const [key, id] of Object.entries(v.voices)) {
+      if (typeof id === 'string') voices[key] = id
+    }
+  }
+  return {
+    rate: Number.isFinite(rate) ? Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, rate)) : DEFAULT_SPEECH_SETTINGS.rate,
+    voices,
+  }
+}
@@ -0,0 +1,60 @@
+import { getLanguageLabel } from './language'
+import {
+  getSpeechVoiceKey,
+  MAX_SPEECH_RATE,
+  MIN_SPEECH_RATE,
+  type SpeechSettings,
+  type SpeechVoice,
+} from './speech'
+
+interface SpeechPanelProps {
+  /** The document's language, which picks the voice list. */
+  language: string
+  voices: SpeechVoice[]
+  voiceId: string | undefined
+  settings: SpeechSettings
+  onChange: (settings: SpeechSettings) => void
+}
+
+/** Voice and rate for reading the document aloud. */
+export function SpeechPanel({ language, voices, voiceId, settings, onChange }: SpeechPanelProps) {
+  return (
+    <div id="speech-panel" className="emphasisPanel" role="group" aria-label="Read aloud">
+      <label className="control">
+        <span className="controlLabel">Voice ({getLanguageLabel(language)})</span>
+        <select
+          className="selectInput"
+          value={voiceId ?? ''}
+          disabled={voices.length === 0}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              voices: { ...settings.voices, [getSpeechVoiceKey(language)]: e.currentTarget.value },
+            })
+          }
+        >
+          {voices.length === 0 ? <option value="">Browser default</option> : null}
+          {voices.map((voice) => (
+            <option key={voice.id} value={voice.id}>
+              {voice.name} ({voice.language}){voice.isLocal ? '' : ' · online'}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="control">
+        <span className="controlLabel">Rate {settings.rate.toFixed(2)}×</span>
+        <input
+          type="range"
+          min={MIN_SPEECH_RATE}
+          max={MAX_SPEECH_RATE}
+          step={0.05}
+          value={settings.rate}
+          onChange={(e) => onChange({ ...settings, rate: Number(e.currentTarget.value) })}
+        />
+      </label>
+      {voices.length === 0 ? (
+        <span className="muted">No {getLanguageLabel(language)} voice is installed; the browser picks one.</span>
+      ) : null}
+    </div>
+  )
+}
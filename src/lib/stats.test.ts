@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { getActiveReadingMs, getStreaks, summarizeReading, type ChunkRead } from './stats'
+
+function read(overrides: Partial<ChunkRead>): ChunkRead {
+  return {
+    hash: 'a',
+    filename: 'a.txt',
+    day: '2024-03-30',
+    at: '2024-03-30T10:00:00.000Z',
+    chunkIndex: 0,
+    words: 100,
+    activeMs: 60_000,
+    ...overrides,
+  }
+}
+
+/** Local noon on a `YYYY-MM-DD` day. */
+function noon(day: string): number {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date, 12).getTime()
+}
+
+// Day keys are local; Berlin moves its clocks forward on 31 March 2024
+beforeAll(() => {
+  vi.stubEnv('TZ', 'Europe/Berlin')
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getActiveReadingMs', () => {
+  it('keeps the time a chunk was on screen while it is plausible reading', () => {
+    expect(getActiveReadingMs(100, 30_000.4)).toBe(30_000)
+    expect(getActiveReadingMs(100, -5)).toBe(0)
+  })
+
+  it('records idle chunks as 0, allowing short chunks at least 90 seconds', () => {
+    expect(getActiveReadingMs(10, 90_000)).toBe(90_000)
+    expect(getActiveReadingMs(10, 90_001)).toBe(0)
+    // 400 words at the slowest 40 WPM take ten minutes
+    expect(getActiveReadingMs(400, 600_000)).toBe(600_000)
+    expect(getActiveReadingMs(400, 600_001)).toBe(0)
+  })
+})
+
+describe('summarizeReading', () => {
+  it('totals reads by day and document, with WPM over timed chunks only', () => {
+    const stats = summarizeReading(
+      {
+        reads: [
+          read({}),
+          read({ chunkIndex: 1, activeMs: 0 }),
+          read({ hash: 'b', filename: 'b.txt', day: '2024-03-31', at: '2024-03-31T09:00:00.000Z', words: 50 }),
+          read({ chunkIndex: 2, at: '2024-03-30T11:00:00.000Z', filename: 'a renamed.txt' }),
+        ],
+        finished: [
+          { hash: 'a', filename: 'a.txt', finishedAt: '2024-03-30T11:00:00.000Z' },
+          { hash: 'c', filename: 'c.txt', finishedAt: '2024-03-01T08:00:00.000Z' },
+        ],
+      },
+      noon('2024-03-31')
+    )
+
+    expect(stats.total).toEqual({ words: 350, chunks: 4, activeMs: 180_000, wpm: 83, finished: 2 })
+    expect(stats.days).toEqual([
+      { day: '2024-03-30', words: 300, chunks: 3, activeMs: 120_000, wpm: 100 },
+      { day: '2024-03-31', words: 50, chunks: 1, activeMs: 60_000, wpm: 50 },
+    ])
+    expect(stats.documents.map((doc) => [doc.hash, doc.filename, doc.words, doc.finishedAt])).toEqual([
+      ['b', 'b.txt', 50, undefined],
+      ['a', 'a renamed.txt', 300, '2024-03-30T11:00:00.000Z'],
+      ['c', 'c.txt', 0, '2024-03-01T08:00:00.000Z'],
+    ])
+    expect(stats.documents[2].wpm).toBeNull()
+  })
+})
+
+describe('getStreaks', () => {
+  const days = new Set(['2024-03-20', '2024-03-30', '2024-03-31', '2024-04-01'])
+
+  it('counts consecutive days across a daylight-saving change', () => {
+    expect(getStreaks(days, noon('2024-04-01'))).toEqual({ currentStreak: 3, longestStreak: 3 })
+  })
+
+  it('keeps the current streak until a day passes without reading', () => {
+    expect(getStreaks(days, noon('2024-04-02')).currentStreak).toBe(3)
+    expect(getStreaks(days, noon('2024-04-03')).currentStreak).toBe(0)
+  })
+
+  it('has no streaks without reading', () => {
+    expect(getStreaks(new Set(), noon('2024-04-01'))).toEqual({ currentStreak: 0, longestStreak: 0 })
+  })
+})
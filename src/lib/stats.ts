@@ -0,0 +1,254 @@
+import { createDatabaseOpener, requestToPromise, transactionDone } from './idb'
+
+const DB_NAME = 'lingread-stats'
+const DB_VERSION = 1
+const READ_STORE = 'chunkReads'
+const FINISHED_STORE = 'finished'
+const LABEL = 'reading history'
+
+/** Slowest plausible reading pace; a chunk held longer than this allows was left idle. */
+const SLOWEST_WPM = 40
+/** Short chunks still get this long before they count as idle. */
+const MIN_IDLE_LIMIT_MS = 90 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** One chunk read through to the next one. */
+export interface ChunkRead {
+  id?: number
+  hash: string
+  filename: string
+  /** Local calendar day, `YYYY-MM-DD`. */
+  day: string
+  at: string
+  chunkIndex: number
+  words: number
+  /** Time the chunk was on screen in a visible tab; 0 when it sat idle, so it stays out of WPM. */
+  activeMs: number
+}
+
+export interface FinishedDocument {
+  hash: string
+  filename: string
+  finishedAt: string
+}
+
+export interface ReadingHistory {
+  reads: ChunkRead[]
+  finished: FinishedDocument[]
+}
+
+export interface ReadingTotals {
+  words: number
+  chunks: number
+  activeMs: number
+  /** Words per minute over timed (non-idle) chunks; null without any. */
+  wpm: number | null
+}
+
+export interface DayStats extends ReadingTotals {
+  day: string
+}
+
+export interface DocumentStats extends ReadingTotals {
+  hash: string
+  filename: string
+  lastReadAt: string
+  finishedAt?: string
+}
+
+export interface ReadingStats {
+  total: ReadingTotals & { finished: number }
+  /** Days with any reading, oldest first. */
+  days: DayStats[]
+  /** Most recently read first. */
+  documents: DocumentStats[]
+  /** Consecutive days up to today (or yesterday, if today has no reading yet). */
+  currentStreak: number
+  longestStreak: number
+}
+
+const openStatsDb = createDatabaseOpener(DB_NAME, DB_VERSION, LABEL, (db) => {
+  if (!db.objectStoreNames.contains(READ_STORE)) db.createObjectStore(READ_STORE, { keyPath: 'id', autoIncrement: true })
+  if (!db.objectStoreNames.contains(FINISHED_STORE)) db.createObjectStore(FINISHED_STORE, { keyPath: 'hash' })
+})
+
+export function getDayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** `activeMs` to record for a chunk of `words` seen for `visibleMs`: 0 past the idle limit. */
+export function getActiveReadingMs(words: number, visibleMs: number): number {
+  const idleLimit = Math.max(MIN_IDLE_LIMIT_MS, (words / SLOWEST_WPM) * 60 * 1000)
+  return visibleMs > idleLimit ? 0 : Math.max(0, Math.round(visibleMs))
+}
+
+export async function recordChunkRead(read: Omit<ChunkRead, 'id'>): Promise<void> {
+  const db = await openStatsDb()
+  const tx = db.transaction(READ_STORE, 'readwrite')
+  tx.objectStore(READ_STORE).add(read)
+  await transactionDone(tx, LABEL)
+}
+
+/** Marks a document finished; the first finish is kept if it is read again. */
+export async function recordDocumentFinished(hash: string, filename: string, time = Date.now()): Promise<void> {
+  const db = await openStatsDb()
+  const tx = db.transaction(FINISHED_STORE, 'readwrite')
+  const store = tx.objectStore(FINISHED_STORE)
+  const existing = await requestToPromise<FinishedDocument | undefined>(store.get(hash), LABEL)
+  if (!existing) store.put({ hash, filename, finishedAt: new Date(time).toISOString() })
+  await transactionDone(tx, LABEL)
+}
+
+export async function loadReadingHistory(): Promise<ReadingHistory> {
+  const db = await openStatsDb()
+  const tx = db.transaction([READ_STORE, FINISHED_STORE], 'readonly')
+  const [reads, finished] = await Promise.all([
+    requestToPromise<ChunkRead[]>(tx.objectStore(READ_STORE).getAll(), LABEL),
+    requestToPromise<FinishedDocument[]>(tx.objectStore(FINISHED_STORE).getAll(), LABEL),
+  ])
+  return { reads, finished }
+}
+
+/**
+ * Adds a document's history from a backup. Reads already recorded (same time
+ * and chunk) are left out; `overwrite` first removes the document's own history.
+ * Returns how many reads were added.
+ */
+export async function restoreReadingHistory(
+  hash: string,
+  reads: Omit<ChunkRead, 'id'>[],
+  finished: FinishedDocument | null,
+  overwrite: boolean
+): Promise<number> {
+  const db = await openStatsDb()
+  const tx = db.transaction([READ_STORE, FINISHED_STORE], 'readwrite')
+  const readStore = tx.objectStore(READ_STORE)
+  const finishedStore = tx.objectStore(FINISHED_STORE)
+  const existing = (await requestToPromise<ChunkRead[]>(readStore.getAll(), LABEL)).filter((read) => read.hash === hash)
+
+  const getReadKey = (read: Omit<ChunkRead, 'id'>) => `${read.at}|${read.chunkIndex}`
+  const seen = new Set<string>()
+  if (overwrite) {
+    for (const read of existing) if (read.id !== undefined) readStore.delete(read.id)
+    finishedStore.delete(hash)
+  } else {
+    for (const read of existing) seen.add(getReadKey(read))
+  }
+
+  let added = 0
+  for (const read of reads) {
+    if (read.hash !== hash || seen.has(getReadKey(read))) continue
+    seen.add(getReadKey(read))
+    readStore.add(read)
+    added += 1
+  }
+  if (finished) {
+    const current = overwrite
+      ? undefined
+      : await requestToPromise<FinishedDocument | undefined>(finishedStore.get(hash), LABEL)
+    if (!current) finishedStore.put(finished)
+  }
+  await transactionDone(tx, LABEL)
+  return added
+}
+
+function emptyTotals(): ReadingTotals {
+  return { words: 0, chunks: 0, activeMs: 0, wpm: null }
+}
+
+// WPM only counts words from timed chunks, so idle chunks lower neither side
+function addRead(totals: ReadingTotals & { timedWords?: number }, read: ChunkRead) {
+  totals.words += read.words
+  totals.chunks += 1
+  if (read.activeMs > 0) {
+    totals.activeMs += read.activeMs
+    totals.timedWords = (totals.timedWords ?? 0) + read.words
+  }
+}
+
+function finishTotals<T extends ReadingTotals & { timedWords?: number }>(totals: T): T {
+  const { timedWords = 0, ...rest } = totals
+  return { ...rest, wpm: rest.activeMs > 0 ? Math.round(timedWords / (rest.activeMs / 60000)) : null } as T
+}
+
+export function summarizeReading(history: ReadingHistory, now = Date.now()): ReadingStats {
+  const total = emptyTotals()
+  const days = new Map<string, DayStats>()
+  const documents = new Map<string, DocumentStats>()
+
+  for (const read of history.reads) {
+    addRead(total, read)
+
+    let day = days.get(read.day)
+    if (!day) days.set(read.day, (day = { day: read.day, ...emptyTotals() }))
+    addRead(day, read)
+
+    let doc = documents.get(read.hash)
+    if (!doc) {
+      doc = { hash: read.hash, filename: read.filename, lastReadAt: read.at, ...emptyTotals() }
+      documents.set(read.hash, doc)
+    }
+    addRead(doc, read)
+    if (read.at > doc.lastReadAt) {
+      doc.lastReadAt = read.at
+      doc.filename = read.filename
+    }
+  }
+
+  for (const finished of history.finished) {
+    const doc = documents.get(finished.hash)
+    if (doc) doc.finishedAt = finished.finishedAt
+    else {
+      documents.set(finished.hash, {
+        hash: finished.hash,
+        filename: finished.filename,
+        lastReadAt: finished.finishedAt,
+        finishedAt: finished.finishedAt,
+        ...emptyTotals(),
+      })
+    }
+  }
+
+  const dayKeys = Array.from(days.keys()).sort()
+  return {
+    total: { ...finishTotals(total), finished: history.finished.length },
+    days: dayKeys.map((key) => finishTotals(days.get(key) as DayStats)),
+    documents: Array.from(documents.values(), finishTotals).sort((a, b) => b.lastReadAt.localeCompare(a.lastReadAt)),
+    ...getStreaks(new Set(dayKeys), now),
+  }
+}
+
+export function getStreaks(readDays: Set<string>, now: number): { currentStreak: number; longestStreak: number } {
+  let longestStreak = 0
+  for (const key of readDays) {
+    // Only count runs from their first day
+    if (readDays.has(shiftDay(key, -1))) continue
+    let length = 1
+    while (readDays.has(shiftDay(key, length))) length += 1
+    longestStreak = Math.max(longestStreak, length)
+  }
+
+  const today = getDayKey(now)
+  let cursor = readDays.has(today) ? today : shiftDay(today, -1)
+  let currentStreak = 0
+  while (readDays.has(cursor)) {
+    currentStreak += 1
+    cursor = shiftDay(cursor, -1)
+  }
+  return { currentStreak, longestStreak }
+}
+
+function shiftDay(key: string, days: number): string {
+  const [year, month, day] = key.split('-').map(Number)
+  // Noon keeps daylight-saving shifts from crossing a date line
+  return getDayKey(new Date(year, month - 1, day, 12).getTime() + days * DAY_MS)
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
@@ -0,0 +1,41 @@
+const DOCUMENT_KEY_PREFIX = 'lingread:'
+const DOCUMENT_KEY_RE = /^lingread:([0-9a-f]{64})$/
+const ANNOTATIONS_KEY_RE = /^lingread:annotations:([0-9a-f]{64})$/
+
+/** Chunk size of new documents, and of files saved before chunk sizes were stored. */
+export const DEFAULT_WORDS_PER_CHUNK = 40
+
+/** localStorage key of a document's reading state; `hash` is the SHA-256 of its file. */
+export function getDocumentStateKey(hash: string): string {
+  return `${DOCUMENT_KEY_PREFIX}${hash}`
+}
+
+/** A document's saved reading state, or null when there is none or it cannot be read. */
+export function readDocumentState(hash: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getDocumentStateKey(hash)) ?? 'null') as unknown
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+export function writeDocumentState(hash: string, state: Record<string, unknown>) {
+  localStorage.setItem(getDocumentStateKey(hash), JSON.stringify(state))
+}
+
+/** The chunk size a state was saved with, which legacy chunk-indexed notes are mapped back to words by. */
+export function getSavedWordsPerChunk(state: Record<string, unknown> | null): number {
+  return typeof state?.wordsPerChunk === 'number' ? state.wordsPerChunk : DEFAULT_WORDS_PER_CHUNK
+}
+
+/** Every document this browser holds a reading state or annotations for. */
+export function listStoredDocuments(): string[] {
+  const hashes = new Set<string>()
+  for (let i = 0; i < localStorage.length; i += 1) {
+    const key = localStorage.key(i) ?? ''
+    const hash = DOCUMENT_KEY_RE.exec(key)?.[1] ?? ANNOTATIONS_KEY_RE.exec(key)?.[1]
+    if (hash) hashes.add(hash)
+  }
+  return Array.from(hashes)
+}
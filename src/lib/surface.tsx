@@ -0,0 +1,215 @@
+import { useState, type HTMLAttributes, type PointerEvent, type ReactNode, type Ref } from 'react'
+import { BionicChunk, RsvpWord, type BionicChunkProps, type RsvpWordProps } from './bionic'
+import { MAX_WPM, MIN_WPM } from './pacing'
+import { hasActiveSelection } from './selection'
+
+interface ReaderSurfaceProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children' | 'onClick' | 'style'> {
+  ref?: Ref<HTMLDivElement>
+  /** The RSVP group being flashed; the chunk is shown when null. */
+  rsvp: RsvpWordProps | null
+  chunk: BionicChunkProps
+  /** Plays or pauses RSVP, or turns the page; omitted when a click has nothing to do. */
+  onActivate?: () => void
+  /** Looks up the word under a click; true when the click was a word tap or ended a long press. */
+  onWordTap: (target: EventTarget | null) => boolean
+  longPress: {
+    start: (e: PointerEvent) => void
+    move: (e: PointerEvent) => void
+    cancel: () => void
+  }
+}
+
+/**
+ * The chunk, or the RSVP flash, as the reader, the fullscreen overlay and the
+ * PiP window show it. Tapping or long-pressing a word looks it up, dragging
+ * selects words, and any other click plays RSVP or turns the page.
+ */
+export function ReaderSurface({
+  ref,
+  rsvp,
+  chunk,
+  onActivate,
+  onWordTap,
+  longPress,
+  ...rest
+}: ReaderSurfaceProps) {
+  return (
+    <div
+      {...rest}
+      ref={ref}
+      style={{ cursor: onActivate ? 'pointer' : 'default' }}
+      onClick={(e) => {
+        e.stopPropagation()
+        // Finishing a drag-selection should not also turn the page
+        if (hasActiveSelection(e.currentTarget.ownerDocument)) return
+        if (onWordTap(e.target)) return
+        onActivate?.()
+      }}
+      onPointerDown={longPress.start}
+      onPointerMove={longPress.move}
+      onPointerUp={longPress.cancel}
+      onPointerCancel={longPress.cancel}
+    >
+      {rsvp ? <RsvpWord {...rsvp} /> : <BionicChunk {...chunk} />}
+    </div>
+  )
+}
+
+interface SurfaceSettingsProps {
+  emphasis: boolean
+  onEmphasisChange: (enabled: boolean) => void
+  wordsPerChunk: string
+  onWordsPerChunkChange: (value: string) => void
+  /** Auto-advance pace, or the flash pace in RSVP. */
+  wpm: string
+  onWpmChange: (value: string) => void
+  wpmLabel: string
+}
+
+/** The reader's emphasis, chunk size and pace controls, for the fullscreen and PiP toolbars. */
+export function SurfaceSettings({
+  emphasis,
+  onEmphasisChange,
+  wordsPerChunk,
+  onWordsPerChunkChange,
+  wpm,
+  onWpmChange,
+  wpmLabel,
+}: SurfaceSettingsProps) {
+  return (
+    <div className="surfaceSettings" role="group" aria-label="Reading settings">
+      <label className="checkControl">
+        <input type="checkbox" checked={emphasis} onChange={(e) => onEmphasisChange(e.currentTarget.checked)} />
+        Emphasis on
+      </label>
+      <label className="control">
+        <span className="controlLabel">Words / chunk</span>
+        <input
+          className="numberInput"
+          type="number"
+          inputMode="numeric"
+          min={5}
+          max={200}
+          value={wordsPerChunk}
+          onChange={(e) => onWordsPerChunkChange(e.currentTarget.value)}
+        />
+      </label>
+      <label className="control">
+        <span className="controlLabel">{wpmLabel}</span>
+        <input
+          className="numberInput"
+          type="number"
+          inputMode="numeric"
+          min={MIN_WPM}
+          max={MAX_WPM}
+          step={10}
+          value={wpm}
+          onChange={(e) => onWpmChange(e.currentTarget.value)}
+        />
+      </label>
+    </div>
+  )
+}
+
+interface SurfaceToolbarProps {
+  hasPrev: boolean
+  hasNext: boolean
+  onPrev: () => void
+  onNext: () => void
+  /** Button tooltips, naming the keys bound to each action. */
+  prevTitle: string
+  nextTitle: string
+  /** Opens the note form for the chunk; omitted while the form is open. */
+  onAddNote?: () => void
+  sectionTitle?: string
+  onClose: () => void
+  closeTitle: string
+  /** Shown under the strip while its settings button is on. */
+  settings: ReactNode
+}
+
+/**
+ * Navigation strip for the fullscreen overlay and the PiP window, so both
+ * offer what the main reader's buttons and settings do.
+ */
+export function SurfaceToolbar({
+  hasPrev,
+  hasNext,
+  onPrev,
+  onNext,
+  prevTitle,
+  nextTitle,
+  onAddNote,
+  sectionTitle,
+  onClose,
+  closeTitle,
+  settings,
+}: SurfaceToolbarProps) {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  return (
+    <div className="surfaceToolbar" role="toolbar" aria-label="Reader" onClick={(e) => e.stopPropagation()}>
+      <button type="button" className="btn" onClick={onPrev} disabled={!hasPrev} title={prevTitle}>
+        ‹
+      </button>
+      <button type="button" className="btn btnPrimary" onClick={onNext} disabled={!hasNext} title={nextTitle}>
+        ›
+      </button>
+      <button type="button" className="btn" onClick={onAddNote} disabled={!onAddNote} title="Add a note to this chunk">
+        ✎ Note
+      </button>
+      <span className="surfaceSection">{sectionTitle}</span>
+      <button
+        type="button"
+        className={isSettingsOpen ? 'btn btnActive' : 'btn'}
+        onClick={() => setIsSettingsOpen((open) => !open)}
+        aria-pressed={isSettingsOpen}
+        title="Reading settings"
+        aria-label="Reading settings"
+      >
+        ⚙
+      </button>
+      <button type="button" className="btn" onClick={onClose} title={closeTitle} aria-label={closeTitle}>
+        ✕
+      </button>
+      {isSettingsOpen ? settings : null}
+    </div>
+  )
+}
+
+interface SurfaceProgressProps {
+  chunkIndex: number
+  chunkCount: number
+  /** Share of the document read through the current chunk, 0–100. */
+  percent: number
+  minutesLeft: number | null
+  /** Pace or playback state, e.g. `300 wpm · paused`. */
+  status?: ReactNode
+}
+
+export function SurfaceProgress({ chunkIndex, chunkCount, percent, minutesLeft, status }: SurfaceProgressProps) {
+  return (
+    <div className="surfaceProgress">
+      <span
+        className="surfaceProgressTrack"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label="Progress through the document"
+      >
+        <span className="surfaceProgressFill" style={{ width: `${percent}%` }} />
+      </span>
+      <span className="surfaceProgressText">
+        {chunkIndex + 1} / {chunkCount} · {percent}%
+        {minutesLeft === null ? null : ` · ${formatMinutesLeft(minutesLeft)}`}
+        {status ? <> · {status}</> : null}
+      </span>
+    </div>
+  )
+}
+
+function formatMinutesLeft(minutes: number): string {
+  if (minutes < 1) return 'under a minute left'
+  if (minutes < 60) return `${minutes} min left`
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min left`
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { Annotation } from './annotations'
+import { mergeSyncRecords, type SyncRecord } from './sync'
+
+const HASH = 'a'.repeat(64)
+
+function record(patch: Partial<SyncRecord>): SyncRecord {
+  return { format: 'lingread-sync', version: 1, hash: HASH, position: null, annotations: [], deleted: [], ...patch }
+}
+
+function note(id: string, createdAt: string, patch: Partial<Annotation> = {}): Annotation {
+  return { id, wordStart: 0, wordEnd: 1, text: '', color: null, createdAt, ...patch }
+}
+
+describe('mergeSyncRecords', () => {
+  it('keeps the furthest reading position, even when it is older', () => {
+    const ahead = record({ position: { wordOffset: 900, updatedAt: '2026-01-01T00:00:00.000Z' } })
+    const behind = record({ position: { wordOffset: 100, updatedAt: '2026-03-01T00:00:00.000Z' } })
+    expect(mergeSyncRecords(ahead, behind).position?.wordOffset).toBe(900)
+    expect(mergeSyncRecords(behind, ahead).position?.wordOffset).toBe(900)
+  })
+
+  it('breaks a position tie with the later update', () => {
+    const earlier = record({ position: { wordOffset: 40, updatedAt: '2026-01-01T00:00:00.000Z' } })
+    const later = record({ position: { wordOffset: 40, updatedAt: '2026-02-01T00:00:00.000Z' } })
+    expect(mergeSyncRecords(earlier, later).position).toEqual(later.position)
+  })
+
+  it('keeps the only position when one side has none', () => {
+    const local = record({ position: { wordOffset: 7, updatedAt: '2026-01-01T00:00:00.000Z' } })
+    expect(mergeSyncRecords(record({}), local).position).toEqual(local.position)
+  })
+
+  it('merges annotations by id, keeping the later edit', () => {
+    const original = note('n1', '2026-01-01T00:00:00.000Z', { text: 'old' })
+    const edited = { ...original, text: 'new', updatedAt: '2026-01-02T00:00:00.000Z' }
+    const other = note('n2', '2026-01-03T00:00:00.000Z', { wordStart: 5, wordEnd: 6 })
+    const merged = mergeSyncRecords(record({ annotations: [edited] }), record({ annotations: [original, other] }))
+    expect(merged.annotations).toEqual([edited, other])
+  })
+
+  it('drops annotations deleted after their last edit and keeps ones edited since', () => {
+    const deleted = note('gone', '2026-01-01T00:00:00.000Z')
+    const revived = note('back', '2026-01-01T00:00:00.000Z', { updatedAt: '2026-01-05T00:00:00.000Z' })
+    const merged = mergeSyncRecords(
+      record({ annotations: [deleted, revived] }),
+      record({
+        deleted: [
+          { id: 'gone', deletedAt: '2026-01-02T00:00:00.000Z' },
+          { id: 'back', deletedAt: '2026-01-02T00:00:00.000Z' },
+        ],
+      })
+    )
+    expect(merged.annotations.map((a) => a.id)).toEqual(['back'])
+    expect(merged.deleted.map((t) => t.id)).toEqual(['back', 'gone'])
+  })
+
+  it('gives the same result whichever side comes first', () => {
+    const a = record({
+      position: { wordOffset: 3, updatedAt: '2026-01-01T00:00:00.000Z' },
+      annotations: [note('x', '2026-01-01T00:00:00.000Z', { wordStart: 4, wordEnd: 5 })],
+    })
+    const b = record({
+      annotations: [note('y', '2026-01-02T00:00:00.000Z')],
+      deleted: [{ id: 'z', deletedAt: '2026-01-03T00:00:00.000Z' }],
+    })
+    expect(mergeSyncRecords(a, b)).toEqual(mergeSyncRecords(b, a))
+  })
+})
@@ -0,0 +1,362 @@
+import { getStoredAnnotations, parseAnnotations, saveAnnotations, type Annotation } from './annotations'
+import { getSavedWordsPerChunk, readDocumentState, writeDocumentState } from './storage'
+
+const SETTINGS_KEY = 'lingread:sync'
+const QUEUE_KEY = 'lingread:sync-queue'
+const RECORD_FORMAT = 'lingread-sync'
+const RECORD_VERSION = 1
+/** Writes that lose a race with another device are retried this many times. */
+const MAX_WRITE_ATTEMPTS = 3
+
+export type SyncBackend = 'off' | 'webdav' | 'http'
+
+export const SYNC_BACKENDS: { value: SyncBackend; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'webdav', label: 'WebDAV' },
+  { value: 'http', label: 'HTTP JSON' },
+]
+
+export interface SyncSettings {
+  backend: SyncBackend
+  /** WebDAV folder or HTTP endpoint; each document is stored at `<url>/<hash>.json`. */
+  url: string
+  /** WebDAV user name; unused by the HTTP backend. */
+  username: string
+  /** WebDAV password, or the bearer token sent to an HTTP endpoint. */
+  password: string
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { backend: 'off', url: '', username: '', password: '' }
+
+export interface SyncPosition {
+  /** Index into the document's words of the first word of the chunk being read. */
+  wordOffset: number
+  updatedAt: string
+}
+
+/** Marks an annotation deleted, so merging does not bring it back from another device. */
+export interface SyncTombstone {
+  id: string
+  deletedAt: string
+}
+
+/** What syncs for one document, keyed by the hash of its text. */
+export interface SyncRecord {
+  format: typeof RECORD_FORMAT
+  version: number
+  hash: string
+  position: SyncPosition | null
+  annotations: Annotation[]
+  deleted: SyncTombstone[]
+}
+
+/** A record as read from the server; `etag` guards the next write against a concurrent one. */
+export interface RemoteRecord {
+  record: SyncRecord
+  etag: string | null
+}
+
+/** Where records are kept. Adding a backend means implementing this. */
+export interface SyncAdapter {
+  /** The stored record for a document, or null when the server has none. */
+  get(hash: string): Promise<RemoteRecord | null>
+  /**
+   * Stores `record` unless the server's copy changed since `previous` was read.
+   * Returns false when it did, so the caller can merge again.
+   */
+  put(hash: string, record: SyncRecord, previous: RemoteRecord | null): Promise<boolean>
+}
+
+/** What a sync changed locally, for updating an open document. */
+export interface SyncedDocument {
+  hash: string
+  /** New reading position when another device got further; null when it stayed. */
+  wordOffset: number | null
+  /** Merged annotations when they changed; null when they did not. */
+  annotations: Annotation[] | null
+}
+
+export type SyncState = 'off' | 'idle' | 'syncing' | 'offline' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  lastSyncedAt: string | null
+  message: string | null
+  /** Documents with changes the server has not seen yet. */
+  queued: number
+}
+
+interface QueuedDocument {
+  changedAt: string
+  deleted: SyncTombstone[]
+}
+
+type SyncQueue = Record<string, QueuedDocument>
+
+export function isSyncBackend(value: unknown): value is SyncBackend {
+  return SYNC_BACKENDS.some((b) => b.value === value)
+}
+
+export function loadSyncSettings(): SyncSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<SyncSettings> | null
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_SYNC_SETTINGS
+    return {
+      backend: isSyncBackend(parsed.backend) ? parsed.backend : 'off',
+      url: typeof parsed.url === 'string' ? parsed.url : '',
+      username: typeof parsed.username === 'string' ? parsed.username : '',
+      password: typeof parsed.password === 'string' ? parsed.password : '',
+    }
+  } catch {
+    return DEFAULT_SYNC_SETTINGS
+  }
+}
+
+export function saveSyncSettings(settings: SyncSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+/** The adapter for `settings`, or null while sync is off or has no server yet. */
+export function createSyncAdapter(settings: SyncSettings): SyncAdapter | null {
+  const url = settings.url.trim().replace(/\/+$/, '')
+  if (settings.backend === 'off' || !url) return null
+  if (settings.backend === 'webdav') {
+    const headers: Record<string, string> = {}
+    if (settings.username || settings.password) {
+      headers.Authorization = `Basic ${encodeBase64(`${settings.username}:${settings.password}`)}`
+    }
+    return createHttpAdapter(url, headers, true)
+  }
+  return createHttpAdapter(url, settings.password ? { Authorization: `Bearer ${settings.password}` } : {}, false)
+}
+
+/**
+ * GET and PUT of `<url>/<hash>.json`, with ETags for safe concurrent writes.
+ * WebDAV folders are created on the first write if they are missing.
+ */
+function createHttpAdapter(url: string, headers: Record<string, string>, webDav: boolean): SyncAdapter {
+  const request = async (target: string, init: RequestInit) => {
+    try {
+      return await fetch(target, { ...init, headers: { ...headers, ...init.headers }, cache: 'no-store' })
+    } catch {
+      throw new Error('Could not reach the sync server.')
+    }
+  }
+  const check = (response: Response) => {
+    if (response.status === 401 || response.status === 403) throw new Error('The sync server refused the login.')
+    if (!response.ok) throw new Error(`The sync server answered ${response.status} ${response.statusText}.`.trim())
+  }
+
+  return {
+    async get(hash) {
+      const response = await request(`${url}/${hash}.json`, { method: 'GET' })
+      if (response.status === 404) return null
+      check(response)
+      const record = parseSyncRecord(await response.json().catch(() => null), hash)
+      if (!record) throw new Error('The sync server returned a record Lingread cannot read.')
+      return { record, etag: response.headers.get('ETag') }
+    },
+
+    async put(hash, record, previous) {
+      const conditions: Record<string, string> = {}
+      if (!previous) conditions['If-None-Match'] = '*'
+      else if (previous.etag) conditions['If-Match'] = previous.etag
+      const send = () =>
+        request(`${url}/${hash}.json`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', ...conditions },
+          body: JSON.stringify(record),
+        })
+
+      let response = await send()
+      // WebDAV answers 409 when the folder does not exist yet
+      if (webDav && response.status === 409) {
+        const folder = await request(`${url}/`, { method: 'MKCOL' })
+        if (!folder.ok && folder.status !== 405) check(folder)
+        response = await send()
+      }
+      if (response.status === 412) return false
+      check(response)
+      return true
+    },
+  }
+}
+
+/** Notes that a document changed locally, with the ids of any annotations deleted, so the next sync sends it. */
+export function queueDocumentSync(hash: string, deletedIds: string[] = []) {
+  const queue = loadQueue()
+  const now = new Date().toISOString()
+  const deleted = queue[hash]?.deleted.filter((t) => !deletedIds.includes(t.id)) ?? []
+  queue[hash] = { changedAt: now, deleted: [...deleted, ...deletedIds.map((id) => ({ id, deletedAt: now }))] }
+  saveQueue(queue)
+}
+
+export function countQueuedDocuments(): number {
+  return Object.keys(loadQueue()).length
+}
+
+/**
+ * Syncs `hashes` and every queued document, one at a time, calling `onSynced`
+ * after each. A document whose sync fails stays queued; the first failure
+ * stops the run and is rethrown.
+ */
+export async function syncDocuments(
+  adapter: SyncAdapter,
+  hashes: string[],
+  onSynced: (document: SyncedDocument) => void
+): Promise<void> {
+  for (const hash of new Set([...Object.keys(loadQueue()), ...hashes])) {
+    onSynced(await syncDocument(adapter, hash))
+  }
+}
+
+async function syncDocument(adapter: SyncAdapter, hash: string): Promise<SyncedDocument> {
+  const result: SyncedDocument = { hash, wordOffset: null, annotations: null }
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt += 1) {
+    const queued = loadQueue()[hash]
+    const local = readLocalRecord(hash, queued)
+    const remote = await adapter.get(hash)
+    const merged = remote ? mergeSyncRecords(local, remote.record) : local
+
+    const change = writeLocalRecord(local, merged)
+    result.wordOffset = change.wordOffset ?? result.wordOffset
+    result.annotations = change.annotations ?? result.annotations
+
+    const upToDate = remote && JSON.stringify(merged) === JSON.stringify(remote.record)
+    if (upToDate || (await adapter.put(hash, merged, remote))) {
+      dequeue(hash, queued?.changedAt)
+      return result
+    }
+  }
+  throw new Error('Another device kept changing this document during sync; it will be tried again.')
+}
+
+/**
+ * Combines two copies of a record. The furthest reading position wins (the
+ * later one on a tie); annotations are merged by id, keeping the later edit,
+ * and deletions win over edits made before them.
+ */
+export function mergeSyncRecords(a: SyncRecord, b: SyncRecord): SyncRecord {
+  const deletedAt = new Map<string, string>()
+  for (const tombstone of [...a.deleted, ...b.deleted]) {
+    const known = deletedAt.get(tombstone.id)
+    if (!known || tombstone.deletedAt > known) deletedAt.set(tombstone.id, tombstone.deletedAt)
+  }
+
+  const annotations = new Map<string, Annotation>()
+  for (const annotation of [...a.annotations, ...b.annotations]) {
+    const known = annotations.get(annotation.id)
+    if (!known || getAnnotationTime(annotation) > getAnnotationTime(known)) annotations.set(annotation.id, annotation)
+  }
+
+  return {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    hash: a.hash,
+    position: pickFurthestPosition(a.position, b.position),
+    annotations: Array.from(annotations.values())
+      .filter((annotation) => {
+        const deleted = deletedAt.get(annotation.id)
+        return !deleted || deleted < getAnnotationTime(annotation)
+      })
+      .sort((x, y) => x.wordStart - y.wordStart || x.createdAt.localeCompare(y.createdAt) || x.id.localeCompare(y.id)),
+    deleted: Array.from(deletedAt, ([id, at]) => ({ id, deletedAt: at })).sort((x, y) => x.id.localeCompare(y.id)),
+  }
+}
+
+function pickFurthestPosition(a: SyncPosition | null, b: SyncPosition | null): SyncPosition | null {
+  if (!a || !b) return a ?? b
+  if (a.wordOffset !== b.wordOffset) return a.wordOffset > b.wordOffset ? a : b
+  return a.updatedAt >= b.updatedAt ? a : b
+}
+
+function getAnnotationTime(annotation: Annotation): string {
+  return annotation.updatedAt ?? annotation.createdAt
+}
+
+function readLocalRecord(hash: string, queued: QueuedDocument | undefined): SyncRecord {
+  const state = readDocumentState(hash)
+  const position =
+    typeof state?.wordOffset === 'number'
+      ? { wordOffset: state.wordOffset, updatedAt: typeof state.updatedAt === 'string' ? state.updatedAt : '' }
+      : null
+  // Normalised through a merge with itself, so it compares equal to the same record from the server
+  const record: SyncRecord = {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    hash,
+    position,
+    annotations: getStoredAnnotations(hash, getSavedWordsPerChunk(state)),
+    deleted: queued?.deleted ?? [],
+  }
+  return mergeSyncRecords(record, record)
+}
+
+function writeLocalRecord(local: SyncRecord, merged: SyncRecord): Omit<SyncedDocument, 'hash'> {
+  const change: Omit<SyncedDocument, 'hash'> = { wordOffset: null, annotations: null }
+  if (merged.position && merged.position.wordOffset !== local.position?.wordOffset) {
+    const state = readDocumentState(local.hash) ?? {}
+    writeDocumentState(local.hash, {
+      ...state,
+      wordOffset: merged.position.wordOffset,
+      updatedAt: merged.position.updatedAt,
+    })
+    change.wordOffset = merged.position.wordOffset
+  }
+  if (JSON.stringify(merged.annotations) !== JSON.stringify(local.annotations)) {
+    saveAnnotations(local.hash, merged.annotations)
+    change.annotations = merged.annotations
+  }
+  return change
+}
+
+function parseSyncRecord(value: unknown, hash: string): SyncRecord | null {
+  if (!value || typeof value !== 'object') return null
+  const v = value as Partial<Record<keyof SyncRecord, unknown>>
+  if (v.format !== RECORD_FORMAT || typeof v.version !== 'number' || v.version > RECORD_VERSION || v.hash !== hash) {
+    return null
+  }
+  const position = v.position as Partial<SyncPosition> | null | undefined
+  return {
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    hash,
+    position:
+      position && typeof position.wordOffset === 'number' && typeof position.updatedAt === 'string'
+        ? { wordOffset: Math.max(0, Math.trunc(position.wordOffset)), updatedAt: position.updatedAt }
+        : null,
+    annotations: Array.isArray(v.annotations) ? parseAnnotations(v.annotations) : [],
+    deleted: Array.isArray(v.deleted) ? v.deleted.filter(isTombstone) : [],
+  }
+}
+
+function isTombstone(value: unknown): value is SyncTombstone {
+  if (!value || typeof value !== 'object') return false
+  const t = value as SyncTombstone
+  return typeof t.id === 'string' && typeof t.deletedAt === 'string'
+}
+
+function loadQueue(): SyncQueue {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '{}') as unknown
+    return parsed && typeof parsed === 'object' ? (parsed as SyncQueue) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveQueue(queue: SyncQueue) {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+}
+
+// A change made while the document was syncing keeps it queued
+function dequeue(hash: string, changedAt: string | undefined) {
+  const queue = loadQueue()
+  if (queue[hash]?.changedAt !== changedAt) return
+  delete queue[hash]
+  saveQueue(queue)
+}
+
+function encodeBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { SYNC_BACKENDS, type SyncBackend, type SyncSettings, type SyncStatus } from './sync'
+
+interface SyncPanelProps {
+  settings: SyncSettings
+  onChange: (settings: SyncSettings) => void
+  status: SyncStatus
+  onSyncNow: () => void
+}
+
+/**
+ * Server settings for syncing positions and notes between devices, and how
+ * the last sync went. Server fields apply when *Save* is pressed.
+ */
+export function SyncPanel({ settings, onChange, status, onSyncNow }: SyncPanelProps) {
+  const [draft, setDraft] = useState(settings)
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings)
+
+  return (
+    <div id="sync-panel" className="emphasisPanel" role="group" aria-label="Sync">
+      <label className="control">
+        <span className="controlLabel">Sync</span>
+        <select
+          className="selectInput"
+          value={draft.backend}
+          onChange={(e) => setDraft({ ...draft, backend: e.currentTarget.value as SyncBackend })}
+        >
+          {SYNC_BACKENDS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {draft.backend === 'off' ? null : (
+        <>
+          <label className="control">
+            <span className="controlLabel">{draft.backend === 'webdav' ? 'Folder URL' : 'Endpoint URL'}</span>
+            <input
+              className="numberInput syncUrl"
+              type="url"
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.currentTarget.value })}
+              placeholder="http://localhost:8787/lingread"
+            />
+          </label>
+          {draft.backend === 'webdav' ? (
+            <label className="control">
+              <span className="controlLabel">User name</span>
+              <input
+                className="numberInput"
+                value={draft.username}
+                onChange={(e) => setDraft({ ...draft, username: e.currentTarget.value })}
+                autoComplete="username"
+              />
+            </label>
+          ) : null}
+          <label className="control">
+            <span className="controlLabel">{draft.backend === 'webdav' ? 'Password' : 'Token (optional)'}</span>
+            <input
+              className="numberInput"
+              type="password"
+              value={draft.password}
+              onChange={(e) => setDraft({ ...draft, password: e.currentTarget.value })}
+              autoComplete="current-password"
+            />
+          </label>
+        </>
+      )}
+      <button type="button" className="btn" onClick={() => onChange(draft)} disabled={!isDirty}>
+        Save
+      </button>
+      {settings.backend === 'off' ? null : (
+        <button type="button" className="btn" onClick={onSyncNow} disabled={isDirty || status.state === 'syncing'}>
+          Sync now
+        </button>
+      )}
+      <p className="muted syncStatus" data-state={status.state}>
+        {formatSyncStatus(status)}
+      </p>
+    </div>
+  )
+}
+
+function formatSyncStatus({ state, lastSyncedAt, message, queued }: SyncStatus): string {
+  const pending = queued > 0 ? ` ${queued} document${queued === 1 ? '' : 's'} waiting to sync.` : ''
+  const last = lastSyncedAt ? ` Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}.` : ''
+  switch (state) {
+    case 'off':
+      return 'Reading positions and notes stay in this browser.'
+    case 'syncing':
+      return `Syncing…${pending}`
+    case 'offline':
+      return `Offline; changes are kept and sent when the connection returns.${pending}`
+    case 'error':
+      return `${message ?? 'Sync failed.'}${pending}${last}`
+    default:
+      return `Up to date.${last}${pending}`
+  }
+}
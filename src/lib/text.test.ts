@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { buildChunkStarts, findParagraphEnds, joinWords, layoutWords, remapWordOffset, type WordLayout } from './text'
+
+function chunk(text: string, wordsPerChunk: number, strategy: 'fixed' | 'sentence' | 'paragraph') {
+  const { words } = layoutWords(text)
+  return buildChunkStarts(words, findParagraphEnds(text), wordsPerChunk, strategy)
+}
+
+describe('buildChunkStarts', () => {
+  it('cuts fixed windows of exactly wordsPerChunk words', () => {
+    expect(chunk('a b c d e f g h i j', 4, 'fixed')).toEqual([0, 4, 8])
+  })
+
+  it('returns no chunks for an empty document', () => {
+    expect(buildChunkStarts([], [], 40, 'sentence')).toEqual([])
+  })
+
+  it('closes sentence chunks at the first sentence end past three quarters of the target', () => {
+    expect(chunk('One two three. Four five six seven. Eight', 4, 'sentence')).toEqual([0, 3, 7])
+  })
+
+  it('does not end a sentence at an abbreviation', () => {
+    expect(chunk('Talk to Dr. Smith today. Then more', 4, 'sentence')).toEqual([0, 5])
+  })
+
+  it('ends a sentence at “no.”', () => {
+    expect(chunk('They said no. Then left', 4, 'sentence')).toEqual([0, 3])
+  })
+
+  it('closes paragraph chunks at paragraph ends past half the target', () => {
+    expect(chunk('A b c.\n\nD e f g h i.', 4, 'paragraph')).toEqual([0, 3])
+  })
+
+  it('caps unpunctuated text at twice the target', () => {
+    expect(chunk('a a a a a a a a a', 2, 'sentence')).toEqual([0, 4, 8])
+  })
+})
+
+describe('remapWordOffset', () => {
+  const from: WordLayout = { words: ['ab', 'cd'], charStarts: [0, 3], joined: new Set() }
+  const to: WordLayout = { words: ['a', 'b', 'cd'], charStarts: [0, 1, 3], joined: new Set([0]) }
+
+  it('moves a word to the word covering the same character', () => {
+    expect(remapWordOffset(0, from, to)).toBe(0)
+    expect(remapWordOffset(1, from, to)).toBe(2)
+    expect(remapWordOffset(2, to, from)).toBe(1)
+  })
+
+  it('lands inside a word that was split', () => {
+    expect(remapWordOffset(1, to, from)).toBe(0)
+  })
+
+  it('clamps offsets past the end', () => {
+    expect(remapWordOffset(9, from, to)).toBe(2)
+  })
+
+  it('maps to the start of an empty layout', () => {
+    expect(remapWordOffset(1, from, { words: [], charStarts: [], joined: new Set() })).toBe(0)
+  })
+
+  it('round-trips between whitespace and segmented layouts', () => {
+    const text = '今日は晴れです。 Hello world'
+    const plain = layoutWords(text)
+    const segmented = layoutWords(text, 'ja')
+    const hello = plain.words.indexOf('Hello')
+    const moved = remapWordOffset(hello, plain, segmented)
+    expect(segmented.words[moved]).toBe('Hello')
+    expect(remapWordOffset(moved, segmented, plain)).toBe(hello)
+  })
+})
+
+describe('joinWords', () => {
+  it('leaves out the spaces between joined words', () => {
+    const { words, joined } = layoutWords('今日は晴れです。 Hello world', 'ja')
+    expect(joinWords(words, 0, words.length, joined)).toBe('今日は晴れです。 Hello world')
+  })
+})
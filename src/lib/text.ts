@@ -1,6 +1,239 @@
-export function splitIntoWords(raw: string): string[] {
-  const text = raw.replace(/^\uFEFF/, '').replace(/\s+/g, ' ').trim()
+import { usesWordSegmentation } from './language'
+import type { WordRange } from './selection'
+
+export type ChunkingStrategy = 'fixed' | 'sentence' | 'paragraph'
+
+export const CHUNKING_STRATEGIES: { value: ChunkingStrategy; label: string }[] = [
+  { value: 'fixed', label: 'Fixed words' },
+  { value: 'sentence', label: 'Sentences' },
+  { value: 'paragraph', label: 'Paragraphs' },
+]
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategy = 'fixed'
+
+/** A word that ends a sentence, allowing for closing quotes and brackets. */
+export const SENTENCE_END_RE = /[.!?…。！？؟।]["'”’)\]」』）》]*$/
+/** A word that ends a clause: comma, semicolon, colon or dash, in Latin, CJK and Arabic forms. */
+export const CLAUSE_END_RE = /[,;:—–，、；：،؛]["'”’)\]」』）》]*$/
+// Short forms whose period does not end a sentence. "No." is left out: "…said no." ends one far more often
+const ABBREVIATION_RE = /^(?:mr|mrs|ms|dr|prof|st|vs|etc|e\.g|i\.e|cf|vol|ch|fig|p|pp)\.$/i
+const SEGMENTED_SCRIPT_RE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u
+
+/** Words of a document plus what is needed to render and re-map them. */
+export interface WordLayout {
+  words: string[]
+  /** Offset of each word in the space-collapsed text, for moving positions between layouts. */
+  charStarts: number[]
+  /** Indices of words written flush against the next word (no space between them). */
+  joined: Set<number>
+}
+
+/**
+ * Splits on whitespace. For languages written without spaces (`usesWordSegmentation`)
+ * each token is further divided with `Intl.Segmenter`, where the browser has it.
+ */
+export function splitIntoWords(raw: string, language?: string): string[] {
+  if (usesWordSegmentation(language)) return layoutWords(raw, language).words
+  const text = collapseWhitespace(raw)
   if (!text) return []
   return text.split(' ')
 }
 
+export function layoutWords(raw: string, language?: string): WordLayout {
+  const text = collapseWhitespace(raw)
+  const layout: WordLayout = { words: [], charStarts: [], joined: new Set() }
+  if (!text) return layout
+
+  const segmenter = usesWordSegmentation(language) ? createWordSegmenter(language) : null
+  let offset = 0
+  for (const token of text.split(' ')) {
+    if (segmenter && SEGMENTED_SCRIPT_RE.test(token)) {
+      for (const piece of segmentToken(token, segmenter)) {
+        layout.joined.add(layout.words.length)
+        layout.words.push(piece.text)
+        layout.charStarts.push(offset + piece.index)
+      }
+      layout.joined.delete(layout.words.length - 1)
+    } else {
+      layout.words.push(token)
+      layout.charStarts.push(offset)
+    }
+    offset += token.length + 1
+  }
+
+  return layout
+}
+
+function collapseWhitespace(raw: string): string {
+  return raw.replace(/^\uFEFF/, '').replace(/\s+/g, ' ').trim()
+}
+
+function createWordSegmenter(language: string | undefined): Intl.Segmenter | null {
+  if (typeof Intl.Segmenter !== 'function') return null
+  try {
+    return new Intl.Segmenter(language, { granularity: 'word' })
+  } catch {
+    return null
+  }
+}
+
+/** Word-like segments of `token`, with punctuation attached to the word before it. */
+function segmentToken(token: string, segmenter: Intl.Segmenter): { text: string; index: number }[] {
+  const pieces: { text: string; index: number }[] = []
+  let pending = ''
+  let pendingIndex = 0
+
+  for (const { segment, index, isWordLike } of segmenter.segment(token)) {
+    if (isWordLike) {
+      pieces.push({ text: pending + segment, index: pending ? pendingIndex : index })
+      pending = ''
+    } else if (pieces.length > 0) {
+      pieces[pieces.length - 1].text += segment
+    } else {
+      if (!pending) pendingIndex = index
+      pending += segment
+    }
+  }
+
+  if (pending) pieces.push({ text: pending, index: pendingIndex })
+  return pieces
+}
+
+/**
+ * Indices (into `splitIntoWords(raw, language)`) of the last word of every paragraph.
+ * Paragraphs are separated by the blank lines `normalizeExtractedText` keeps.
+ */
+export function findParagraphEnds(raw: string, language?: string): number[] {
+  const ends: number[] = []
+  let count = 0
+
+  for (const paragraph of raw.split(/\n\s*\n/)) {
+    const n = splitIntoWords(paragraph, language).length
+    if (n === 0) continue
+    count += n
+    ends.push(count - 1)
+  }
+
+  return ends
+}
+
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return CHUNKING_STRATEGIES.some((s) => s.value === value)
+}
+
+/**
+ * Word offsets at which each chunk starts. With `fixed`, chunks are exact
+ * `wordsPerChunk` windows; otherwise `wordsPerChunk` is a target and chunks
+ * close on sentence or paragraph boundaries near it.
+ */
+export function buildChunkStarts(
+  words: string[],
+  paragraphEnds: number[],
+  wordsPerChunk: number,
+  strategy: ChunkingStrategy
+): number[] {
+  if (words.length === 0) return []
+
+  const starts: number[] = [0]
+  if (strategy === 'fixed') {
+    for (let i = wordsPerChunk; i < words.length; i += wordsPerChunk) starts.push(i)
+    return starts
+  }
+
+  const paragraphEndSet = new Set(paragraphEnds)
+  const paragraphMin = Math.ceil(wordsPerChunk * 0.5)
+  const sentenceMin = strategy === 'sentence' ? Math.ceil(wordsPerChunk * 0.75) : wordsPerChunk
+  const hardMax = wordsPerChunk * 2
+  let chunkStart = 0
+
+  for (let i = 0; i < words.length - 1; i += 1) {
+    const len = i + 1 - chunkStart
+    const word = words[i]
+    const closes =
+      (paragraphEndSet.has(i) && len >= paragraphMin) ||
+      (isSentenceEnd(word) && len >= sentenceMin) ||
+      (CLAUSE_END_RE.test(word) && len >= wordsPerChunk * 1.25) ||
+      len >= hardMax
+
+    if (closes) {
+      chunkStart = i + 1
+      starts.push(chunkStart)
+    }
+  }
+
+  return starts
+}
+
+export function getChunkWords(words: string[], chunkStarts: number[], chunkIndex: number): string[] {
+  const start = chunkStarts[chunkIndex]
+  if (start === undefined) return []
+  return words.slice(start, chunkStarts[chunkIndex + 1] ?? words.length)
+}
+
+function isSentenceEnd(word: string): boolean {
+  return SENTENCE_END_RE.test(word) && !ABBREVIATION_RE.test(word)
+}
+
+const MAX_SENTENCE_WORDS = 60
+
+/**
+ * The sentence around word `wordIndex`, bounded by sentence and paragraph ends
+ * and capped at `MAX_SENTENCE_WORDS` either side for text without punctuation.
+ */
+export function getSentenceRange(words: string[], paragraphEnds: number[], wordIndex: number): WordRange {
+  const paragraphEndSet = new Set(paragraphEnds)
+  const isBoundary = (i: number) => isSentenceEnd(words[i]) || paragraphEndSet.has(i)
+  let start = wordIndex
+  while (start > 0 && wordIndex - start < MAX_SENTENCE_WORDS && !isBoundary(start - 1)) start -= 1
+  let end = wordIndex
+  while (end < words.length - 1 && end - wordIndex < MAX_SENTENCE_WORDS && !isBoundary(end)) end += 1
+  return { start, end: end + 1 }
+}
+
+/** Words `start`–`end` as running text, without spaces between words that were written joined. */
+export function joinWords(words: string[], start: number, end: number, joined?: Set<number>): string {
+  return joinWordsWithStarts(words, start, end, joined).text
+}
+
+/** `joinWords`, with the offset in the text where each word starts. */
+export function joinWordsWithStarts(
+  words: string[],
+  start: number,
+  end: number,
+  joined?: Set<number>
+): { text: string; wordStarts: number[] } {
+  let text = ''
+  const wordStarts: number[] = []
+  for (let i = start; i < end && i < words.length; i += 1) {
+    wordStarts.push(text.length)
+    text += words[i]
+    if (i < end - 1 && !joined?.has(i)) text += ' '
+  }
+  return { text, wordStarts }
+}
+
+/** Moves a word index from one layout of a text to the word covering the same character in another. */
+export function remapWordOffset(wordOffset: number, from: WordLayout, to: WordLayout): number {
+  if (to.words.length === 0) return 0
+  const char = from.charStarts[Math.min(wordOffset, from.charStarts.length - 1)] ?? 0
+  return findChunkIndexForWord(to.charStarts, char)
+}
+
+export function remapWordRange(range: WordRange, from: WordLayout, to: WordLayout): WordRange {
+  const start = remapWordOffset(range.start, from, to)
+  const end = remapWordOffset(Math.max(range.start, range.end - 1), from, to) + 1
+  return { start, end: Math.max(start + 1, end) }
+}
+
+/** Index of the chunk that contains word `wordOffset`. */
+export function findChunkIndexForWord(chunkStarts: number[], wordOffset: number): number {
+  let lo = 0
+  let hi = chunkStarts.length - 1
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (chunkStarts[mid] <= wordOffset) lo = mid
+    else hi = mid - 1
+  }
+  return Math.max(0, lo)
+}
@@ -0,0 +1,17 @@
+// Combining marks belong to the core so Thai vowels and Indic matras stay with their letters
+export const CORE_WORD_RE =
+  /^([^\p{L}\p{N}]*)((?:[\p{L}\p{N}][\p{L}\p{M}\p{N}]*(?:[’'][\p{L}\p{M}\p{N}]+)*)?)([^\p{L}\p{N}]*)$/u
+
+export interface TokenParts {
+  leading: string
+  core: string
+  trailing: string
+}
+
+/** Splits a whitespace-delimited token into leading punctuation, word core and trailing punctuation. */
+export function parseToken(token: string): TokenParts | null {
+  const m = token.match(CORE_WORD_RE)
+  if (!m) return null
+  const [, leading, core, trailing] = m
+  return { leading, core, trailing }
+}
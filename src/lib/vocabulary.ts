@@ -0,0 +1,162 @@
+import { createDatabaseOpener, requestToPromise, transactionDone } from './idb'
+import { parseToken } from './tokens'
+
+const DB_NAME = 'lingread-vocabulary'
+const DB_VERSION = 1
+const WORD_STORE = 'words'
+const LANGUAGE_INDEX = 'language'
+const LABEL = 'vocabulary'
+
+export const LEARNING_LEVELS = [1, 2, 3, 4] as const
+
+export type LearningLevel = (typeof LEARNING_LEVELS)[number]
+
+/** Words without an entry are `new`; only the other states are stored. */
+export type WordStatus = 'new' | 'learning' | 'known' | 'ignored'
+
+export interface VocabularyEntry {
+  language: string
+  /** `getWordForm` of the token: the punctuation-free core, lower-cased. */
+  form: string
+  status: Exclude<WordStatus, 'new'>
+  /** 1 (just met) to 4 (nearly known); only set while `learning`. */
+  level?: LearningLevel
+  updatedAt: string
+}
+
+/** Vocabulary for one language, keyed by word form. */
+export type Vocabulary = Map<string, VocabularyEntry>
+
+export interface KnownShare {
+  known: number
+  /** Words counted: everything with letters, minus ignored words. */
+  total: number
+}
+
+const openVocabularyDb = createDatabaseOpener(DB_NAME, DB_VERSION, LABEL, (db) => {
+  if (!db.objectStoreNames.contains(WORD_STORE)) {
+    const store = db.createObjectStore(WORD_STORE, { keyPath: ['language', 'form'] })
+    store.createIndex(LANGUAGE_INDEX, 'language')
+  }
+})
+
+const LETTER_RE = /\p{L}/u
+
+/** Vocabulary key for a token, or null for numbers and punctuation. */
+export function getWordForm(token: string): string | null {
+  const core = parseToken(token)?.core
+  if (!core || !LETTER_RE.test(core)) return null
+  return core.normalize('NFC').toLocaleLowerCase()
+}
+
+export function getWordStatus(vocabulary: Vocabulary, form: string | null): WordStatus | null {
+  if (form === null) return null
+  return vocabulary.get(form)?.status ?? 'new'
+}
+
+export async function loadVocabulary(language: string): Promise<Vocabulary> {
+  const db = await openVocabularyDb()
+  const tx = db.transaction(WORD_STORE, 'readonly')
+  const entries = await requestToPromise<VocabularyEntry[]>(
+    tx.objectStore(WORD_STORE).index(LANGUAGE_INDEX).getAll(IDBKeyRange.only(language)),
+    LABEL
+  )
+  return new Map(entries.map((entry) => [entry.form, entry]))
+}
+
+/** Every stored word, in all languages. */
+export async function listAllVocabulary(): Promise<VocabularyEntry[]> {
+  const db = await openVocabularyDb()
+  const tx = db.transaction(WORD_STORE, 'readonly')
+  return requestToPromise<VocabularyEntry[]>(tx.objectStore(WORD_STORE).getAll(), LABEL)
+}
+
+/**
+ * Writes words from a backup. Words already stored keep their status unless
+ * `overwrite`, which replaces the whole vocabulary. Returns how many were written.
+ */
+export async function restoreVocabulary(entries: VocabularyEntry[], overwrite: boolean): Promise<number> {
+  const db = await openVocabularyDb()
+  const tx = db.transaction(WORD_STORE, 'readwrite')
+  const store = tx.objectStore(WORD_STORE)
+  if (overwrite) store.clear()
+  const existing = overwrite ? [] : await requestToPromise<IDBValidKey[]>(store.getAllKeys(), LABEL)
+  const stored = new Set(existing.map((key) => JSON.stringify(key)))
+
+  let written = 0
+  for (const entry of entries) {
+    if (stored.has(JSON.stringify([entry.language, entry.form]))) continue
+    store.put(entry)
+    written += 1
+  }
+  await transactionDone(tx, LABEL)
+  return written
+}
+
+/** The entries a status change wrote, keyed by form; `null` where the word went back to `new`. */
+export type VocabularyChanges = Map<string, VocabularyEntry | null>
+
+/**
+ * Sets the status of `forms`, returning only the entries it changed so they
+ * can be merged into whatever the vocabulary has become by the time the write
+ * finishes. Marking a word `new` deletes its entry.
+ */
+export async function setWordStatus(
+  language: string,
+  forms: string[],
+  status: WordStatus,
+  level?: LearningLevel
+): Promise<VocabularyChanges> {
+  const changes: VocabularyChanges = new Map()
+  const db = await openVocabularyDb()
+  const tx = db.transaction(WORD_STORE, 'readwrite')
+  const store = tx.objectStore(WORD_STORE)
+  const updatedAt = new Date().toISOString()
+
+  for (const form of new Set(forms)) {
+    if (status === 'new') {
+      changes.set(form, null)
+      store.delete([language, form])
+      continue
+    }
+    const entry: VocabularyEntry = {
+      language,
+      form,
+      status,
+      level: status === 'learning' ? (level ?? 1) : undefined,
+      updatedAt,
+    }
+    changes.set(form, entry)
+    store.put(entry)
+  }
+
+  await transactionDone(tx, LABEL)
+  return changes
+}
+
+/** `vocabulary` with `changes` from `setWordStatus` applied. */
+export function applyVocabularyChanges(vocabulary: Vocabulary, changes: VocabularyChanges): Vocabulary {
+  const next = new Map(vocabulary)
+  for (const [form, entry] of changes) {
+    if (entry) next.set(form, entry)
+    else next.delete(form)
+  }
+  return next
+}
+
+/** Share of word occurrences in `forms[start..end)` that are known. */
+export function getKnownShare(vocabulary: Vocabulary, forms: (string | null)[], start = 0, end = forms.length): KnownShare {
+  let known = 0
+  let total = 0
+  for (let i = start; i < end; i += 1) {
+    const status = getWordStatus(vocabulary, forms[i])
+    if (status === null || status === 'ignored') continue
+    total += 1
+    if (status === 'known') known += 1
+  }
+  return { known, total }
+}
+
+export function formatKnownShare({ known, total }: KnownShare): string {
+  return total === 0 ? '–' : `${Math.round((known / total) * 100)}%`
+}
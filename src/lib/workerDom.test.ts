@@ -0,0 +1,73 @@
+import JSZip from 'jszip'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { extractTextFromDocument } from './documentText'
+import { installWorkerDom } from './workerDom'
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+async function zipFile(name: string, entries: Record<string, string>): Promise<File> {
+  const zip = new JSZip()
+  for (const [path, content] of Object.entries(entries)) zip.file(path, content)
+  return new File([await zip.generateAsync({ type: 'blob' })], name)
+}
+
+function docxParagraph(text: string, style?: string): string {
+  const props = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${props}<w:r><w:t>${text}</w:t></w:r></w:p>`
+}
+
+// Vitest runs in Node, which like a worker has no DOMParser of its own
+describe('extraction with the worker DOM', () => {
+  beforeAll(() => {
+    installWorkerDom()
+  })
+
+  it('reads HTML with block breaks and headings', async () => {
+    const markup =
+      '<html><head><title>T</title><script>x()</script></head>' +
+      '<body><h1>One</h1><p>Some\n  text</p><h2>Two</h2></body></html>'
+    const file = new File([markup], 'page.html')
+    const { text, sections } = await extractTextFromDocument(file)
+    expect(text).toBe('One\n\nSome text\n\nTwo')
+    expect(sections).toEqual([
+      { title: 'One', level: 0, wordOffset: 0 },
+      { title: 'Two', level: 1, wordOffset: 3 },
+    ])
+  })
+
+  it('reads namespaced Word paragraphs and heading styles', async () => {
+    const body = docxParagraph('Intro', 'Heading1') + docxParagraph('Body text')
+    const file = await zipFile('notes.docx', {
+      'word/document.xml': `<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>${body}</w:body></w:document>`,
+    })
+    const { text, sections } = await extractTextFromDocument(file)
+    expect(text).toBe('Intro\n\nBody text')
+    expect(sections).toEqual([{ title: 'Intro', level: 0, wordOffset: 0 }])
+  })
+
+  it('reads an EPUB spine and its navigation document', async () => {
+    const file = await zipFile('book.epub', {
+      'META-INF/container.xml':
+        '<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles>' +
+        '<rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf':
+        '<package xmlns="http://www.idpf.org/2007/opf"><manifest>' +
+        '<item id="nav" href="nav.xhtml" properties="nav"/><item id="c1" href="c1.xhtml"/></manifest>' +
+        '<spine><itemref idref="c1"/></spine></package>',
+      'OEBPS/nav.xhtml':
+        '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>' +
+        '<nav epub:type="toc"><ol><li><a href="c1.xhtml#two">Part two</a></li></ol></nav></body></html>',
+      'OEBPS/c1.xhtml':
+        '<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><body>' +
+        '<p>First part.</p><h2 id="two">Second</h2><p>More.</p></body></html>',
+    })
+    const { text, sections } = await extractTextFromDocument(file)
+    expect(text).toContain('First part.')
+    expect(sections).toEqual([{ title: 'Part two', level: 0, wordOffset: 2 }])
+  })
+
+  it('rejects malformed XML', async () => {
+    const file = new File(['<FictionBook><body><p>Unclosed</body></FictionBook>'], 'book.fb2')
+    await expect(extractTextFromDocument(file)).rejects.toThrow('Could not parse FictionBook document.')
+  })
+})
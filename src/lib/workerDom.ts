@@ -0,0 +1,17 @@
+import { DOMParser as XmlParser, onErrorStopParsing } from '@xmldom/xmldom'
+import { DOMParser as HtmlParser, NodeFilter } from 'linkedom'
+
+/**
+ * Gives a worker the DOMParser and NodeFilter globals that markup-based formats
+ * are read with: linkedom for HTML, and xmldom for XML because it resolves
+ * namespaces (Word and EPUB attributes) and, like a browser, rejects malformed
+ * documents.
+ */
+export function installWorkerDom() {
+  if (typeof DOMParser !== 'undefined') return
+  const html = new HtmlParser()
+  const xml = new XmlParser({ onError: onErrorStopParsing })
+  const parseFromString = (source: string, type: DOMParserSupportedType) =>
+    type === 'text/html' ? html.parseFromString(source, type) : xml.parseFromString(source, type)
+  Object.assign(globalThis, { DOMParser: class { parseFromString = parseFromString }, NodeFilter })
+}
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { applyAppearanceCss, buildAppearanceCss, loadAppearance } from './lib/appearance'
+import { createWebSpeechEngine } from './lib/speech'
+
+// Before the first render, so the saved theme shows without a flash of the default
+applyAppearanceCss(document, buildAppearanceCss(loadAppearance()))
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <App speechEngine={createWebSpeechEngine()} />
   </StrictMode>,
 )
@@ -2,6 +2,14 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
 
+// Tesseract fetches `<langPath>/<language>.traineddata.gz`, so OCR data keeps its name
+const output = {
+  assetFileNames: ({ names }: { names: string[] }) =>
+    names.some((name) => name.endsWith('.traineddata.gz'))
+      ? 'tessdata/[name][extname]'
+      : 'assets/[name]-[hash][extname]',
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
@@ -41,10 +49,24 @@ export default defineConfig({
         ],
       },
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2,mjs,wasm}'],
+        // English OCR data is precached; other languages are cached when downloaded for offline use (see
+        // src/lib/ocr.ts) or the first time they are used
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2,mjs,wasm}', 'tessdata/eng.traineddata.gz'],
+        // Room for the OCR engine (about 4 MB)
+        maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
         navigateFallback: 'index.html',
+        runtimeCaching: [
+          {
+            urlPattern: /\/tessdata\/[\w-]+\.traineddata\.gz$/,
+            handler: 'CacheFirst',
+            options: { cacheName: 'lingread-tessdata' },
+          },
+        ],
       },
     }),
   ],
+  // The extraction worker loads pdf.js with a dynamic import, which needs module workers
+  worker: { format: 'es', rollupOptions: { output } },
+  build: { rollupOptions: { output } },
   base: './',
 })